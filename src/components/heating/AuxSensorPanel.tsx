@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import Icon from "@/components/ui/icon";
+import type { AuxSensor, AuxSensorKind, SensorAttachment, Tape } from "@/lib/types";
+import {
+  SCOPE_LABELS,
+  SENSOR_TYPES,
+  attachmentExists,
+  attachmentLabel,
+  formatAuxValue,
+  isAuxWarning,
+} from "@/lib/sensor-types";
+
+interface AuxSensorPanelProps {
+  sensors: AuxSensor[];
+  tapes: Tape[];
+  onAdd(kind: AuxSensorKind, name: string, attachment: SensorAttachment): void;
+  onRemove(id: string): void;
+}
+
+const KINDS = Object.keys(SENSOR_TYPES) as AuxSensorKind[];
+
+const STATUS_STYLE: Record<AuxSensor["status"], { label: string; className: string }> = {
+  online: { label: "ONLINE", className: "text-green-400" },
+  stale: { label: "УСТАРЕЛ", className: "text-amber-400" },
+  error: { label: "ОШИБКА", className: "text-red-400" },
+  offline: { label: "OFFLINE", className: "text-zinc-500" },
+};
+
+function attachmentKey(a: SensorAttachment) {
+  if (a.scope === "site") return "site";
+  return a.scope === "tape" ? `tape:${a.tapeId}` : `segment:${a.tapeId}:${a.segmentId}`;
+}
+
+// Места установки, допустимые для типа датчика
+function attachmentOptions(kind: AuxSensorKind, tapes: Tape[]): SensorAttachment[] {
+  const scopes = SENSOR_TYPES[kind].scopes;
+  return [
+    ...(scopes.includes("site") ? [{ scope: "site" as const }] : []),
+    ...tapes.flatMap(tape => [
+      ...(scopes.includes("tape") ? [{ scope: "tape" as const, tapeId: tape.id }] : []),
+      ...(scopes.includes("segment") ? tape.segments.map(seg => ({ scope: "segment" as const, tapeId: tape.id, segmentId: seg.id })) : []),
+    ]),
+  ];
+}
+
+export default function AuxSensorPanel({ sensors, tapes, onAdd, onRemove }: AuxSensorPanelProps) {
+  const [kind, setKind] = useState<AuxSensorKind>("ambient");
+  const [name, setName] = useState("");
+  const [attachment, setAttachment] = useState("site");
+
+  const options = attachmentOptions(kind, tapes);
+  const selected = options.find(o => attachmentKey(o) === attachment) ?? options[0];
+
+  const changeKind = (next: AuxSensorKind) => {
+    setKind(next);
+    const nextOptions = attachmentOptions(next, tapes);
+    if (!nextOptions.some(o => attachmentKey(o) === attachment) && nextOptions[0]) setAttachment(attachmentKey(nextOptions[0]));
+  };
+
+  const add = () => {
+    if (!selected) return;
+    onAdd(kind, name.trim(), selected);
+    setName("");
+  };
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-mono flex items-center gap-2">
+          <Icon name="Gauge" size={16} className="text-primary" />
+          ВСПОМОГАТЕЛЬНЫЕ ДАТЧИКИ
+          <Badge variant="secondary" className="font-mono text-[10px]">{sensors.length} шт.</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {KINDS.map(k => {
+          const spec = SENSOR_TYPES[k];
+          const group = sensors.filter(s => s.kind === k);
+          if (group.length === 0) return null;
+          return (
+            <div key={k} className="space-y-1.5">
+              <p className="text-[10px] font-mono text-muted-foreground flex items-center gap-1.5">
+                <Icon name={spec.icon} size={12} />
+                {spec.label.toUpperCase()} · {spec.min}…{spec.max} {spec.unit}
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-2">
+                {group.map(sensor => {
+                  const status = STATUS_STYLE[sensor.status];
+                  const orphaned = !attachmentExists(sensor.attachment, tapes);
+                  return (
+                    <div key={sensor.id} className={`p-2.5 rounded border text-[11px] font-mono space-y-1 ${isAuxWarning(sensor) ? "border-amber-400/50 bg-amber-400/10" : "border-border bg-secondary/40"}`}>
+                      <div className="flex items-center gap-2">
+                        <span className="font-bold">{sensor.id}</span>
+                        <span className="truncate text-muted-foreground">{sensor.name}</span>
+                        <Button size="icon" variant="ghost" className="h-5 w-5 ml-auto shrink-0" onClick={() => onRemove(sensor.id)}>
+                          <Icon name="X" size={12} />
+                        </Button>
+                      </div>
+                      <div className="flex items-baseline justify-between">
+                        <span className="text-lg font-bold">{formatAuxValue(sensor)}</span>
+                        <span className={status.className}>{status.label}</span>
+                      </div>
+                      <p className={orphaned ? "text-red-400" : "text-muted-foreground"}>
+                        {SCOPE_LABELS[sensor.attachment.scope]}: {attachmentLabel(sensor.attachment, tapes)}{orphaned ? " — удалена" : ""}
+                      </p>
+                      {sensor.issue && <p className="text-red-400">{sensor.issue}</p>}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end pt-2 border-t border-border">
+          <div>
+            <Label className="text-[10px] font-mono text-muted-foreground">ТИП</Label>
+            <Select value={kind} onValueChange={v => changeKind(v as AuxSensorKind)}>
+              <SelectTrigger className="h-8 font-mono text-xs mt-1 bg-secondary border-border"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {KINDS.map(k => <SelectItem key={k} value={k}>{SENSOR_TYPES[k].label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-[10px] font-mono text-muted-foreground">НАЗВАНИЕ</Label>
+            <Input value={name} placeholder={SENSOR_TYPES[kind].label} onChange={e => setName(e.target.value)} className="h-8 font-mono text-xs mt-1 bg-secondary border-border" />
+          </div>
+          <div>
+            <Label className="text-[10px] font-mono text-muted-foreground">МЕСТО УСТАНОВКИ</Label>
+            <Select value={selected ? attachmentKey(selected) : ""} onValueChange={setAttachment}>
+              <SelectTrigger className="h-8 font-mono text-xs mt-1 bg-secondary border-border"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {options.map(o => (
+                  <SelectItem key={attachmentKey(o)} value={attachmentKey(o)}>{attachmentLabel(o, tapes)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button size="sm" variant="outline" className="font-mono text-xs h-8" disabled={!selected} onClick={add}>
+            <Icon name="Plus" size={14} className="mr-1" /> Добавить датчик
+          </Button>
+        </div>
+        {selected?.scope === "segment" && (
+          <p className="text-[10px] font-mono text-muted-foreground">Датчик сегмента используется вместо датчика ленты и объекта при оценке этого сегмента</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
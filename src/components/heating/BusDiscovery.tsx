@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import Icon from "@/components/ui/icon";
+import type { Tape } from "@/lib/types";
+import { ROM_ISSUE_LABELS, type DiscoveredSensor, type DuplicateSerial, type ScanAnalysis, type SensorPlace } from "@/lib/onewire";
+
+interface BusDiscoveryProps {
+  tapes: Tape[];
+  analysis: ScanAnalysis | null;
+  duplicates: DuplicateSerial[];
+  scannedAt: string | null;
+  scanning: boolean;
+  error: string | null;
+  onScan(): void;
+  onBind(serial: string, tapeId: number, segmentId: number): void;
+}
+
+const DRAG_TYPE = "text/x-onewire-serial";
+
+export default function BusDiscovery({ tapes, analysis, duplicates, scannedAt, scanning, error, onScan, onBind }: BusDiscoveryProps) {
+  const [dropTarget, setDropTarget] = useState<number | null>(null);
+
+  const placeLabel = (place: SensorPlace) => {
+    const tape = tapes.find(t => t.id === place.tapeId);
+    const seg = tape?.segments.find(s => s.id === place.segmentId);
+    return `${tape?.name ?? `Лента ${place.tapeId}`} • ${seg?.name ?? `Сегмент ${place.segmentId}`}`;
+  };
+
+  const entryStyle = (d: DiscoveredSensor) => {
+    if (d.issue) return "border-red-500/40 bg-red-500/10";
+    if (d.retired) return "border-border bg-zinc-800/50 text-zinc-500";
+    if (!d.place) return "border-amber-400/50 bg-amber-400/10 cursor-grab";
+    return "border-border bg-secondary/40 cursor-grab";
+  };
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-mono flex items-center gap-2">
+          <Icon name="ScanSearch" size={16} className="text-primary" />
+          ШИНА 1-WIRE
+          {analysis && (
+            <>
+              <Badge variant="secondary" className="font-mono text-[10px]">найдено {analysis.discovered.length}</Badge>
+              {analysis.unassigned.length > 0 && <Badge variant="secondary" className="font-mono text-[10px] text-amber-400">не привязано {analysis.unassigned.length}</Badge>}
+              {analysis.missing.length > 0 && <Badge variant="secondary" className="font-mono text-[10px] text-red-400">не ответило {analysis.missing.length}</Badge>}
+            </>
+          )}
+          <Button size="sm" variant="outline" className="font-mono text-xs h-7 ml-auto" disabled={scanning} onClick={onScan}>
+            <Icon name={scanning ? "Loader2" : "RefreshCw"} size={14} className={`mr-1 ${scanning ? "animate-spin" : ""}`} />
+            Сканировать
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-xs font-mono text-red-400">{error}</p>}
+        {duplicates.length > 0 && (
+          <div className="space-y-1 p-2 rounded border border-red-500/40 bg-red-500/10 text-[11px] font-mono">
+            <p className="text-red-400 font-bold">ПОВТОРЯЮЩИЕСЯ СЕРИЙНЫЕ НОМЕРА</p>
+            {duplicates.map(d => (
+              <p key={d.serial}>{d.serial}: {d.places.map(p => `${placeLabel(p)} (${p.sensorId})`).join("; ")}</p>
+            ))}
+          </div>
+        )}
+        {!analysis ? (
+          <p className="text-xs font-mono text-muted-foreground">
+            Сканирование опрашивает шину, проверяет код семейства 0x28 и CRC каждого ROM-кода и сверяет найденное с привязками
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div className="space-y-1.5">
+              <p className="text-[10px] font-mono text-muted-foreground">
+                НА ШИНЕ{scannedAt ? ` — ${new Date(scannedAt).toLocaleTimeString("ru-RU")}` : ""} · перетащите датчик на сегмент
+              </p>
+              {analysis.discovered.map(d => (
+                <div
+                  key={d.rom}
+                  draggable={!d.issue && !d.retired}
+                  onDragStart={e => e.dataTransfer.setData(DRAG_TYPE, d.serial)}
+                  className={`flex items-center gap-2 p-2 rounded border text-[11px] font-mono ${entryStyle(d)}`}
+                >
+                  <Icon name={d.issue ? "XCircle" : "GripVertical"} size={12} className={d.issue ? "text-red-400" : "text-muted-foreground"} />
+                  <span className="font-bold">{d.serial}</span>
+                  <span className="text-muted-foreground truncate">{d.rom}</span>
+                  <span className="ml-auto shrink-0">
+                    {d.issue
+                      ? <span className="text-red-400">{ROM_ISSUE_LABELS[d.issue]}</span>
+                      : d.retired
+                        ? <span>списан</span>
+                        : d.place
+                          ? <span className="text-muted-foreground">{placeLabel(d.place)}</span>
+                          : <span className="text-amber-400">не привязан</span>}
+                  </span>
+                </div>
+              ))}
+              {analysis.missing.length > 0 && (
+                <>
+                  <p className="text-[10px] font-mono text-red-400 pt-2">ПРИВЯЗАНЫ, НО НЕ ОТВЕТИЛИ</p>
+                  {analysis.missing.map(m => (
+                    <div key={`${m.segmentId}:${m.sensorId}`} className="flex items-center gap-2 p-2 rounded border border-red-500/30 text-[11px] font-mono">
+                      <Icon name="SearchX" size={12} className="text-red-400" />
+                      <span className="font-bold">{m.sensorId}</span>
+                      <span className="text-muted-foreground">{m.serial}</span>
+                      <span className="ml-auto text-muted-foreground">{placeLabel(m)}</span>
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+            <div className="space-y-2">
+              <p className="text-[10px] font-mono text-muted-foreground">СЕГМЕНТЫ</p>
+              {tapes.map(tape => (
+                <div key={tape.id} className="space-y-1">
+                  <p className="text-[11px] font-mono text-muted-foreground">{tape.name}</p>
+                  <div className="grid grid-cols-2 gap-1.5">
+                    {tape.segments.map(seg => (
+                      <div
+                        key={seg.id}
+                        onDragOver={e => {
+                          if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+                          e.preventDefault();
+                          setDropTarget(seg.id);
+                        }}
+                        onDragLeave={() => setDropTarget(prev => prev === seg.id ? null : prev)}
+                        onDrop={e => {
+                          e.preventDefault();
+                          setDropTarget(null);
+                          const serial = e.dataTransfer.getData(DRAG_TYPE);
+                          if (serial) onBind(serial, tape.id, seg.id);
+                        }}
+                        className={`p-2 rounded border border-dashed text-[11px] font-mono transition-colors ${dropTarget === seg.id ? "border-primary bg-primary/10" : "border-border"}`}
+                      >
+                        <span>{seg.name}</span>
+                        <span className="float-right text-muted-foreground">{seg.sensors.length} шт.</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
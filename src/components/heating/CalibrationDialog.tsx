@@ -0,0 +1,102 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import Icon from "@/components/ui/icon";
+import type { Sensor, SensorCalibration } from "@/lib/types";
+import { IDENTITY_CALIBRATION, calibrate, formatCalibration, rawValue, twoPointCalibration } from "@/lib/calibration";
+
+interface CalibrationDialogProps {
+  sensor: Sensor | null;
+  onClose(): void;
+  onApply(calibration: SensorCalibration): void;
+}
+
+const EMPTY_POINTS = { raw1: "", ref1: "", raw2: "", ref2: "" };
+
+// Форма заполняется из датчика при монтировании — родитель пересоздаёт диалог через key
+export default function CalibrationDialog({ sensor, onClose, onApply }: CalibrationDialogProps) {
+  const [offset, setOffset] = useState(String(sensor?.calibration?.offset ?? 0));
+  const [gain, setGain] = useState(String(sensor?.calibration?.gain ?? 1));
+  const [points, setPoints] = useState(EMPTY_POINTS);
+
+  const parsed = { offset: parseFloat(offset), gain: parseFloat(gain) };
+  const valid = Number.isFinite(parsed.offset) && Number.isFinite(parsed.gain) && parsed.gain > 0;
+  const numbers = Object.values(points).map(parseFloat);
+  const twoPoint = numbers.every(Number.isFinite) ? twoPointCalibration(numbers[0], numbers[1], numbers[2], numbers[3]) : null;
+  const raw = sensor ? rawValue(sensor) : 0;
+
+  const updatePoint = (field: keyof typeof EMPTY_POINTS, value: string) => setPoints(prev => ({ ...prev, [field]: value }));
+
+  return (
+    <Dialog open={sensor !== null} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="font-mono">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Icon name="Crosshair" size={18} className="text-primary" />
+            Калибровка {sensor?.id}
+          </DialogTitle>
+          <DialogDescription>
+            Показание = сырое × наклон + сдвиг. Сейчас: {formatCalibration(sensor?.calibration)}, сырое {raw.toFixed(2)}°C
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label className="text-xs text-muted-foreground">Сдвиг, °C</Label>
+            <Input type="number" step={0.05} value={offset} onChange={e => setOffset(e.target.value)} className="font-mono mt-1 bg-secondary border-border" />
+          </div>
+          <div>
+            <Label className="text-xs text-muted-foreground">Наклон</Label>
+            <Input type="number" step={0.001} min={0.5} max={1.5} value={gain} onChange={e => setGain(e.target.value)} className="font-mono mt-1 bg-secondary border-border" />
+          </div>
+        </div>
+        {valid && (
+          <p className="text-xs text-muted-foreground">
+            Результат: {raw.toFixed(2)}°C → <span className="text-foreground">{calibrate(raw, parsed).toFixed(2)}°C</span>
+          </p>
+        )}
+
+        <div className="space-y-2 p-3 rounded border border-border">
+          <p className="text-xs text-muted-foreground">По двум точкам: сырое показание датчика и эталонная температура</p>
+          <div className="grid grid-cols-4 gap-2">
+            <Input placeholder="сырое 1" type="number" value={points.raw1} onChange={e => updatePoint("raw1", e.target.value)} className="font-mono text-xs h-8 bg-secondary border-border" />
+            <Input placeholder="эталон 1" type="number" value={points.ref1} onChange={e => updatePoint("ref1", e.target.value)} className="font-mono text-xs h-8 bg-secondary border-border" />
+            <Input placeholder="сырое 2" type="number" value={points.raw2} onChange={e => updatePoint("raw2", e.target.value)} className="font-mono text-xs h-8 bg-secondary border-border" />
+            <Input placeholder="эталон 2" type="number" value={points.ref2} onChange={e => updatePoint("ref2", e.target.value)} className="font-mono text-xs h-8 bg-secondary border-border" />
+          </div>
+          <Button
+            size="sm"
+            variant="secondary"
+            className="font-mono text-xs"
+            disabled={!twoPoint}
+            onClick={() => {
+              if (!twoPoint) return;
+              setOffset(String(twoPoint.offset));
+              setGain(String(twoPoint.gain));
+            }}
+          >
+            {twoPoint ? `Подставить ${formatCalibration(twoPoint)}` : "Нужны две точки, разнесённые хотя бы на 1°C"}
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" className="font-mono" onClick={() => onApply(IDENTITY_CALIBRATION)}>
+            Сбросить
+          </Button>
+          <Button className="font-mono" disabled={!valid} onClick={() => onApply(parsed)}>
+            Применить
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,51 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import Icon from "@/components/ui/icon";
+import type { Tape } from "@/lib/types";
+import { CALIBRATION_SOURCE_LABELS, formatCalibration, type CalibrationRecord } from "@/lib/calibration";
+import { formatLogTime } from "@/lib/journal";
+
+interface CalibrationHistoryProps {
+  history: CalibrationRecord[];
+  tapes: Tape[];
+}
+
+export default function CalibrationHistory({ history, tapes }: CalibrationHistoryProps) {
+  const tapeName = (id: number) => tapes.find(t => t.id === id)?.name ?? `Лента ${id}`;
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-mono flex items-center gap-2">
+          <Icon name="History" size={16} className="text-primary" />
+          ИСТОРИЯ КАЛИБРОВОК
+          <Badge variant="secondary" className="font-mono text-[10px] ml-2">{history.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {history.length === 0 ? (
+          <p className="text-sm font-mono text-muted-foreground text-center py-4">Калибровок ещё не было</p>
+        ) : (
+          <ScrollArea className="h-[240px]">
+            <div className="space-y-1">
+              {history.map(record => (
+                <div key={record.id} className="flex items-center gap-3 p-2 rounded hover:bg-secondary/50 text-[11px] font-mono">
+                  <span className="text-muted-foreground w-36 shrink-0">{formatLogTime(record.timestamp)}</span>
+                  <Badge variant="outline" className="font-mono text-[10px] px-1.5 py-0">{CALIBRATION_SOURCE_LABELS[record.source]}</Badge>
+                  <span className="font-bold">{record.sensorId}</span>
+                  <span className="text-muted-foreground truncate">{tapeName(record.tapeId)} • {record.serial}</span>
+                  <span className="ml-auto whitespace-nowrap">
+                    <span className="text-muted-foreground">{formatCalibration(record.before)}</span>
+                    {" → "}
+                    <span className="text-foreground">{formatCalibration(record.after)}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,204 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import Icon from "@/components/ui/icon";
+import ElectricalFindings from "@/components/heating/ElectricalFindings";
+import type { BreakerCurve, Line, Phase, Tape } from "@/lib/types";
+import {
+  BREAKER_CURVES,
+  BREAKER_RATINGS,
+  CROSS_SECTIONS,
+  DEFAULT_RUN_LENGTH,
+  PHASES,
+  RCD_RATINGS_MA,
+  formatBreaker,
+  formatRcd,
+  loadColor,
+  phaseLoads,
+  type LineLoad,
+} from "@/lib/circuits";
+import { findingsForLine, type ElectricalAnalysis } from "@/lib/electrical";
+
+interface CircuitPanelProps {
+  lines: Line[];
+  tapes: Tape[];
+  loads: LineLoad[];
+  analysis: ElectricalAnalysis;
+  onAddLine(): void;
+  onUpdateLine(id: number, patch: Partial<Line>): void;
+  onRemoveLine(id: number): void;
+  onAssignTape(tapeId: number, lineId: number | null): void;
+  onAssignSegment(tapeId: number, segmentId: number, lineId: number | null): void;
+}
+
+const NONE = "none";
+const INHERIT = "inherit";
+
+function NumberSelect({ value, options, suffix, onChange }: { value: number; options: number[]; suffix: string; onChange(v: number): void }) {
+  const all = options.includes(value) ? options : [...options, value].sort((a, b) => a - b);
+  return (
+    <Select value={String(value)} onValueChange={v => onChange(Number(v))}>
+      <SelectTrigger className="h-7 font-mono text-xs mt-1 bg-secondary border-border"><SelectValue /></SelectTrigger>
+      <SelectContent>
+        {all.map(o => <SelectItem key={o} value={String(o)}>{o}{suffix}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function CircuitPanel({ lines, tapes, loads, analysis, onAddLine, onUpdateLine, onRemoveLine, onAssignTape, onAssignSegment }: CircuitPanelProps) {
+  const phases = phaseLoads(loads);
+  const orphan = loads.find(l => l.id === 0);
+
+  const lineOptions = (extra: { value: string; label: string }) => (
+    <SelectContent>
+      <SelectItem value={extra.value}>{extra.label}</SelectItem>
+      {lines.map(l => <SelectItem key={l.id} value={String(l.id)}>{l.name} ({l.phase})</SelectItem>)}
+    </SelectContent>
+  );
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="text-sm font-mono flex items-center gap-2">
+          <Icon name="Cable" size={16} className="text-primary" />
+          ЭЛЕКТРОПРОВОДКА
+          {PHASES.map(p => (
+            <Badge key={p} variant="secondary" className="font-mono text-[10px]">{p}: {phases[p].toFixed(1)} A</Badge>
+          ))}
+          <Button size="sm" variant="outline" className="font-mono text-xs h-7 ml-auto" onClick={onAddLine}>
+            <Icon name="Plus" size={14} className="mr-1" /> Линия
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {lines.length === 0 && <p className="text-xs font-mono text-muted-foreground">Линии питания не заданы</p>}
+        {lines.map(line => {
+          const load = loads.find(l => l.id === line.id);
+          const percent = load?.percent ?? 0;
+          const design = analysis.circuits.find(c => c.lineId === line.id);
+          return (
+            <div key={line.id} className="p-3 rounded-lg border border-border bg-secondary/30 space-y-3">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={line.name}
+                  onChange={e => onUpdateLine(line.id, { name: e.target.value })}
+                  className="font-mono font-bold text-sm bg-transparent border-none h-7 w-40 p-0 focus-visible:ring-0 focus-visible:ring-offset-0"
+                />
+                <Badge variant="secondary" className="font-mono text-[10px]">{line.phase}</Badge>
+                <span className="text-[11px] font-mono text-muted-foreground">{formatBreaker(line)} · УЗО {formatRcd(line)} · {line.crossSection} мм²</span>
+                <Button size="sm" variant="ghost" className="h-7 w-7 p-0 ml-auto text-muted-foreground hover:text-red-400" onClick={() => onRemoveLine(line.id)}>
+                  <Icon name="Trash2" size={14} />
+                </Button>
+              </div>
+              <div>
+                <div className="flex justify-between text-xs font-mono mb-1">
+                  <span className="text-muted-foreground">{load?.segments ?? 0} сегм. · {(load?.loadKw ?? 0).toFixed(2)} кВт · {(load?.currentA ?? 0).toFixed(1)} A</span>
+                  <span className={loadColor(percent)}>{percent.toFixed(0)}%</span>
+                </div>
+                <Progress value={Math.min(100, percent)} className="h-2" />
+              </div>
+              {design && (
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-[10px] font-mono">
+                  <div><p className="text-muted-foreground">КАБЕЛЬ НАГРЕВА</p><p className="text-foreground">{design.heaterLength} м</p></div>
+                  <div><p className="text-muted-foreground">НОМИНАЛ</p><p className="text-foreground">{design.ratedA.toFixed(2)} A</p></div>
+                  <div><p className="text-muted-foreground">ХОЛОДНЫЙ СТАРТ</p><p className="text-foreground">~{design.coldStartA.toFixed(1)} A</p></div>
+                  <div><p className="text-muted-foreground">ПАДЕНИЕ U</p><p className="text-foreground">{design.voltageDropPct.toFixed(2)}%</p></div>
+                  <div>
+                    <p className="text-muted-foreground">УТЕЧКА / БЮДЖЕТ</p>
+                    <p className="text-foreground">
+                      {(design.measuredLeakageMa ?? design.leakageMa).toFixed(1)} / {design.leakageBudgetMa.toFixed(1)} мА{design.measuredLeakageMa !== null ? " (изм.)" : ""}
+                    </p>
+                  </div>
+                </div>
+              )}
+              <ElectricalFindings findings={findingsForLine(analysis.findings, line.id)} />
+              <div className="grid grid-cols-3 md:grid-cols-7 gap-2">
+                <div>
+                  <Label className="text-[10px] font-mono text-muted-foreground">ФАЗА</Label>
+                  <Select value={line.phase} onValueChange={v => onUpdateLine(line.id, { phase: v as Phase })}>
+                    <SelectTrigger className="h-7 font-mono text-xs mt-1 bg-secondary border-border"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {PHASES.map(p => <SelectItem key={p} value={p}>{p}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-[10px] font-mono text-muted-foreground">АВТОМАТ</Label>
+                  <NumberSelect value={line.breakerA} options={BREAKER_RATINGS} suffix=" A" onChange={v => onUpdateLine(line.id, { breakerA: v })} />
+                </div>
+                <div>
+                  <Label className="text-[10px] font-mono text-muted-foreground">ХАРАКТЕРИСТИКА</Label>
+                  <Select value={line.breakerCurve} onValueChange={v => onUpdateLine(line.id, { breakerCurve: v as BreakerCurve })}>
+                    <SelectTrigger className="h-7 font-mono text-xs mt-1 bg-secondary border-border"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {BREAKER_CURVES.map(c => <SelectItem key={c} value={c}>тип {c}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-[10px] font-mono text-muted-foreground">УЗО (мА)</Label>
+                  <NumberSelect value={line.rcdMa} options={RCD_RATINGS_MA} suffix=" мА" onChange={v => onUpdateLine(line.id, { rcdMa: v })} />
+                </div>
+                <div>
+                  <Label className="text-[10px] font-mono text-muted-foreground">УЗО (A)</Label>
+                  <NumberSelect value={line.rcdA} options={BREAKER_RATINGS} suffix=" A" onChange={v => onUpdateLine(line.id, { rcdA: v })} />
+                </div>
+                <div>
+                  <Label className="text-[10px] font-mono text-muted-foreground">СЕЧЕНИЕ</Label>
+                  <NumberSelect value={line.crossSection} options={CROSS_SECTIONS} suffix=" мм²" onChange={v => onUpdateLine(line.id, { crossSection: v })} />
+                </div>
+                <div>
+                  <Label className="text-[10px] font-mono text-muted-foreground">ДО ЩИТА (м)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={line.runLength ?? DEFAULT_RUN_LENGTH}
+                    onChange={e => onUpdateLine(line.id, { runLength: Math.max(0, Number(e.target.value) || 0) })}
+                    className="h-7 font-mono text-xs mt-1 bg-secondary border-border"
+                  />
+                </div>
+              </div>
+            </div>
+          );
+        })}
+        {orphan && (
+          <p className="text-xs font-mono text-amber-400">
+            Без линии питания: {orphan.segments} сегм., {orphan.loadKw.toFixed(2)} кВт — назначьте линию ниже
+          </p>
+        )}
+        <Separator />
+        <div className="space-y-3">
+          <p className="text-xs font-mono text-muted-foreground">ПОДКЛЮЧЕНИЕ ЛЕНТ И СЕГМЕНТОВ</p>
+          {tapes.map(tape => (
+            <div key={tape.id} className="space-y-1.5">
+              <div className="flex items-center gap-3">
+                <span className="text-sm font-mono font-bold w-32 truncate">{tape.name}</span>
+                <Select value={tape.lineId !== undefined ? String(tape.lineId) : NONE} onValueChange={v => onAssignTape(tape.id, v === NONE ? null : Number(v))}>
+                  <SelectTrigger className="h-7 w-48 font-mono text-xs bg-secondary border-border"><SelectValue /></SelectTrigger>
+                  {lineOptions({ value: NONE, label: "не подключена" })}
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-6 gap-1.5">
+                {tape.segments.map(seg => (
+                  <div key={seg.id} className="flex items-center gap-1.5">
+                    <span className="text-[10px] font-mono text-muted-foreground w-8">#{seg.id}</span>
+                    <Select value={seg.lineId !== undefined ? String(seg.lineId) : INHERIT} onValueChange={v => onAssignSegment(tape.id, seg.id, v === INHERIT ? null : Number(v))}>
+                      <SelectTrigger className={`h-6 font-mono text-[10px] bg-secondary border-border ${seg.lineId !== undefined ? "text-primary" : ""}`}><SelectValue /></SelectTrigger>
+                      {lineOptions({ value: INHERIT, label: "как у ленты" })}
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,31 @@
+import Icon from "@/components/ui/icon";
+import type { ElectricalFinding } from "@/lib/electrical";
+
+interface ElectricalFindingsProps {
+  findings: ElectricalFinding[];
+  // Сообщение при отсутствии замечаний; без него пустой список не рендерится
+  okMessage?: string;
+}
+
+export default function ElectricalFindings({ findings, okMessage }: ElectricalFindingsProps) {
+  if (findings.length === 0) {
+    return okMessage ? (
+      <p className="text-[11px] font-mono text-emerald-400 flex items-center gap-1.5">
+        <Icon name="CheckCircle2" size={12} /> {okMessage}
+      </p>
+    ) : null;
+  }
+  return (
+    <div className="space-y-1">
+      {findings.map(f => (
+        <div
+          key={f.key}
+          className={`flex items-start gap-1.5 p-1.5 rounded border text-[11px] font-mono ${f.severity === "error" ? "border-red-500/40 bg-red-500/10 text-red-400" : "border-amber-400/40 bg-amber-400/10 text-amber-400"}`}
+        >
+          <Icon name={f.severity === "error" ? "OctagonAlert" : "TriangleAlert"} size={12} className="mt-0.5 shrink-0" />
+          <span>{f.message}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
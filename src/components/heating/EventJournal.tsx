@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import Icon from "@/components/ui/icon";
+import type { LogEntry, Tape } from "@/lib/types";
+import {
+  ACTOR_LABELS,
+  EMPTY_LOG_FILTER,
+  LOG_TYPE_COLORS,
+  LOG_TYPE_ICONS,
+  LOG_TYPE_LABELS,
+  describeLogTarget,
+  filterLogs,
+  formatLogTime,
+  type LogFilter,
+} from "@/lib/journal";
+import { toDateTimeLocal } from "@/lib/utils";
+
+const ALL = "all";
+
+interface EventJournalProps {
+  logs: LogEntry[];
+  tapes: Tape[];
+}
+
+export default function EventJournal({ logs, tapes }: EventJournalProps) {
+  const [filter, setFilter] = useState<LogFilter>(EMPTY_LOG_FILTER);
+  const update = <K extends keyof LogFilter>(field: K, value: LogFilter[K]) => setFilter(prev => ({ ...prev, [field]: value }));
+
+  const visible = filterLogs(logs, filter);
+  const tapeSegments = tapes.find(t => t.id === filter.tapeId)?.segments ?? tapes.flatMap(t => t.segments);
+  const filtered = visible.length !== logs.length;
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="text-sm font-mono flex items-center gap-2">
+          <Icon name="FileText" size={16} className="text-primary" />
+          ЖУРНАЛ СОБЫТИЙ
+          <Badge variant="secondary" className="font-mono text-[10px] ml-2">
+            {filtered ? `${visible.length} из ${logs.length}` : logs.length}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={filter.type} onValueChange={v => update("type", v as LogFilter["type"])}>
+            <SelectTrigger className="font-mono text-xs h-8 w-40 bg-secondary border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Все типы</SelectItem>
+              {Object.entries(LOG_TYPE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filter.actor} onValueChange={v => update("actor", v as LogFilter["actor"])}>
+            <SelectTrigger className="font-mono text-xs h-8 w-36 bg-secondary border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Все источники</SelectItem>
+              {Object.entries(ACTOR_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filter.tapeId === null ? ALL : String(filter.tapeId)}
+            onValueChange={v => setFilter(prev => ({ ...prev, tapeId: v === ALL ? null : Number(v), segmentId: null }))}
+          >
+            <SelectTrigger className="font-mono text-xs h-8 w-36 bg-secondary border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Все ленты</SelectItem>
+              {tapes.map(t => (
+                <SelectItem key={t.id} value={String(t.id)}>{t.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filter.segmentId === null ? ALL : String(filter.segmentId)}
+            onValueChange={v => update("segmentId", v === ALL ? null : Number(v))}
+          >
+            <SelectTrigger className="font-mono text-xs h-8 w-36 bg-secondary border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Все сегменты</SelectItem>
+              {tapeSegments.map(s => (
+                <SelectItem key={s.id} value={String(s.id)}>{s.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="datetime-local"
+            value={filter.from === null ? "" : toDateTimeLocal(filter.from)}
+            onChange={e => update("from", e.target.value ? new Date(e.target.value).getTime() : null)}
+            className="font-mono text-xs h-8 w-48 bg-secondary border-border"
+          />
+          <span className="text-xs text-muted-foreground">—</span>
+          <Input
+            type="datetime-local"
+            value={filter.to === null ? "" : toDateTimeLocal(filter.to)}
+            onChange={e => update("to", e.target.value ? new Date(e.target.value).getTime() : null)}
+            className="font-mono text-xs h-8 w-48 bg-secondary border-border"
+          />
+          {filtered && (
+            <Button size="sm" variant="ghost" className="font-mono text-xs h-8" onClick={() => setFilter(EMPTY_LOG_FILTER)}>
+              <Icon name="X" size={14} className="mr-1" />
+              Сбросить
+            </Button>
+          )}
+        </div>
+        <ScrollArea className="h-[500px]">
+          <div className="space-y-1">
+            {visible.length === 0 && (
+              <p className="text-sm font-mono text-muted-foreground text-center py-6">Записей нет</p>
+            )}
+            {visible.map(log => {
+              const target = describeLogTarget(log, tapes);
+              return (
+                <div key={log.id} className="flex items-start gap-3 p-2.5 rounded hover:bg-secondary/50 transition-colors">
+                  <Icon name={LOG_TYPE_ICONS[log.type]} size={16} className={`mt-0.5 shrink-0 ${LOG_TYPE_COLORS[log.type]}`} />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-[11px] font-mono text-muted-foreground">{formatLogTime(log.timestamp)}</span>
+                      <Badge variant="outline" className="font-mono text-[10px] px-1.5 py-0">{ACTOR_LABELS[log.actor]}</Badge>
+                      {target && (
+                        <Badge variant="secondary" className="font-mono text-[10px] px-1.5 py-0">{target}</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm font-mono mt-0.5">{log.message}</p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
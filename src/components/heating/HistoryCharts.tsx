@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import Icon from "@/components/ui/icon";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  AreaChart,
+  Area,
+  Brush,
+  ReferenceLine,
+} from "recharts";
+import type { Tape } from "@/lib/types";
+import type { HistoryStore } from "@/lib/history";
+import { seriesKey } from "@/lib/history";
+import {
+  CHART_RANGES,
+  buildTemperatureSeries,
+  resolveRange,
+  toChartPoints,
+  type ChartRangeKey,
+  type SeriesOptions,
+} from "@/lib/chart-series";
+import { useHistoryRows } from "@/hooks/use-history";
+import { toDateTimeLocal } from "@/lib/utils";
+
+const TOOLTIP_STYLE = { background: "hsl(220 18% 11%)", border: "1px solid hsl(220 16% 18%)", borderRadius: 8, fontSize: 12 };
+const TICK = { fontSize: 10, fill: "hsl(215 15% 55%)" };
+const GRID = "hsl(220 16% 18%)";
+
+const SERIES_TOGGLES: { key: keyof SeriesOptions; label: string }[] = [
+  { key: "tapes", label: "Ленты (ср.)" },
+  { key: "segments", label: "Сегменты" },
+  { key: "sensors", label: "Датчики" },
+  { key: "ambient", label: "Окр. среда" },
+];
+
+interface HistoryChartsProps {
+  store: HistoryStore | null;
+  tapes: Tape[];
+  thresholdTemp: number | null;
+}
+
+export default function HistoryCharts({ store, tapes, thresholdTemp }: HistoryChartsProps) {
+  const [rangeKey, setRangeKey] = useState<ChartRangeKey>("24h");
+  const [custom, setCustom] = useState(() => ({ from: Date.now() - 3 * 24 * 3600000, to: Date.now() }));
+  const [options, setOptions] = useState<SeriesOptions>({ tapes: true, segments: false, sensors: false, ambient: true });
+  const [overlays, setOverlays] = useState({ target: true, threshold: true });
+
+  const range = resolveRange(rangeKey, custom);
+  const series = buildTemperatureSeries(tapes, options);
+  const tempRows = useHistoryRows(store, series.query, range);
+  const tempData = toChartPoints(tempRows, series.groups);
+
+  const powerKeys = tapes.flatMap(t => t.segments.map(s => seriesKey.power(s.id)));
+  const powerRows = useHistoryRows(store, powerKeys, range);
+  const powerData = toChartPoints(powerRows, { power: powerKeys });
+
+  const targets = [...new Set(tapes.flatMap(t => t.segments.filter(s => s.enabled).map(s => s.targetTemp)))].slice(0, 3);
+
+  return (
+    <div className="space-y-4">
+      <Card className="bg-card border-border">
+        <CardContent className="p-3 flex flex-wrap items-center gap-2">
+          <Icon name="CalendarRange" size={14} className="text-primary" />
+          {CHART_RANGES.map(r => (
+            <Button
+              key={r.value}
+              size="sm"
+              variant={rangeKey === r.value ? "default" : "outline"}
+              className="font-mono text-[10px] h-7"
+              onClick={() => setRangeKey(r.value)}
+            >
+              {r.label}
+            </Button>
+          ))}
+          {rangeKey === "custom" && (
+            <div className="flex items-center gap-1.5">
+              <Input
+                type="datetime-local"
+                value={toDateTimeLocal(custom.from)}
+                onChange={e => e.target.value && setCustom(c => ({ ...c, from: new Date(e.target.value).getTime() }))}
+                className="font-mono text-xs h-7 w-48 bg-secondary border-border"
+              />
+              <span className="text-xs text-muted-foreground">—</span>
+              <Input
+                type="datetime-local"
+                value={toDateTimeLocal(custom.to)}
+                onChange={e => e.target.value && setCustom(c => ({ ...c, to: new Date(e.target.value).getTime() }))}
+                className="font-mono text-xs h-7 w-48 bg-secondary border-border"
+              />
+            </div>
+          )}
+          <div className="w-px h-5 bg-border mx-1" />
+          {SERIES_TOGGLES.map(t => (
+            <Button
+              key={t.key}
+              size="sm"
+              variant={options[t.key] ? "secondary" : "ghost"}
+              className={`font-mono text-[10px] h-7 ${options[t.key] ? "text-primary" : "text-muted-foreground"}`}
+              onClick={() => setOptions(o => ({ ...o, [t.key]: !o[t.key] }))}
+            >
+              {t.label}
+            </Button>
+          ))}
+          <div className="w-px h-5 bg-border mx-1" />
+          <Button
+            size="sm"
+            variant={overlays.target ? "secondary" : "ghost"}
+            className={`font-mono text-[10px] h-7 ${overlays.target ? "text-emerald-400" : "text-muted-foreground"}`}
+            onClick={() => setOverlays(o => ({ ...o, target: !o.target }))}
+          >
+            Цель
+          </Button>
+          <Button
+            size="sm"
+            variant={overlays.threshold ? "secondary" : "ghost"}
+            className={`font-mono text-[10px] h-7 ${overlays.threshold ? "text-amber-400" : "text-muted-foreground"}`}
+            onClick={() => setOverlays(o => ({ ...o, threshold: !o.threshold }))}
+          >
+            Порог
+          </Button>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+        <Card className="bg-card border-border">
+          <CardHeader>
+            <CardTitle className="text-sm font-mono flex items-center gap-2">
+              <Icon name="TrendingUp" size={16} className="text-primary" />
+              ТЕМПЕРАТУРА СЕГМЕНТОВ
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={320}>
+              <LineChart data={tempData}>
+                <CartesianGrid strokeDasharray="3 3" stroke={GRID} />
+                <XAxis dataKey="time" tick={TICK} stroke={GRID} minTickGap={24} />
+                <YAxis tick={TICK} stroke={GRID} unit="°C" />
+                <Tooltip contentStyle={TOOLTIP_STYLE} />
+                {series.lines.map(line => (
+                  <Line
+                    key={line.key}
+                    type="monotone"
+                    dataKey={line.key}
+                    stroke={line.color}
+                    strokeWidth={line.width}
+                    strokeDasharray={line.dashed ? "4 4" : undefined}
+                    dot={false}
+                    name={line.name}
+                    isAnimationActive={false}
+                  />
+                ))}
+                {overlays.target && targets.map(t => (
+                  <ReferenceLine key={`target-${t}`} y={t} stroke="hsl(142 72% 45%)" strokeDasharray="6 3" label={{ value: `цель ${t}°`, fill: "hsl(142 72% 45%)", fontSize: 10, position: "insideTopRight" }} />
+                ))}
+                {overlays.threshold && thresholdTemp !== null && (
+                  <ReferenceLine y={thresholdTemp} stroke="hsl(38 92% 50%)" strokeDasharray="2 4" label={{ value: `порог ${thresholdTemp}°`, fill: "hsl(38 92% 50%)", fontSize: 10, position: "insideBottomRight" }} />
+                )}
+                <Brush dataKey="time" height={20} stroke="hsl(25 95% 53%)" fill="hsl(220 18% 11%)" travellerWidth={8} />
+              </LineChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-card border-border">
+          <CardHeader>
+            <CardTitle className="text-sm font-mono flex items-center gap-2">
+              <Icon name="Gauge" size={16} className="text-primary" />
+              ПОТРЕБЛЕНИЕ МОЩНОСТИ
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={320}>
+              <AreaChart data={powerData}>
+                <defs>
+                  <linearGradient id="powerGrad" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="0%" stopColor="hsl(38 92% 50%)" stopOpacity={0.4} />
+                    <stop offset="100%" stopColor="hsl(38 92% 50%)" stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                <CartesianGrid strokeDasharray="3 3" stroke={GRID} />
+                <XAxis dataKey="time" tick={TICK} stroke={GRID} minTickGap={24} />
+                <YAxis tick={TICK} stroke={GRID} unit="%" />
+                <Tooltip contentStyle={TOOLTIP_STYLE} />
+                <Area type="monotone" dataKey="power" stroke="hsl(38 92% 50%)" fill="url(#powerGrad)" strokeWidth={2} name="Мощность" isAnimationActive={false} />
+                <Brush dataKey="time" height={20} stroke="hsl(38 92% 50%)" fill="hsl(220 18% 11%)" travellerWidth={8} />
+              </AreaChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import Icon from "@/components/ui/icon";
+import type { Sensor, Tape } from "@/lib/types";
+import { formatCalibration } from "@/lib/calibration";
+import { validateReplacement, type DiscoveredSensor, type RetiredSensor } from "@/lib/onewire";
+
+interface ReplaceSensorDialogProps {
+  sensor: Sensor | null;
+  tapes: Tape[];
+  retired: RetiredSensor[];
+  candidates: DiscoveredSensor[];
+  onClose(): void;
+  onReplace(serial: string, note: string): void;
+}
+
+export default function ReplaceSensorDialog({ sensor, tapes, retired, candidates, onClose, onReplace }: ReplaceSensorDialogProps) {
+  const [serial, setSerial] = useState("");
+  const [note, setNote] = useState("");
+  const open = sensor !== null;
+
+  // Диалог не размонтируется между заменами: при открытии для другого датчика ввод начинается с чистого листа
+  useEffect(() => {
+    if (!open) return;
+    setSerial("");
+    setNote("");
+  }, [open, sensor?.serial]);
+
+  const check = serial.trim() ? validateReplacement(serial, tapes, retired) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="font-mono">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Icon name="Replace" size={18} className="text-primary" />
+            Замена датчика {sensor?.id}
+          </DialogTitle>
+          <DialogDescription>
+            Текущий экземпляр {sensor?.serial} будет списан. Логический ID, место в сегменте и калибровка ({formatCalibration(sensor?.calibration)}) перейдут к новому.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div>
+            <Label className="text-xs text-muted-foreground">Серийный номер или ROM-код нового датчика</Label>
+            <Input value={serial} onChange={e => setSerial(e.target.value)} placeholder="28-XXXXXXXXXXXX" className="font-mono mt-1 bg-secondary border-border" />
+            {check && "error" in check && <p className="text-[11px] text-red-400 mt-1">{check.error}</p>}
+          </div>
+          {candidates.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-[11px] text-muted-foreground">Не привязаны по последнему сканированию шины:</p>
+              <div className="flex flex-wrap gap-1.5">
+                {candidates.map(c => (
+                  <Button key={c.rom} size="sm" variant={serial === c.serial ? "default" : "outline"} className="font-mono text-[10px] h-6" onClick={() => setSerial(c.serial)}>
+                    {c.serial}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+          <div>
+            <Label className="text-xs text-muted-foreground">Причина замены</Label>
+            <Input value={note} onChange={e => setNote(e.target.value)} placeholder="обрыв, залит водой, механическое повреждение…" className="font-mono mt-1 bg-secondary border-border" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" className="font-mono" onClick={onClose}>Отмена</Button>
+          <Button className="font-mono" disabled={!check || "error" in check} onClick={() => check && "serial" in check && onReplace(check.serial, note.trim())}>
+            Заменить
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,39 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+
+interface SensorPositionInputProps {
+  position: number;
+  validate(position: number): string | null;
+  onCommit(position: number): void;
+}
+
+// Значение применяется по Enter или при уходе с поля; недопустимое остаётся в поле с подсказкой
+export default function SensorPositionInput({ position, validate, onCommit }: SensorPositionInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const value = draft ?? String(position);
+  const error = draft === null ? validate(position) : validate(parseFloat(draft));
+
+  const commit = () => {
+    if (draft === null) return;
+    const parsed = parseFloat(draft);
+    if (validate(parsed)) return;
+    setDraft(null);
+    if (parsed !== position) onCommit(Math.round(parsed * 10) / 10);
+  };
+
+  return (
+    <div className="space-y-0.5">
+      <Input
+        type="number"
+        step={0.1}
+        min={0}
+        value={value}
+        onChange={e => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={e => e.key === "Enter" && commit()}
+        className={`h-6 w-20 px-1.5 font-mono text-[11px] text-right bg-secondary ${error ? "border-red-500" : "border-border"}`}
+      />
+      {error && <p className="text-[10px] text-red-400 text-right">{error}</p>}
+    </div>
+  );
+}
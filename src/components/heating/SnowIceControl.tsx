@@ -0,0 +1,96 @@
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import Icon from "@/components/ui/icon";
+import type { ControlMode, SnowIceSettings, Tape } from "@/lib/types";
+import {
+  CONTROL_MODE_LABELS,
+  SNOW_ICE_REASON_LABELS,
+  snowIceSettings,
+  validateSnowIce,
+  type SnowIceState,
+} from "@/lib/snow-ice";
+
+interface SnowIceControlProps {
+  tape: Tape;
+  status: SnowIceState | undefined;
+  autoActive: boolean;
+  now: number;
+  onModeChange(mode: ControlMode): void;
+  onSettingsChange(settings: SnowIceSettings): void;
+}
+
+const FIELDS: { key: keyof SnowIceSettings; label: string; step: number }[] = [
+  { key: "minAmbient", label: "ОКНО ОТ (°C)", step: 0.5 },
+  { key: "maxAmbient", label: "ОКНО ДО (°C)", step: 0.5 },
+  { key: "moistureThreshold", label: "ОСАДКИ ОТ (%)", step: 5 },
+  { key: "afterRunMinutes", label: "ДОСУШКА (мин)", step: 5 },
+];
+
+function formatLeft(ms: number) {
+  const minutes = Math.max(0, Math.ceil(ms / 60000));
+  return minutes >= 60 ? `${Math.floor(minutes / 60)} ч ${minutes % 60} мин` : `${minutes} мин`;
+}
+
+export default function SnowIceControl({ tape, status, autoActive, now, onModeChange, onSettingsChange }: SnowIceControlProps) {
+  const mode = tape.controlMode ?? "thermostat";
+  const settings = snowIceSettings(tape);
+  const error = validateSnowIce(settings);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3 flex-wrap">
+        <span className="text-xs font-mono text-muted-foreground flex items-center gap-1.5">
+          <Icon name="Snowflake" size={14} className="text-primary" />
+          РЕЖИМ АВТОМАТИКИ
+        </span>
+        <Select value={mode} onValueChange={v => onModeChange(v as ControlMode)}>
+          <SelectTrigger className="h-7 w-40 font-mono text-xs bg-secondary border-border"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {(Object.keys(CONTROL_MODE_LABELS) as ControlMode[]).map(m => (
+              <SelectItem key={m} value={m}>{CONTROL_MODE_LABELS[m]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {mode === "snow-ice" && status && autoActive && (
+          <>
+            <Badge variant="secondary" className={`font-mono text-[10px] ${status.demand ? "text-sky-400" : "text-muted-foreground"}`}>
+              {status.demand ? "ЗАПРОС НАГРЕВА" : "НЕТ ЗАПРОСА"} — {SNOW_ICE_REASON_LABELS[status.reason]}
+            </Badge>
+            {status.reason === "after-run" && status.afterRunUntil !== null && (
+              <span className="text-[10px] font-mono text-muted-foreground">осталось {formatLeft(status.afterRunUntil - now)}</span>
+            )}
+          </>
+        )}
+        {mode === "snow-ice" && !autoActive && (
+          <span className="text-[10px] font-mono text-amber-400">авторежим выключен — погодная логика не работает</span>
+        )}
+      </div>
+      {mode === "snow-ice" && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {FIELDS.map(f => (
+              <div key={f.key}>
+                <Label className="text-[10px] font-mono text-muted-foreground">{f.label}</Label>
+                <Input
+                  type="number"
+                  step={f.step}
+                  value={settings[f.key]}
+                  onChange={e => onSettingsChange({ ...settings, [f.key]: Number(e.target.value) || 0 })}
+                  className="font-mono text-xs mt-1 bg-secondary border-border h-8"
+                />
+              </div>
+            ))}
+          </div>
+          {error && <p className="text-[10px] font-mono text-red-400">{error}</p>}
+          {status && (
+            <p className="text-[10px] font-mono text-muted-foreground">
+              Воздух: {status.ambient !== null ? `${status.ambient.toFixed(1)}°C` : "—"} · осадки: {status.moisture !== null ? `${status.moisture.toFixed(0)}%` : "—"} · нагрев до уставки сегмента, пока воздух в окне и идут осадки
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
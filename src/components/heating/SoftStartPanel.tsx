@@ -0,0 +1,67 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import Icon from "@/components/ui/icon";
+import type { Line, Tape } from "@/lib/types";
+import { loadColor } from "@/lib/circuits";
+import { softStartLines, softStartProgress, type SoftStartSettings, type SoftStartState } from "@/lib/soft-start";
+
+interface SoftStartPanelProps {
+  state: SoftStartState;
+  tapes: Tape[];
+  lines: Line[];
+  settings: SoftStartSettings;
+  now: number;
+}
+
+export default function SoftStartPanel({ state, tapes, lines, settings, now }: SoftStartPanelProps) {
+  const progress = softStartProgress(state);
+  const rows = softStartLines(state, tapes, lines, now);
+
+  return (
+    <Card className="bg-card border-primary/40">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-mono flex items-center gap-2">
+          <Icon name="TrendingUp" size={16} className="text-primary" />
+          ПЛАВНЫЙ ПУСК — {state.reason}
+          <Badge variant="secondary" className="font-mono text-[10px] ml-auto">
+            {progress.done} / {progress.total}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Progress value={progress.percent} className="h-2" />
+        <p className="text-[11px] font-mono text-muted-foreground">
+          {state.queue.length > 0
+            ? `Сегменты включаются по одному на линию, не чаще раза в ${settings.stepDelaySec} с, пока пусковой ток укладывается в автомат`
+            : `Все сегменты включены — ждём окончания пускового тока (${settings.warmupSec} с)`}
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-2">
+          {rows.map(row => {
+            const percent = row.limitA ? (row.drawA / row.limitA) * 100 : 0;
+            return (
+              <div key={row.lineId} className={`p-2 rounded border space-y-1.5 ${row.stalledSec !== null ? "border-amber-400/40 bg-amber-400/10" : "border-border bg-secondary/30"}`}>
+                <div className="flex justify-between text-xs font-mono">
+                  <span className="font-bold truncate">{row.name}</span>
+                  <span className={row.limitA ? loadColor(percent) : "text-muted-foreground"}>
+                    {row.drawA.toFixed(1)}{row.limitA ? ` / ${row.limitA}` : ""} A
+                  </span>
+                </div>
+                {row.limitA !== null && <Progress value={Math.min(100, percent)} className="h-1.5" />}
+                <p className="text-[10px] font-mono text-muted-foreground">
+                  в очереди: {row.pending} • пусковой ток: {row.warming}
+                </p>
+                {row.stalledSec !== null && (
+                  <p className="text-[10px] font-mono text-amber-400 flex items-center gap-1">
+                    <Icon name="PauseCircle" size={12} />
+                    СТОИТ {row.stalledSec} с — нет места под пусковой ток, принудительно через {Math.max(0, settings.maxWaitSec - row.stalledSec)} с
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
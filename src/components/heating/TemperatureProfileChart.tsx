@@ -0,0 +1,86 @@
+import {
+  ComposedChart,
+  Line,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceArea,
+  ReferenceDot,
+  ReferenceLine,
+} from "recharts";
+import type { Tape } from "@/lib/types";
+import { segmentBounds, temperatureProfile } from "@/lib/tape-profile";
+
+const TOOLTIP_STYLE = { background: "hsl(220 18% 11%)", border: "1px solid hsl(220 16% 18%)", borderRadius: 8, fontSize: 12 };
+const TICK = { fontSize: 10, fill: "hsl(215 15% 55%)" };
+const GRID = "hsl(220 16% 18%)";
+
+interface TemperatureProfileChartProps {
+  tape: Tape;
+  thresholdTemp: number | null;
+  height?: number;
+}
+
+// Температура вдоль ленты: линия — интерполяция между датчиками, точки — сами датчики
+export default function TemperatureProfileChart({ tape, thresholdTemp, height = 200 }: TemperatureProfileChartProps) {
+  const profile = temperatureProfile(tape);
+  const bounds = segmentBounds(tape);
+  // Датчик вне своего сегмента не пропадает молча — оператор видит, чью позицию поправить
+  const misplaced = profile.misplaced.length > 0 && (
+    <p className="text-[11px] font-mono text-amber-400">
+      Вне своего сегмента: {profile.misplaced.map(p => {
+        const seg = tape.segments.find(s => s.id === p.segmentId);
+        const b = bounds.find(x => x.segmentId === p.segmentId);
+        return `${seg?.name ?? p.segmentId} / ${p.sensorId} — ${p.x} м (сегмент ${b?.start}–${b?.end} м)`;
+      }).join("; ")}
+    </p>
+  );
+
+  if (profile.samples.length === 0) {
+    return (
+      <>
+        <p className="text-xs font-mono text-muted-foreground text-center py-6">Нет датчиков на связи — профиль не построить</p>
+        {misplaced}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <ResponsiveContainer width="100%" height={height}>
+        <ComposedChart data={profile.samples} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke={GRID} />
+          {bounds.map((b, i) => i % 2 === 1 && (
+            <ReferenceArea key={b.segmentId} x1={b.start} x2={b.end} fill="hsl(220 16% 18%)" fillOpacity={0.35} />
+          ))}
+          <XAxis dataKey="x" type="number" domain={[0, profile.length]} tick={TICK} stroke={GRID} unit=" м" />
+          <YAxis tick={TICK} stroke={GRID} unit="°C" domain={["auto", "auto"]} />
+          <Tooltip
+            contentStyle={TOOLTIP_STYLE}
+            labelFormatter={x => `${Number(x).toFixed(1)} м`}
+            formatter={(v: number) => [`${v.toFixed(1)}°C`, "Температура"]}
+          />
+          <Line type="linear" dataKey="temperature" stroke="hsl(25 95% 53%)" strokeWidth={2} dot={false} isAnimationActive={false} />
+          <Scatter data={profile.points} dataKey="temperature" fill="hsl(142 72% 45%)" isAnimationActive={false} />
+          {thresholdTemp !== null && (
+            <ReferenceLine y={thresholdTemp} stroke="hsl(38 92% 50%)" strokeDasharray="2 4" label={{ value: `порог ${thresholdTemp}°`, fill: "hsl(38 92% 50%)", fontSize: 10, position: "insideBottomRight" }} />
+          )}
+          {profile.coldest && (
+            <ReferenceDot
+              x={profile.coldest.x}
+              y={profile.coldest.temperature}
+              r={5}
+              fill="hsl(200 80% 50%)"
+              stroke="none"
+              label={{ value: `${profile.coldest.temperature.toFixed(1)}° @ ${profile.coldest.x.toFixed(1)} м`, fill: "hsl(200 80% 60%)", fontSize: 10, position: "bottom" }}
+            />
+          )}
+        </ComposedChart>
+      </ResponsiveContainer>
+      {misplaced}
+    </>
+  );
+}
@@ -0,0 +1,35 @@
+import { useEffect, useState } from "react";
+import { TIER_STEP, bucketRows, type HistoryRow, type HistoryStore } from "@/lib/history";
+import { rangeBounds, type HistoryRange } from "@/lib/chart-series";
+
+export function useHistoryRows(
+  store: HistoryStore | null,
+  series: string[],
+  range: HistoryRange,
+  maxPoints = 240,
+  refreshMs = 30000,
+) {
+  const [rows, setRows] = useState<HistoryRow[]>([]);
+  const seriesKey = series.join(",");
+  const rangeKey = JSON.stringify(range);
+
+  useEffect(() => {
+    if (!store) return;
+    let cancelled = false;
+    const names = seriesKey ? seriesKey.split(",") : [];
+    const bounds = JSON.parse(rangeKey) as HistoryRange;
+    const load = async () => {
+      const { from, to } = rangeBounds(bounds, Date.now());
+      const { tier, data } = await store.query(names, from, to);
+      if (!cancelled) setRows(bucketRows(data, from, to, maxPoints, TIER_STEP[tier]));
+    };
+    load().catch(() => undefined);
+    const timer = setInterval(() => load().catch(() => undefined), refreshMs);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [store, seriesKey, rangeKey, maxPoints, refreshMs]);
+
+  return rows;
+}
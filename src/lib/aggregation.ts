@@ -0,0 +1,66 @@
+import type { AggregationMethod, Segment, SegmentAggregation, Sensor } from "@/lib/types";
+
+export const DEFAULT_AGGREGATION: SegmentAggregation = { method: "mean", outlierDelta: 5 };
+
+export const AGGREGATION_LABELS: Record<AggregationMethod, string> = {
+  mean: "Среднее",
+  median: "Медиана",
+  min: "Минимум",
+  trimmed: "Усечённое среднее",
+};
+
+// Выброс можно отличить только на фоне хотя бы двух согласных соседей
+const MIN_SENSORS_FOR_OUTLIERS = 3;
+const TRIM_SHARE = 0.2;
+
+function round1(v: number) {
+  return Math.round(v * 10) / 10;
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function aggregate(values: number[], method: AggregationMethod): number {
+  switch (method) {
+    case "mean":
+      return values.reduce((a, v) => a + v, 0) / values.length;
+    case "median":
+      return median(values);
+    case "min":
+      return Math.min(...values);
+    case "trimmed": {
+      const sorted = [...values].sort((a, b) => a - b);
+      const k = sorted.length >= 3 ? Math.max(1, Math.floor(sorted.length * TRIM_SHARE)) : 0;
+      const kept = sorted.slice(k, sorted.length - k);
+      return kept.reduce((a, v) => a + v, 0) / kept.length;
+    }
+  }
+}
+
+// Датчик — выброс, если расходится с медианой онлайн-датчиков сегмента больше чем на outlierDelta:
+// медиана держится за большинство и сама от одиночного выброса не уезжает
+export function findOutliers(sensors: Sensor[], outlierDelta: number): Set<string> {
+  const online = sensors.filter(s => s.status === "online");
+  const outliers = new Set<string>();
+  if (online.length < MIN_SENSORS_FOR_OUTLIERS) return outliers;
+  const consensus = median(online.map(s => s.temperature));
+  online.forEach(sensor => {
+    if (Math.abs(sensor.temperature - consensus) > outlierDelta) outliers.add(sensor.id);
+  });
+  // Если «выбросы» все, согласия нет — отбраковывать нечего
+  return outliers.size === online.length ? new Set() : outliers;
+}
+
+// Пересчитывает температуру сегмента по его настройке и помечает отбракованные датчики;
+// без онлайн-датчиков остаётся последнее значение
+export function aggregateSegment(seg: Segment): Segment {
+  const { method, outlierDelta } = seg.aggregation ?? DEFAULT_AGGREGATION;
+  const outliers = findOutliers(seg.sensors, outlierDelta);
+  const sensors = seg.sensors.map(s => Boolean(s.outlier) === outliers.has(s.id) ? s : { ...s, outlier: outliers.has(s.id) });
+  const values = sensors.filter(s => s.status === "online" && !outliers.has(s.id)).map(s => s.temperature);
+  const temperature = values.length > 0 ? round1(aggregate(values, method)) : seg.temperature;
+  return { ...seg, sensors, temperature };
+}
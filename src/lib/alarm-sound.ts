@@ -0,0 +1,88 @@
+import type { Alert } from "@/lib/types";
+
+interface Tone {
+  freq: number;
+  ms: number;
+  gap: number;
+}
+
+// У каждой важности свой рисунок, чтобы критичное отличалось на слух, не глядя на экран
+export const TONE_PATTERNS: Record<Alert["severity"], Tone[]> = {
+  low: [{ freq: 660, ms: 120, gap: 0 }],
+  medium: [
+    { freq: 740, ms: 150, gap: 120 },
+    { freq: 740, ms: 150, gap: 0 },
+  ],
+  high: [
+    { freq: 880, ms: 180, gap: 90 },
+    { freq: 660, ms: 180, gap: 90 },
+    { freq: 880, ms: 180, gap: 0 },
+  ],
+  critical: [
+    { freq: 1046, ms: 140, gap: 60 },
+    { freq: 784, ms: 140, gap: 60 },
+    { freq: 1046, ms: 140, gap: 60 },
+    { freq: 784, ms: 140, gap: 60 },
+    { freq: 1046, ms: 400, gap: 0 },
+  ],
+};
+
+export const CRITICAL_REPEAT_MS = 6000;
+
+export const SEVERITY_RANK: Record<Alert["severity"], number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+export interface AlarmPlayer {
+  unlock(): Promise<boolean>;
+  isUnlocked(): boolean;
+  play(severity: Alert["severity"]): void;
+  close(): void;
+}
+
+type AudioContextCtor = typeof AudioContext;
+
+// Браузеры не дают звучать AudioContext до жеста пользователя, поэтому контекст
+// создаётся и возобновляется только в unlock(), вызванном из обработчика клика.
+export function createAlarmPlayer(volume = 0.2): AlarmPlayer {
+  let ctx: AudioContext | null = null;
+
+  const isUnlocked = () => ctx?.state === "running";
+
+  return {
+    async unlock() {
+      const Ctor: AudioContextCtor | undefined = window.AudioContext
+        ?? (window as unknown as { webkitAudioContext?: AudioContextCtor }).webkitAudioContext;
+      if (!Ctor) return false;
+      ctx ??= new Ctor();
+      if (ctx.state === "suspended") await ctx.resume().catch(() => undefined);
+      return isUnlocked();
+    },
+
+    isUnlocked,
+
+    play(severity) {
+      if (!ctx || !isUnlocked()) return;
+      let t = ctx.currentTime + 0.02;
+      TONE_PATTERNS[severity].forEach(tone => {
+        const osc = ctx!.createOscillator();
+        const gain = ctx!.createGain();
+        osc.type = severity === "critical" ? "square" : "sine";
+        osc.frequency.value = tone.freq;
+        const end = t + tone.ms / 1000;
+        // Короткие фронты убирают щелчки на границах тона
+        gain.gain.setValueAtTime(0, t);
+        gain.gain.linearRampToValueAtTime(volume, t + 0.01);
+        gain.gain.setValueAtTime(volume, end - 0.02);
+        gain.gain.linearRampToValueAtTime(0, end);
+        osc.connect(gain).connect(ctx!.destination);
+        osc.start(t);
+        osc.stop(end);
+        t = end + tone.gap / 1000;
+      });
+    },
+
+    close() {
+      ctx?.close().catch(() => undefined);
+      ctx = null;
+    },
+  };
+}
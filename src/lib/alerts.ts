@@ -0,0 +1,155 @@
+import type { Alert, Tape } from "@/lib/types";
+import { FAULT_LABELS, tapeMaxTemp } from "@/lib/safety";
+import type { LineLoad } from "@/lib/circuits";
+
+export interface AlertRuleSettings {
+  maxTemp: number;
+  sensorOfflineMinutes: number;
+  targetTimeoutMinutes: number;
+  targetTolerance: number;
+}
+
+export const DEFAULT_ALERT_RULES: AlertRuleSettings = {
+  maxTemp: 65,
+  sensorOfflineMinutes: 10,
+  targetTimeoutMinutes: 30,
+  targetTolerance: 1,
+};
+
+export type AlertRule = "overheat" | "sensor-offline" | "target-timeout" | "line-overload" | "safety-trip";
+
+export interface AlertCondition {
+  key: string;
+  rule: AlertRule;
+  severity: Alert["severity"];
+  message: string;
+}
+
+export interface AlertRuleState {
+  offlineSince: Record<string, number>;
+  belowTargetSince: Record<number, number>;
+}
+
+export const EMPTY_ALERT_STATE: AlertRuleState = { offlineSince: {}, belowTargetSince: {} };
+
+const MAX_ALERTS = 200;
+
+function minutes(ms: number) {
+  return Math.floor(ms / 60000);
+}
+
+export function evaluateAlertRules(
+  tapes: Tape[],
+  lines: LineLoad[],
+  prev: AlertRuleState,
+  settings: AlertRuleSettings,
+  now: number,
+): { conditions: AlertCondition[]; state: AlertRuleState } {
+  const conditions: AlertCondition[] = [];
+  const state: AlertRuleState = { offlineSince: {}, belowTargetSince: {} };
+
+  tapes.forEach(tape => tape.segments.forEach(seg => {
+    // Сработавшая защита держит алерт, пока оператор не сбросит аварию
+    if (seg.fault) {
+      conditions.push({
+        key: `safety-trip:${seg.id}`,
+        rule: "safety-trip",
+        severity: "critical",
+        message: `Аварийное отключение: ${tape.name} • ${seg.name} — ${FAULT_LABELS[seg.fault.reason].toLowerCase()} (${seg.fault.message})`,
+      });
+    }
+
+    const online = seg.sensors.filter(s => s.status === "online");
+    const hottest = Math.max(...online.map(s => s.temperature), online.length > 0 ? seg.temperature : -Infinity);
+    const limit = tapeMaxTemp(tape, settings.maxTemp);
+    if (hottest > limit) {
+      conditions.push({
+        key: `overheat:${seg.id}`,
+        rule: "overheat",
+        severity: "critical",
+        message: `Перегрев: ${tape.name} • ${seg.name} — ${hottest.toFixed(1)}°C (макс. ${limit}°C)`,
+      });
+    }
+
+    seg.sensors.forEach(sensor => {
+      const key = `${seg.id}:${sensor.id}`;
+      if (sensor.status === "online") return;
+      const since = prev.offlineSince[key] ?? now;
+      state.offlineSince[key] = since;
+      if (now - since >= settings.sensorOfflineMinutes * 60000) {
+        conditions.push({
+          key: `sensor-offline:${key}`,
+          rule: "sensor-offline",
+          severity: "high",
+          message: `Датчик ${sensor.id} (${seg.name}) ${sensor.status === "error" ? "в ошибке" : "не отвечает"} более ${minutes(now - since)} мин`,
+        });
+      }
+    });
+
+    // Сегмент греет, а до цели не добрался: таймер сбрасывается при достижении цели или отключении
+    const heating = tape.enabled && seg.enabled && seg.power > 0 && online.length > 0;
+    if (heating && seg.temperature < seg.targetTemp - settings.targetTolerance) {
+      const since = prev.belowTargetSince[seg.id] ?? now;
+      state.belowTargetSince[seg.id] = since;
+      if (now - since >= settings.targetTimeoutMinutes * 60000) {
+        conditions.push({
+          key: `target-timeout:${seg.id}`,
+          rule: "target-timeout",
+          severity: "medium",
+          message: `${tape.name} • ${seg.name}: цель ${seg.targetTemp}°C не достигнута за ${minutes(now - since)} мин (сейчас ${seg.temperature.toFixed(1)}°C)`,
+        });
+      }
+    }
+  }));
+
+  lines.forEach(line => {
+    if (line.capacityKw <= 0 || line.loadKw <= line.capacityKw) return;
+    conditions.push({
+      key: `line-overload:${line.id}`,
+      rule: "line-overload",
+      severity: "high",
+      message: `Перегрузка: ${line.name} (${line.phase}) — ${line.loadKw.toFixed(2)} кВт, ${line.currentA.toFixed(1)} A при допустимых ${line.capacityKw.toFixed(2)} кВт`,
+    });
+  });
+
+  return { conditions, state };
+}
+
+export function isActiveAlert(alert: Alert) {
+  return !alert.resolvedAt;
+}
+
+// Одно активное оповещение на ключ: повторные срабатывания обновляют его, а не плодят новые;
+// активные оповещения правил, чьё условие исчезло, помечаются устранёнными.
+export function reconcileAlerts(
+  alerts: Alert[],
+  conditions: AlertCondition[],
+  timestamp: string,
+): { alerts: Alert[]; raised: Alert[]; resolved: Alert[] } {
+  const byKey = new Map(conditions.map(c => [c.key, c]));
+  const activeKeys = new Set<string>();
+  const resolved: Alert[] = [];
+
+  const updated = alerts.map(alert => {
+    if (!alert.key || !isActiveAlert(alert)) return alert;
+    const condition = byKey.get(alert.key);
+    if (!condition) {
+      const next = { ...alert, resolvedAt: timestamp };
+      resolved.push(next);
+      return next;
+    }
+    activeKeys.add(alert.key);
+    if (condition.message === alert.message && condition.severity === alert.severity) return alert;
+    return { ...alert, message: condition.message, severity: condition.severity };
+  });
+
+  let nextId = alerts.reduce((m, a) => Math.max(m, a.id), 0);
+  const raised: Alert[] = conditions
+    .filter(c => !activeKeys.has(c.key))
+    .map(c => ({ id: ++nextId, timestamp, severity: c.severity, message: c.message, acknowledged: false, key: c.key }));
+
+  if (raised.length === 0 && resolved.length === 0 && updated.every((a, i) => a === alerts[i])) {
+    return { alerts, raised, resolved };
+  }
+  return { alerts: [...raised.reverse(), ...updated].slice(0, MAX_ALERTS), raised, resolved };
+}
@@ -0,0 +1,57 @@
+import type { CableKind, CableProduct, Tape } from "@/lib/types";
+
+export const CABLE_KIND_LABELS: Record<CableKind, string> = {
+  "self-regulating": "Саморегулирующийся",
+  constant: "Резистивный",
+  zonal: "Зональный",
+};
+
+// Каталог марок, которые ставят монтажники; паспортные данные производителей
+export const CABLE_PRODUCTS: CableProduct[] = [
+  { id: "nordheat-sr40", manufacturer: "NordHeat", model: "SR 40-2CR", kind: "self-regulating", wattsAt10: 40, wattsAt0: 48, maxExposureTemp: 65, voltage: 230, ip: "IP68", maxCircuitLength: 80 },
+  { id: "nordheat-sr30", manufacturer: "NordHeat", model: "SR 30-2CR", kind: "self-regulating", wattsAt10: 30, wattsAt0: 36, maxExposureTemp: 65, voltage: 230, ip: "IP68", maxCircuitLength: 100 },
+  { id: "iceguard-gm36", manufacturer: "IceGuard", model: "GM-36 UV", kind: "self-regulating", wattsAt10: 30, wattsAt0: 36, maxExposureTemp: 85, voltage: 230, ip: "IP67", maxCircuitLength: 110 },
+  { id: "teplolenta-r30", manufacturer: "Теплолента", model: "R-30 двужильный", kind: "constant", wattsAt10: 30, wattsAt0: 30, maxExposureTemp: 90, voltage: 230, ip: "IP67", maxCircuitLength: 60 },
+  { id: "teplolenta-z25", manufacturer: "Теплолента", model: "Z-25 зональный", kind: "zonal", wattsAt10: 25, wattsAt0: 25, maxExposureTemp: 120, voltage: 230, ip: "IP66", maxCircuitLength: 150 },
+];
+
+export const DEFAULT_PRODUCT_ID = "nordheat-sr40";
+
+export function findProduct(id: string | undefined): CableProduct | undefined {
+  return CABLE_PRODUCTS.find(p => p.id === id);
+}
+
+// Лента без марки или с удалённой из каталога маркой считается на кабеле по умолчанию
+export function tapeProduct(tape: Tape): CableProduct {
+  return findProduct(tape.productId) ?? findProduct(DEFAULT_PRODUCT_ID)!;
+}
+
+export function productLabel(product: CableProduct) {
+  return `${product.manufacturer} ${product.model}`;
+}
+
+// Саморегулирующийся кабель: мощность растёт при охлаждении, линейно по паспортным точкам 0 и +10°C;
+// резистивный и зональный греют одинаково при любой температуре
+export function wattsPerMeterAt(product: CableProduct, temperature: number) {
+  if (product.kind !== "self-regulating") return product.wattsAt10;
+  const slope = (product.wattsAt0 - product.wattsAt10) / 10;
+  return Math.max(0, product.wattsAt10 + slope * (10 - temperature));
+}
+
+// Марка, ближайшая к старым параметрам кабеля ленты (тип и Вт/м)
+function closestProduct(kind: CableKind | undefined, wattsPerMeter: number | undefined): CableProduct {
+  const candidates = CABLE_PRODUCTS.filter(p => !kind || p.kind === kind);
+  const pool = candidates.length > 0 ? candidates : CABLE_PRODUCTS;
+  if (wattsPerMeter === undefined) return pool[0];
+  return pool.reduce((best, p) => Math.abs(p.wattsAt10 - wattsPerMeter) < Math.abs(best.wattsAt10 - wattsPerMeter) ? p : best);
+}
+
+// До каталога лента хранила тип и мощность кабеля прямо в себе
+type LegacyTape = Tape & { cable?: { kind?: CableKind; wattsPerMeter?: number } };
+
+export function withProduct(tape: LegacyTape): Tape {
+  const { cable, ...rest } = tape;
+  if (findProduct(rest.productId)) return rest;
+  const product = cable ? closestProduct(cable.kind, cable.wattsPerMeter) : findProduct(DEFAULT_PRODUCT_ID)!;
+  return { ...rest, productId: product.id };
+}
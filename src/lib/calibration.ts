@@ -0,0 +1,225 @@
+import type { CalibrationSource, Sensor, SensorCalibration, Tape } from "@/lib/types";
+import { aggregateSegment } from "@/lib/aggregation";
+
+export interface CalibrationRecord {
+  id: number;
+  timestamp: string;
+  tapeId: number;
+  segmentId: number;
+  sensorId: string;
+  serial: string;
+  source: CalibrationSource;
+  before: SensorCalibration;
+  after: SensorCalibration;
+}
+
+export interface AutoCalibrationSettings {
+  enabled: boolean;
+  settleMinutes: number;
+  tolerance: number;
+  intervalHours: number;
+  maxOffset: number;
+}
+
+export const DEFAULT_AUTO_CALIBRATION: AutoCalibrationSettings = {
+  enabled: true,
+  settleMinutes: 30,
+  tolerance: 0.25,
+  intervalHours: 24,
+  maxOffset: 3,
+};
+
+export const IDENTITY_CALIBRATION: SensorCalibration = { offset: 0, gain: 1 };
+
+export const CALIBRATION_SOURCE_LABELS: Record<CalibrationSource, string> = {
+  manual: "Вручную",
+  auto: "Авто",
+};
+
+export const MAX_CALIBRATION_RECORDS = 500;
+
+const CALIBRATION_KEY = "heater-tape-calibration";
+
+// Для медианы ленты нужно большинство, которое перевесит один сбитый датчик
+const MIN_SENSORS_FOR_AUTO = 3;
+// Для оценки дрейфа хватает отсчёта раз в 10 с — окно в полчаса не раздувается
+const SETTLE_SAMPLE_MS = 10000;
+
+function round2(v: number) {
+  return Math.round(v * 100) / 100;
+}
+
+export function calibrate(raw: number, calibration: SensorCalibration = IDENTITY_CALIBRATION) {
+  return round2(raw * calibration.gain + calibration.offset);
+}
+
+export function rawValue(sensor: Sensor) {
+  return sensor.raw ?? sensor.temperature;
+}
+
+// Две опорные точки (например, тающий лёд и тёплая ванна) задают наклон и сдвиг
+export function twoPointCalibration(raw1: number, ref1: number, raw2: number, ref2: number): SensorCalibration | null {
+  if (Math.abs(raw2 - raw1) < 1) return null;
+  const gain = (ref2 - ref1) / (raw2 - raw1);
+  if (!Number.isFinite(gain) || gain <= 0) return null;
+  return { offset: round2(ref1 - gain * raw1), gain: Math.round(gain * 10000) / 10000 };
+}
+
+export function withCalibration(sensor: Sensor, calibration: SensorCalibration): Sensor {
+  const raw = rawValue(sensor);
+  return { ...sensor, raw, calibration, temperature: calibrate(raw, calibration) };
+}
+
+// Контроллер о калибровках не знает и отдаёт сырые показания; поправка накладывается только при приёме
+export function withoutCalibrations(tapes: Tape[]): Tape[] {
+  return tapes.map(tape => ({
+    ...tape,
+    segments: tape.segments.map(seg => ({
+      ...seg,
+      sensors: seg.sensors.map(sensor => ({ ...sensor, temperature: rawValue(sensor), raw: undefined, calibration: undefined })),
+    })),
+  }));
+}
+
+// Раскладывает калибровки по датчикам и пересчитывает затронутые сегменты
+export function applyCalibrations(tapes: Tape[], records: Pick<CalibrationRecord, "segmentId" | "sensorId" | "after">[]): Tape[] {
+  if (records.length === 0) return tapes;
+  const bySensor = new Map(records.map(r => [`${r.segmentId}:${r.sensorId}`, r.after]));
+  return tapes.map(tape => {
+    if (!tape.segments.some(seg => seg.sensors.some(s => bySensor.has(`${seg.id}:${s.id}`)))) return tape;
+    const segments = tape.segments.map(seg => {
+      if (!seg.sensors.some(s => bySensor.has(`${seg.id}:${s.id}`))) return seg;
+      const sensors = seg.sensors.map(s => {
+        const calibration = bySensor.get(`${seg.id}:${s.id}`);
+        return calibration ? withCalibration(s, calibration) : s;
+      });
+      return aggregateSegment({ ...seg, sensors });
+    });
+    return { ...tape, segments };
+  });
+}
+
+export function sameCalibration(a: SensorCalibration = IDENTITY_CALIBRATION, b: SensorCalibration = IDENTITY_CALIBRATION) {
+  return a.offset === b.offset && a.gain === b.gain;
+}
+
+export function formatCalibration(calibration: SensorCalibration = IDENTITY_CALIBRATION) {
+  const offset = `${calibration.offset >= 0 ? "+" : ""}${calibration.offset.toFixed(2)}°C`;
+  return calibration.gain === 1 ? offset : `${offset} ×${calibration.gain.toFixed(4)}`;
+}
+
+export type SettleSamples = Record<string, { t: number; v: number }[]>;
+
+function isTapeOff(tape: Tape) {
+  return !tape.enabled || tape.segments.every(s => !s.enabled);
+}
+
+// Копит сырые показания выключенных лент; при включении ленты её окно сбрасывается
+export function trackSettling(prev: SettleSamples, tapes: Tape[], now: number, windowMs: number): SettleSamples {
+  const next: SettleSamples = {};
+  tapes.forEach(tape => {
+    if (!isTapeOff(tape)) return;
+    tape.segments.forEach(seg => seg.sensors.forEach(sensor => {
+      if (sensor.status !== "online") return;
+      const key = `${seg.id}:${sensor.id}`;
+      const kept = (prev[key] ?? []).filter(p => now - p.t <= windowMs);
+      const last = kept[kept.length - 1];
+      next[key] = last && now - last.t < SETTLE_SAMPLE_MS ? kept : [...kept, { t: now, v: rawValue(sensor) }];
+    }));
+  });
+  return next;
+}
+
+function mean(values: number[]) {
+  return values.reduce((a, v) => a + v, 0) / values.length;
+}
+
+// Лента остыла, если у каждого онлайн-датчика есть история на всё окно и среднее
+// первой трети окна отличается от последней не больше допуска — шум отсчётов так усредняется
+export function isTapeSettled(tape: Tape, samples: SettleSamples, now: number, settings: AutoCalibrationSettings) {
+  if (!isTapeOff(tape)) return false;
+  const windowMs = settings.settleMinutes * 60000;
+  const keys = tape.segments.flatMap(seg => seg.sensors.filter(s => s.status === "online").map(s => `${seg.id}:${s.id}`));
+  if (keys.length < MIN_SENSORS_FOR_AUTO) return false;
+  return keys.every(key => {
+    const points = samples[key];
+    if (!points || points.length < 6 || now - points[0].t < windowMs * 0.95) return false;
+    const third = Math.floor(points.length / 3);
+    const head = mean(points.slice(0, third).map(p => p.v));
+    const tail = mean(points.slice(-third).map(p => p.v));
+    return Math.abs(tail - head) <= settings.tolerance;
+  });
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export interface AutoCalibrationResult {
+  tape: Tape;
+  records: Omit<CalibrationRecord, "id">[];
+  skipped: Sensor[];
+}
+
+// Без нагрева все датчики ленты видят одну температуру, так что за эталон берётся медиана;
+// наклон сохраняется, подстраивается только сдвиг. Датчик дальше maxOffset не подгоняется — он неисправен.
+export function autoCalibrateTape(tape: Tape, settings: AutoCalibrationSettings, now: Date): AutoCalibrationResult {
+  const online = tape.segments.flatMap(seg => seg.sensors.filter(s => s.status === "online"));
+  const records: Omit<CalibrationRecord, "id">[] = [];
+  const skipped: Sensor[] = [];
+  if (online.length < MIN_SENSORS_FOR_AUTO) return { tape, records, skipped };
+  const reference = median(online.map(s => rawValue(s) * (s.calibration?.gain ?? 1)));
+  const timestamp = now.toISOString();
+
+  const segments = tape.segments.map(seg => {
+    const sensors = seg.sensors.map(sensor => {
+      if (sensor.status !== "online") return sensor;
+      const before = sensor.calibration ?? IDENTITY_CALIBRATION;
+      const after = { offset: round2(reference - rawValue(sensor) * before.gain), gain: before.gain };
+      if (Math.abs(after.offset) > settings.maxOffset) {
+        skipped.push(sensor);
+        return sensor;
+      }
+      records.push({ timestamp, tapeId: tape.id, segmentId: seg.id, sensorId: sensor.id, serial: sensor.serial, source: "auto", before, after });
+      return withCalibration(sensor, after);
+    });
+    return aggregateSegment({ ...seg, sensors });
+  });
+  return { tape: { ...tape, segments }, records, skipped };
+}
+
+export function lastAutoCalibration(history: CalibrationRecord[], tapeId: number): number | null {
+  const record = history.find(r => r.source === "auto" && r.tapeId === tapeId);
+  return record ? Date.parse(record.timestamp) : null;
+}
+
+export function appendCalibrations(prev: CalibrationRecord[], records: Omit<CalibrationRecord, "id">[]): CalibrationRecord[] {
+  if (records.length === 0) return prev;
+  let nextId = prev.reduce((m, r) => Math.max(m, r.id), 0);
+  const added = records.map(r => ({ ...r, id: ++nextId })).reverse();
+  return [...added, ...prev].slice(0, MAX_CALIBRATION_RECORDS);
+}
+
+function isCalibrationRecord(value: unknown): value is CalibrationRecord {
+  const record = value as CalibrationRecord;
+  return typeof record?.id === "number" && typeof record.sensorId === "string" && typeof record.after?.offset === "number";
+}
+
+export function loadCalibrationHistory(): CalibrationRecord[] {
+  try {
+    const raw = localStorage.getItem(CALIBRATION_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw) as unknown[];
+    return Array.isArray(parsed) ? parsed.filter(isCalibrationRecord).slice(0, MAX_CALIBRATION_RECORDS) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCalibrationHistory(history: CalibrationRecord[]) {
+  try {
+    localStorage.setItem(CALIBRATION_KEY, JSON.stringify(history.slice(0, MAX_CALIBRATION_RECORDS)));
+  } catch { /* ignore */ }
+}
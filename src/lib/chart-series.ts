@@ -0,0 +1,125 @@
+import type { Tape } from "@/lib/types";
+import { meanOf, seriesKey, type HistoryRow } from "@/lib/history";
+
+export type ChartRangeKey = "1h" | "24h" | "7d" | "season" | "custom";
+
+export type HistoryRange = { last: number } | { from: number; to?: number };
+
+export interface SeriesOptions {
+  tapes: boolean;
+  segments: boolean;
+  sensors: boolean;
+  ambient: boolean;
+}
+
+export interface ChartLine {
+  key: string;
+  name: string;
+  color: string;
+  width: number;
+  dashed?: boolean;
+}
+
+export interface ChartSeries {
+  query: string[];
+  lines: ChartLine[];
+  groups: Record<string, string[]>;
+}
+
+export type ChartPoint = Record<string, number | string | undefined>;
+
+const HOUR = 3600000;
+
+export const TAPE_COLORS = ["hsl(25 95% 53%)", "hsl(142 72% 45%)", "hsl(200 80% 50%)", "hsl(280 70% 60%)", "hsl(48 96% 53%)", "hsl(340 80% 60%)"];
+
+export const AMBIENT_COLOR = "hsl(215 15% 55%)";
+
+export const CHART_RANGES: { value: ChartRangeKey; label: string }[] = [
+  { value: "1h", label: "1 ч" },
+  { value: "24h", label: "24 ч" },
+  { value: "7d", label: "7 дн" },
+  { value: "season", label: "Сезон" },
+  { value: "custom", label: "Период" },
+];
+
+// Отопительный сезон считаем с 1 октября
+export function seasonStart(now: Date) {
+  const year = now.getMonth() >= 9 ? now.getFullYear() : now.getFullYear() - 1;
+  return new Date(year, 9, 1).getTime();
+}
+
+export function resolveRange(key: ChartRangeKey, custom: { from: number; to: number }): HistoryRange {
+  switch (key) {
+    case "1h": return { last: HOUR };
+    case "24h": return { last: 24 * HOUR };
+    case "7d": return { last: 7 * 24 * HOUR };
+    case "season": return { from: seasonStart(new Date()) };
+    case "custom": return { from: Math.min(custom.from, custom.to), to: Math.max(custom.from, custom.to) };
+  }
+}
+
+export function rangeBounds(range: HistoryRange, now: number): { from: number; to: number } {
+  if ("last" in range) return { from: now - range.last, to: now };
+  return { from: range.from, to: range.to ?? now };
+}
+
+function segmentColor(tapeIndex: number, segIndex: number, count: number) {
+  const base = [25, 142, 200, 280, 48, 340][tapeIndex % 6];
+  return `hsl(${(base + (segIndex * 40) / Math.max(1, count)) % 360} 75% ${45 + (segIndex % 3) * 8}%)`;
+}
+
+export function buildTemperatureSeries(tapes: Tape[], options: SeriesOptions): ChartSeries {
+  const query = new Set<string>();
+  const lines: ChartLine[] = [];
+  const groups: Record<string, string[]> = {};
+
+  tapes.forEach((tape, ti) => {
+    if (options.tapes) {
+      const key = `tape_${tape.id}`;
+      groups[key] = tape.segments.map(s => seriesKey.segmentTemp(s.id));
+      groups[key].forEach(s => query.add(s));
+      lines.push({ key, name: tape.name, color: TAPE_COLORS[ti % TAPE_COLORS.length], width: 2 });
+    }
+    tape.segments.forEach((seg, si) => {
+      const color = segmentColor(ti, si, tape.segments.length);
+      if (options.segments) {
+        const key = seriesKey.segmentTemp(seg.id);
+        query.add(key);
+        lines.push({ key, name: `${tape.name} • ${seg.name}`, color, width: 1.5 });
+      }
+      if (options.sensors) {
+        seg.sensors.forEach(sensor => {
+          const key = seriesKey.sensor(seg.id, sensor.id);
+          query.add(key);
+          lines.push({ key, name: sensor.id, color, width: 1, dashed: true });
+        });
+      }
+    });
+  });
+
+  if (options.ambient) {
+    query.add(seriesKey.ambient);
+    lines.push({ key: seriesKey.ambient, name: "Окр. среда", color: AMBIENT_COLOR, width: 1, dashed: true });
+  }
+
+  return { query: [...query], lines, groups };
+}
+
+export function formatChartTime(t: number, spanMs: number) {
+  const date = new Date(t);
+  const time = date.toLocaleTimeString("ru-RU", { hour: "2-digit", minute: "2-digit" });
+  if (spanMs <= 24 * HOUR) return time;
+  return `${date.toLocaleDateString("ru-RU", { day: "2-digit", month: "2-digit" })} ${time}`;
+}
+
+// Строки истории → точки графика: серии копируются как есть, группы усредняются
+export function toChartPoints(rows: HistoryRow[], groups: Record<string, string[]>): ChartPoint[] {
+  const spanMs = rows.length > 1 ? rows[rows.length - 1].t - rows[0].t : 0;
+  return rows.map(row => {
+    const point: ChartPoint = { ...row, time: formatChartTime(row.t, spanMs) };
+    Object.entries(groups).forEach(([key, series]) => {
+      point[key] = meanOf(row, series);
+    });
+    return point;
+  });
+}
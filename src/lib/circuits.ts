@@ -0,0 +1,119 @@
+import type { BreakerCurve, Line, Phase, Segment, Tape } from "@/lib/types";
+import { segmentElectrics } from "@/lib/power";
+import { tapeProduct } from "@/lib/cable-catalog";
+
+export const MAINS_VOLTAGE = 230;
+
+export const PHASES: Phase[] = ["L1", "L2", "L3"];
+
+export const BREAKER_CURVES: BreakerCurve[] = ["B", "C", "D"];
+
+export const BREAKER_RATINGS = [6, 10, 13, 16, 20, 25, 32, 40];
+
+export const RCD_RATINGS_MA = [10, 30, 100, 300];
+
+export const CROSS_SECTIONS = [1.5, 2.5, 4, 6, 10];
+
+export const DEFAULT_RUN_LENGTH = 15;
+
+export interface LineLoad {
+  id: number;
+  name: string;
+  phase: Phase;
+  loadKw: number;
+  currentA: number;
+  capacityKw: number;
+  // Загрузка автомата, %
+  percent: number;
+  segments: number;
+}
+
+export function createLine(lines: Line[], patch: Partial<Line> = {}): Line {
+  const id = lines.reduce((m, l) => Math.max(m, l.id), 0) + 1;
+  return {
+    id,
+    name: `Линия ${id}`,
+    phase: PHASES[(id - 1) % PHASES.length],
+    breakerA: 16,
+    breakerCurve: "C",
+    rcdMa: 30,
+    rcdA: 25,
+    crossSection: 2.5,
+    runLength: DEFAULT_RUN_LENGTH,
+    ...patch,
+  };
+}
+
+// По линии на ленту, фазы по кругу — так собраны щиты на существующих объектах
+export function createDefaultLines(tapes: Tape[]): Line[] {
+  return tapes.reduce<Line[]>((lines, _, i) => [...lines, createLine(lines, { id: i + 1 })], []);
+}
+
+export function withDefaultLines(tapes: Tape[]): Tape[] {
+  return tapes.map((t, i) => t.lineId !== undefined ? t : { ...t, lineId: i + 1 });
+}
+
+export function segmentLineId(tape: Tape, seg: Segment): number | null {
+  return seg.lineId ?? tape.lineId ?? null;
+}
+
+// Линия питает кабель на его номинальном напряжении; пустая линия считается на сетевых 230 В
+export function lineVoltage(tapes: Tape[], line: Line): number {
+  const tape = tapes.find(t => t.segments.some(s => segmentLineId(t, s) === line.id));
+  return tape ? tapeProduct(tape).voltage : MAINS_VOLTAGE;
+}
+
+// Нагрузка линий по текущим мощностям сегментов; сегменты без линии собираются в id 0
+export function computeLineLoads(tapes: Tape[], lines: Line[], systemOn = true): LineLoad[] {
+  const watts = new Map<number, number>();
+  const amps = new Map<number, number>();
+  const counts = new Map<number, number>();
+  tapes.forEach(tape => tape.segments.forEach(seg => {
+    const id = segmentLineId(tape, seg);
+    const key = id !== null && lines.some(l => l.id === id) ? id : 0;
+    const e = segmentElectrics(tape, seg, systemOn);
+    watts.set(key, (watts.get(key) ?? 0) + e.watts);
+    amps.set(key, (amps.get(key) ?? 0) + e.currentA);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }));
+
+  const loads = lines.map(line => {
+    const w = watts.get(line.id) ?? 0;
+    const capacityKw = (line.breakerA * lineVoltage(tapes, line)) / 1000;
+    return {
+      id: line.id,
+      name: line.name,
+      phase: line.phase,
+      loadKw: w / 1000,
+      currentA: amps.get(line.id) ?? 0,
+      capacityKw,
+      percent: capacityKw > 0 ? (w / 1000 / capacityKw) * 100 : 0,
+      segments: counts.get(line.id) ?? 0,
+    };
+  });
+  const orphan = counts.get(0);
+  if (!orphan) return loads;
+  return [...loads, { id: 0, name: "Без линии", phase: "L1" as const, loadKw: (watts.get(0) ?? 0) / 1000, currentA: amps.get(0) ?? 0, capacityKw: 0, percent: 0, segments: orphan }];
+}
+
+export function phaseLoads(loads: LineLoad[]): Record<Phase, number> {
+  const result: Record<Phase, number> = { L1: 0, L2: 0, L3: 0 };
+  loads.forEach(l => {
+    if (l.id !== 0) result[l.phase] += l.currentA;
+  });
+  return result;
+}
+
+export function formatBreaker(line: Line) {
+  return `${line.breakerA}A, тип ${line.breakerCurve}`;
+}
+
+export function formatRcd(line: Line) {
+  return `${line.rcdMa}мА, ${line.rcdA}A`;
+}
+
+export function loadColor(percent: number) {
+  if (percent > 100) return "text-red-400";
+  if (percent >= 80) return "text-amber-400";
+  return "text-emerald-400";
+}
@@ -0,0 +1,95 @@
+import type { Sensor, Tape } from "@/lib/types";
+import { aggregateSegment } from "@/lib/aggregation";
+import { withCalibration } from "@/lib/calibration";
+import { ingestReading } from "@/lib/ds18b20";
+
+export interface SensorReading {
+  segmentId: number;
+  sensorId: string;
+  serial: string;
+  temperature: number;
+  status: Sensor["status"];
+  crcOk?: boolean;
+}
+
+export interface ControllerStatus {
+  model: string;
+  firmware: string;
+  link: string;
+  uptime: number;
+  online: boolean;
+}
+
+export interface SegmentCommand {
+  tapeId: number;
+  segmentId: number;
+  enabled?: boolean;
+  power?: number;
+  targetTemp?: number;
+}
+
+export interface ControllerAdapter {
+  readTapes(): Promise<Tape[]>;
+  readSensors(): Promise<SensorReading[]>;
+  setSegmentPower(segmentId: number, power: number): Promise<void>;
+  setSegmentEnabled(segmentId: number, enabled: boolean): Promise<void>;
+  getStatus(): Promise<ControllerStatus>;
+  // ROM-коды всех устройств, ответивших на поиск по шине 1-Wire
+  scanBus(): Promise<string[]>;
+  // Закрепляет ROM-код за местом датчика в сегменте; прежнее место этого ROM-кода освобождается
+  bindSensor(segmentId: number, sensorId: string, serial: string): Promise<void>;
+}
+
+export class ControllerError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = "ControllerError";
+  }
+}
+
+export function formatUptime(seconds: number) {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `${days}д ${hours}ч ${minutes}м`;
+}
+
+// Накладывает показания контроллера на ленты через валидацию DS18B20; температура сегмента — среднее онлайн-датчиков.
+// Серийный номер места задаёт оператор: показание с другим ROM-кодом (контроллер ещё не принял замену) отбрасывается
+export function applySensorReadings(tapes: Tape[], readings: SensorReading[]): Tape[] {
+  const bySensor = new Map(readings.map(r => [`${r.segmentId}:${r.sensorId}`, r]));
+  const now = new Date();
+  return tapes.map(tape => ({
+    ...tape,
+    segments: tape.segments.map(seg => {
+      const sensors = seg.sensors.map(sensor => {
+        const reading = bySensor.get(`${seg.id}:${sensor.id}`);
+        if (!reading || (reading.serial && reading.serial !== sensor.serial)) return sensor;
+        return ingestReading(sensor, reading, now);
+      });
+      return aggregateSegment({ ...seg, sensors });
+    }),
+  }));
+}
+
+// Топология сегментов и датчиков — с контроллера, паспорт ленты (название, адрес, договор) — локальный
+export function mergeControllerTapes(local: Tape[], remote: Tape[]): Tape[] {
+  return remote.map(r => {
+    const l = local.find(t => t.id === r.id);
+    if (!l) return r;
+    const segments = r.segments.map(seg => {
+      // Защёлка аварии, обслуживание, история срабатываний, способ агрегации, адреса Modbus, калибровки, история и положение датчиков — локальные данные, контроллер о них не знает
+      const local = l.segments.find(s => s.id === seg.id);
+      if (!local) return seg;
+      const sensors = seg.sensors.map(sensor => {
+        const known = local.sensors.find(s => s.id === sensor.id);
+        let merged = known?.history ? { ...sensor, history: known.history } : sensor;
+        if (known?.position !== undefined) merged = { ...merged, position: known.position };
+        if (known?.modbusRegister !== undefined) merged = { ...merged, modbusRegister: known.modbusRegister };
+        return known?.calibration ? withCalibration(merged, known.calibration) : merged;
+      });
+      return aggregateSegment({ ...seg, sensors, fault: local.fault, maintenance: local.maintenance, trips: local.trips, aggregation: local.aggregation, lineId: local.lineId, length: seg.length ?? local.length, modbusAddress: local.modbusAddress });
+    });
+    return { ...r, segments, name: l.name, coordinates: l.coordinates, contractNumber: l.contractNumber, length: l.length, width: l.width, controlMode: l.controlMode, snowIce: l.snowIce, lineId: l.lineId, productId: l.productId };
+  });
+}
@@ -0,0 +1,72 @@
+import type { Tape } from "@/lib/types";
+import type { ControllerAdapter } from "@/lib/controller/adapter";
+import { createHttpAdapter } from "@/lib/controller/http-adapter";
+import { createMockControllerServer } from "@/lib/controller/mock-server";
+import { createModbusAdapter } from "@/lib/controller/modbus-adapter";
+import { createModbusClient, createWebSocketTransport } from "@/lib/modbus/client";
+import { createRegisterMap } from "@/lib/modbus/register-map";
+import { createModbusSimulator } from "@/lib/modbus/simulator";
+import type { ModbusMode } from "@/lib/modbus/protocol";
+import type { SimulationSettings } from "@/lib/thermal-simulator";
+
+export type ControllerProtocol = "http" | "modbus";
+
+export interface ControllerConfig {
+  protocol: ControllerProtocol;
+  url: string;
+  modbusMode: ModbusMode;
+  slaveId: number;
+  timeoutMs: number;
+  retries: number;
+}
+
+export const DEFAULT_CONTROLLER: ControllerConfig = {
+  protocol: "http",
+  url: "",
+  modbusMode: "rtu",
+  slaveId: 1,
+  timeoutMs: 1000,
+  retries: 2,
+};
+
+export interface ControllerConnection {
+  adapter: ControllerAdapter;
+  simulated: boolean;
+  // Локальная топология изменилась: для Modbus карта регистров строится заново, HTTP-контроллер ведёт её сам
+  updateTopology(tapes: Tape[]): void;
+  close(): void;
+}
+
+// Пустой адрес — офлайн-режим: мок-сервер HTTP или симулятор ведомого Modbus
+export function createControllerConnection(config: ControllerConfig, tapes: Tape[], simulation: SimulationSettings): ControllerConnection {
+  const url = config.url.trim();
+
+  if (config.protocol === "http") {
+    const adapter = url
+      ? createHttpAdapter(url)
+      : createHttpAdapter("http://mock.local", createMockControllerServer(tapes, simulation));
+    return { adapter, simulated: !url, updateTopology: () => {}, close: () => {} };
+  }
+
+  const map = createRegisterMap(tapes);
+  const simulator = url ? null : createModbusSimulator({ mode: config.modbusMode, unitId: config.slaveId, tapes, map, simulation });
+  const transport = simulator ?? createWebSocketTransport(url, config.modbusMode);
+  const client = createModbusClient(transport, {
+    mode: config.modbusMode,
+    unitId: config.slaveId,
+    timeoutMs: config.timeoutMs,
+    retries: config.retries,
+  });
+  const link = config.modbusMode === "rtu" ? `RS-485 / Modbus RTU #${config.slaveId}` : `Modbus TCP #${config.slaveId}`;
+  const adapter = createModbusAdapter(client, map, tapes, link);
+  return {
+    adapter,
+    simulated: !url,
+    updateTopology: next => {
+      const nextMap = createRegisterMap(next);
+      simulator?.setTopology(next, nextMap);
+      adapter.setTopology(next, nextMap);
+    },
+    close: () => client.close(),
+  };
+}
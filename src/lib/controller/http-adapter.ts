@@ -0,0 +1,49 @@
+import type { Tape } from "@/lib/types";
+import {
+  ControllerError,
+  type ControllerAdapter,
+  type ControllerStatus,
+  type SensorReading,
+} from "@/lib/controller/adapter";
+
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+// HTTP/JSON API прошивки: GET /api/v1/{status,tapes,sensors,onewire/scan}, PUT /api/v1/segments/:id/{power,enabled},
+// PUT /api/v1/segments/:id/sensors/:sensorId
+export function createHttpAdapter(baseUrl: string, fetchImpl: FetchLike = (input, init) => fetch(input, init)): ControllerAdapter {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+      const res = await fetchImpl(`${root}/api/v1${path}`, {
+        ...init,
+        headers: { "Content-Type": "application/json", ...init?.headers },
+        signal: controller.signal,
+      });
+      if (!res.ok) throw new ControllerError(`Контроллер ответил ${res.status} на ${path}`, res.status);
+      return res.status === 204 ? (undefined as T) : ((await res.json()) as T);
+    } catch (e) {
+      if (e instanceof ControllerError) throw e;
+      throw new ControllerError(`Нет связи с контроллером (${path}): ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  return {
+    readTapes: () => request<{ tapes: Tape[] }>("/tapes").then(r => r.tapes),
+    readSensors: () => request<{ sensors: SensorReading[] }>("/sensors").then(r => r.sensors),
+    setSegmentPower: (segmentId, power) =>
+      request<void>(`/segments/${segmentId}/power`, { method: "PUT", body: JSON.stringify({ power }) }),
+    setSegmentEnabled: (segmentId, enabled) =>
+      request<void>(`/segments/${segmentId}/enabled`, { method: "PUT", body: JSON.stringify({ enabled }) }),
+    getStatus: () => request<ControllerStatus>("/status"),
+    scanBus: () => request<{ roms: string[] }>("/onewire/scan").then(r => r.roms),
+    bindSensor: (segmentId, sensorId, serial) =>
+      request<void>(`/segments/${segmentId}/sensors/${encodeURIComponent(sensorId)}`, { method: "PUT", body: JSON.stringify({ serial }) }),
+  };
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import type { Tape } from "@/lib/types";
+import { applySensorReadings } from "@/lib/controller/adapter";
+import { createHttpAdapter } from "@/lib/controller/http-adapter";
+import { createMockControllerServer } from "@/lib/controller/mock-server";
+import { calibrate, withCalibration } from "@/lib/calibration";
+import { DEFAULT_SIMULATION } from "@/lib/thermal-simulator";
+
+const calibration = { offset: 10, gain: 1 };
+
+const tapes: Tape[] = [{
+  id: 1,
+  name: "Кровля",
+  coordinates: "",
+  contractNumber: "",
+  length: "20",
+  width: "",
+  enabled: true,
+  segments: [{
+    id: 1,
+    name: "Сегмент 1",
+    enabled: false,
+    power: 0,
+    temperature: 3,
+    targetTemp: 5,
+    sensorId: "T1",
+    sensors: [withCalibration({ id: "T1", serial: "28-01", temperature: 3, status: "online", lastUpdate: "2026-01-01T00:00:00.000Z" }, calibration)],
+  }],
+}];
+
+describe("мок-сервер контроллера", () => {
+  it("отдаёт сырые показания — калибровка накладывается один раз, при приёме", async () => {
+    const adapter = createHttpAdapter("http://mock.local", createMockControllerServer(tapes, DEFAULT_SIMULATION));
+    const [reading] = await adapter.readSensors();
+    expect(Math.abs(reading.temperature - 3)).toBeLessThan(2);
+
+    const [sensor] = applySensorReadings(tapes, [reading])[0].segments[0].sensors;
+    expect(sensor.raw).toBe(reading.temperature);
+    expect(sensor.temperature).toBe(calibrate(reading.temperature, calibration));
+  });
+});
@@ -0,0 +1,116 @@
+import type { Tape } from "@/lib/types";
+import type { ControllerStatus, SensorReading } from "@/lib/controller/adapter";
+import type { FetchLike } from "@/lib/controller/http-adapter";
+import { createThermalSimulator, type SimulationSettings } from "@/lib/thermal-simulator";
+import { createSpareRoms, simulateBusScan } from "@/lib/onewire";
+import { withoutCalibrations } from "@/lib/calibration";
+
+const SEGMENT_ROUTE = /^\/api\/v1\/segments\/(\d+)\/(power|enabled)$/;
+const SENSOR_ROUTE = /^\/api\/v1\/segments\/(\d+)\/sensors\/([^/]+)$/;
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+// Локальный мок-сервер контроллера: отвечает по HTTP/JSON-протоколу прошивки,
+// а физику берёт из теплового симулятора. Подставляется вместо fetch в createHttpAdapter.
+export function createMockControllerServer(initialTapes: Tape[], settings: SimulationSettings): FetchLike {
+  const simulator = createThermalSimulator(settings);
+  const startedAt = Date.now();
+  let lastStep = startedAt;
+  let tapes = withoutCalibrations(initialTapes);
+  const spares = createSpareRoms();
+
+  const advance = () => {
+    const now = Date.now();
+    const dtSec = (now - lastStep) / 1000;
+    if (dtSec > 0) tapes = simulator.step(tapes, dtSec * settings.timeScale, true);
+    lastStep = now;
+  };
+
+  const updateSegment = (segmentId: number, patch: { power?: number; enabled?: boolean }) => {
+    let found = false;
+    tapes = tapes.map(t => ({
+      ...t,
+      segments: t.segments.map(s => {
+        if (s.id !== segmentId) return s;
+        found = true;
+        return { ...s, ...patch };
+      }),
+    }));
+    return found;
+  };
+
+  // ROM-код снимается с прежнего места и ставится на новое; датчик на месте сохраняет показания до следующего шага
+  const bindSensor = (segmentId: number, sensorId: string, serial: string) => {
+    if (!tapes.some(t => t.segments.some(s => s.id === segmentId))) return false;
+    const moved = tapes.flatMap(t => t.segments).flatMap(s => s.sensors).find(s => s.serial === serial);
+    tapes = tapes.map(t => ({
+      ...t,
+      segments: t.segments.map(s => {
+        const sensors = s.sensors.filter(x => x.serial !== serial || (s.id === segmentId && x.id === sensorId));
+        if (s.id !== segmentId) return sensors.length === s.sensors.length ? s : { ...s, sensors };
+        const existing = sensors.find(x => x.id === sensorId);
+        const base = existing ?? moved ?? { id: sensorId, serial, temperature: s.temperature, status: "online" as const, lastUpdate: "" };
+        const sensor = { ...base, id: sensorId, serial };
+        return { ...s, sensors: existing ? sensors.map(x => (x.id === sensorId ? sensor : x)) : [...sensors, sensor] };
+      }),
+    }));
+    return true;
+  };
+
+  return async (input, init) => {
+    const path = new URL(input, "http://mock.local").pathname;
+    const method = init?.method ?? "GET";
+    advance();
+
+    if (method === "GET" && path === "/api/v1/status") {
+      const status: ControllerStatus = {
+        model: "ESP32-S3 (мок)",
+        firmware: "v2.1.4",
+        link: "WiFi",
+        uptime: Math.floor((Date.now() - startedAt) / 1000),
+        online: true,
+      };
+      return json(status);
+    }
+    if (method === "GET" && path === "/api/v1/tapes") {
+      return json({ tapes });
+    }
+    if (method === "GET" && path === "/api/v1/sensors") {
+      const sensors: SensorReading[] = tapes.flatMap(t => t.segments.flatMap(seg => seg.sensors.map(s => ({
+        segmentId: seg.id,
+        sensorId: s.id,
+        serial: s.serial,
+        temperature: s.temperature,
+        status: s.status,
+      }))));
+      return json({ sensors });
+    }
+    if (method === "GET" && path === "/api/v1/onewire/scan") {
+      return json({ roms: simulateBusScan(tapes, spares) });
+    }
+
+    const sensorMatch = path.match(SENSOR_ROUTE);
+    if (method === "PUT" && sensorMatch) {
+      const body = JSON.parse(String(init?.body ?? "{}")) as { serial?: string };
+      if (!body.serial) return json({ error: "serial required" }, 400);
+      return bindSensor(Number(sensorMatch[1]), decodeURIComponent(sensorMatch[2]), body.serial)
+        ? new Response(null, { status: 204 })
+        : json({ error: "segment not found" }, 404);
+    }
+
+    const match = path.match(SEGMENT_ROUTE);
+    if (method === "PUT" && match) {
+      const body = JSON.parse(String(init?.body ?? "{}")) as { power?: number; enabled?: boolean };
+      const patch = match[2] === "power"
+        ? { power: Math.min(100, Math.max(0, Math.round(Number(body.power) || 0))) }
+        : { enabled: Boolean(body.enabled) };
+      return updateSegment(Number(match[1]), patch)
+        ? new Response(null, { status: 204 })
+        : json({ error: "segment not found" }, 404);
+    }
+
+    return json({ error: "not found" }, 404);
+  };
+}
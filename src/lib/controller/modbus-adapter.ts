@@ -0,0 +1,101 @@
+import type { Tape } from "@/lib/types";
+import { ControllerError, type ControllerAdapter, type SensorReading } from "@/lib/controller/adapter";
+import { MAX_REGISTERS_PER_READ, type ModbusClient } from "@/lib/modbus/client";
+import {
+  STATUS_REGISTER_COUNT,
+  addressBlocks,
+  decodeTemperature,
+  sensorKey,
+  type ModbusRegisterMap,
+} from "@/lib/modbus/register-map";
+
+async function readBlocks(
+  addresses: number[],
+  read: (start: number, count: number) => Promise<(number | boolean)[]>,
+): Promise<Map<number, number | boolean>> {
+  const values = new Map<number, number | boolean>();
+  for (const block of addressBlocks(addresses, MAX_REGISTERS_PER_READ)) {
+    const data = await read(block.start, block.count);
+    data.forEach((v, i) => values.set(block.start + i, v));
+  }
+  return values;
+}
+
+export interface ModbusControllerAdapter extends ControllerAdapter {
+  // Новая локальная топология: добавленные и удалённые сегменты и датчики, переносы и замены
+  setTopology(tapes: Tape[], map: ModbusRegisterMap): void;
+}
+
+// Modbus не передаёт топологию — ленты и серийные номера берутся из локальной конфигурации
+export function createModbusAdapter(client: ModbusClient, initialMap: ModbusRegisterMap, initialTapes: Tape[], link: string): ModbusControllerAdapter {
+  let map = initialMap;
+  let tapes = initialTapes;
+  const segmentEntriesOf = (m: ModbusRegisterMap) => Object.entries(m.segments).map(([id, r]) => ({ id: Number(id), ...r }));
+  const serialsOf = (list: Tape[]) => new Map(list.flatMap(t => t.segments.flatMap(seg => seg.sensors.map(s => [sensorKey(seg.id, s.id), s.serial] as const))));
+  let segmentEntries = segmentEntriesOf(map);
+  let serials = serialsOf(tapes);
+
+  return {
+    async readTapes() {
+      const coils = await readBlocks(segmentEntries.map(s => s.coil), (a, n) => client.readCoils(a, n));
+      const powers = await readBlocks(segmentEntries.map(s => s.powerRegister), (a, n) => client.readHoldingRegisters(a, n));
+      return tapes.map(tape => ({
+        ...tape,
+        segments: tape.segments.map(seg => {
+          const regs = map.segments[seg.id];
+          if (!regs) return seg;
+          return {
+            ...seg,
+            enabled: Boolean(coils.get(regs.coil)),
+            power: Number(powers.get(regs.powerRegister) ?? seg.power),
+          };
+        }),
+      }));
+    },
+    async readSensors() {
+      const entries = Object.entries(map.sensors);
+      const raw = await readBlocks(entries.map(([, r]) => r.inputRegister), (a, n) => client.readInputRegisters(a, n));
+      return entries.map(([key, r]): SensorReading => {
+        const temperature = decodeTemperature(Number(raw.get(r.inputRegister)));
+        return {
+          segmentId: r.segmentId,
+          sensorId: key.slice(key.indexOf(":") + 1),
+          serial: serials.get(key) ?? "",
+          temperature: temperature ?? 0,
+          status: temperature === null ? "offline" : "online",
+        };
+      });
+    },
+    async setSegmentPower(segmentId, power) {
+      const regs = map.segments[segmentId];
+      if (regs) await client.writeRegister(regs.powerRegister, Math.min(100, Math.max(0, Math.round(power))));
+    },
+    async setSegmentEnabled(segmentId, enabled) {
+      const regs = map.segments[segmentId];
+      if (regs) await client.writeCoil(regs.coil, enabled);
+    },
+    async getStatus() {
+      const [uptimeHi, uptimeLo, major, minor, patch] = await client.readHoldingRegisters(map.statusRegister, STATUS_REGISTER_COUNT);
+      return {
+        model: "ESP32-S3",
+        firmware: `v${major}.${minor}.${patch}`,
+        link,
+        uptime: uptimeHi * 65536 + uptimeLo,
+        online: true,
+      };
+    },
+    async scanBus() {
+      throw new ControllerError("Карта регистров Modbus не передаёт ROM-коды — сканирование шины доступно по HTTP");
+    },
+    // Датчики адресуются по карте регистров, а не по ROM-коду — достаточно запомнить серийный номер места
+    async bindSensor(segmentId, sensorId, serial) {
+      serials.set(sensorKey(segmentId, sensorId), serial);
+    },
+    setTopology(nextTapes, nextMap) {
+      tapes = nextTapes;
+      map = nextMap;
+      segmentEntries = segmentEntriesOf(map);
+      serials = serialsOf(tapes);
+    },
+  };
+}
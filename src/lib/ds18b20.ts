@@ -0,0 +1,96 @@
+import type { ReadingVerdict, Sensor, Tape } from "@/lib/types";
+import { aggregateSegment } from "@/lib/aggregation";
+import { calibrate } from "@/lib/calibration";
+
+// Значение после сброса по питанию: датчик не успел выполнить преобразование
+export const POWER_ON_RESET_TEMP = 85;
+// Так драйверы 1-Wire сообщают, что датчик не ответил на шине
+export const DISCONNECTED_TEMP = -127;
+export const DS18B20_MIN = -55;
+export const DS18B20_MAX = 125;
+
+export const STALE_POLL_FACTOR = 3;
+
+// Вес нового чтения в скользящей оценке качества — примерно последние 50 опросов
+const QUALITY_ALPHA = 0.02;
+
+export interface RawSensorReading {
+  temperature: number;
+  status: Sensor["status"];
+  crcOk?: boolean;
+}
+
+export const VERDICT_LABELS: Record<ReadingVerdict, string> = {
+  ok: "Норма",
+  crc: "Ошибка CRC",
+  "power-on-reset": "85°C — сброс по питанию",
+  disconnected: "−127°C — нет ответа",
+  "out-of-range": "Вне диапазона −55…+125°C",
+  offline: "Нет связи",
+};
+
+export function classifyReading(reading: RawSensorReading): ReadingVerdict {
+  if (reading.status !== "online") return "offline";
+  if (reading.crcOk === false) return "crc";
+  if (reading.temperature === POWER_ON_RESET_TEMP) return "power-on-reset";
+  if (reading.temperature === DISCONNECTED_TEMP) return "disconnected";
+  if (reading.temperature < DS18B20_MIN || reading.temperature > DS18B20_MAX) return "out-of-range";
+  return "ok";
+}
+
+// Отбракованное чтение (в том числе −127) не затирает последнее достоверное значение:
+// датчик остаётся в прежнем статусе, а затянувшийся сбой выявляет проверка на устаревание.
+export function ingestReading(sensor: Sensor, reading: RawSensorReading, now: Date): Sensor {
+  const verdict = classifyReading(reading);
+  const quality = (sensor.quality ?? 1) * (1 - QUALITY_ALPHA) + (verdict === "ok" ? QUALITY_ALPHA : 0);
+  const base = { ...sensor, quality, lastVerdict: verdict };
+  switch (verdict) {
+    case "ok":
+      return { ...base, raw: reading.temperature, temperature: calibrate(reading.temperature, sensor.calibration), status: "online", lastUpdate: now.toISOString() };
+    case "crc":
+      return { ...base, crcErrors: (sensor.crcErrors ?? 0) + 1 };
+    case "power-on-reset":
+    case "disconnected":
+    case "out-of-range":
+      return { ...base, rejected: (sensor.rejected ?? 0) + 1 };
+    case "offline":
+      return { ...base, status: reading.status };
+  }
+}
+
+export function isStale(sensor: Sensor, now: number, pollMs: number) {
+  const updated = Date.parse(sensor.lastUpdate);
+  return isNaN(updated) || now - updated > STALE_POLL_FACTOR * pollMs;
+}
+
+// Онлайн-датчики без свежих достоверных чтений помечаются устаревшими и выпадают из среднего
+export function markStaleSensors(tapes: Tape[], now: number, pollMs: number): Tape[] {
+  let changed = false;
+  const next = tapes.map(tape => {
+    let tapeChanged = false;
+    const segments = tape.segments.map(seg => {
+      if (!seg.sensors.some(s => s.status === "online" && isStale(s, now, pollMs))) return seg;
+      tapeChanged = true;
+      const sensors = seg.sensors.map(s => s.status === "online" && isStale(s, now, pollMs) ? { ...s, status: "stale" as const } : s);
+      return aggregateSegment({ ...seg, sensors });
+    });
+    if (!tapeChanged) return tape;
+    changed = true;
+    return { ...tape, segments };
+  });
+  return changed ? next : tapes;
+}
+
+// Оценка 0–100: скользящая доля достоверных чтений, урезанная для устаревших и потерянных датчиков
+export function sensorHealth(sensor: Sensor): number {
+  const score = Math.round((sensor.quality ?? 1) * 100);
+  if (sensor.status === "offline" || sensor.status === "error") return Math.min(score, 10);
+  if (sensor.status === "stale") return Math.min(score, 40);
+  return score;
+}
+
+export function healthColor(score: number) {
+  if (score >= 90) return "text-emerald-400";
+  if (score >= 60) return "text-amber-400";
+  return "text-red-400";
+}
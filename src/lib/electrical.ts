@@ -0,0 +1,184 @@
+import type { AuxSensor, BreakerCurve, CableKind, Line, Tape } from "@/lib/types";
+import { DEFAULT_RUN_LENGTH, MAINS_VOLTAGE, lineVoltage, segmentLineId } from "@/lib/circuits";
+import { productLabel, tapeProduct } from "@/lib/cable-catalog";
+import { segmentElectrics, segmentLength } from "@/lib/power";
+
+// Саморегулирующийся кабель на морозе (−20°C) первые минуты берёт ~3× номинала;
+// у резистивного и зонального сопротивление от температуры почти не зависит
+export const COLD_START_FACTOR: Record<CableKind, number> = { "self-regulating": 3, constant: 1, zonal: 1 };
+// Допустимое падение напряжения в конечной цепи, %
+export const MAX_VOLTAGE_DROP_PCT = 5;
+// Оценка тока утечки исправной изоляции: 30 мА УЗО — на ~100 м кабеля
+export const LEAKAGE_PER_METER_MA = 0.1;
+// Суммарная утечка не должна превышать трети уставки УЗО, иначе ложные срабатывания
+export const RCD_BUDGET_SHARE = 1 / 3;
+
+const COPPER_RESISTIVITY = 0.0175;
+
+// Насколько пусковой ток может превышать номинал автомата, не вызывая срабатывания за время разогрева
+const CURVE_START_ALLOWANCE: Record<BreakerCurve, number> = { B: 1, C: 1.25, D: 1.5 };
+
+// Наибольший автомат, защищающий медный кабель данного сечения
+const CABLE_MAX_BREAKER: Record<number, number> = { 1.5: 16, 2.5: 25, 4: 32, 6: 40, 10: 63 };
+
+export type ElectricalRule =
+  | "no-line"
+  | "breaker-rated"
+  | "breaker-continuous"
+  | "breaker-cold-start"
+  | "cable-protection"
+  | "rcd-rating"
+  | "voltage-drop"
+  | "rcd-leakage"
+  | "circuit-length";
+
+export interface ElectricalFinding {
+  key: string;
+  rule: ElectricalRule;
+  severity: "error" | "warning";
+  lineId: number;
+  tapeIds: number[];
+  message: string;
+}
+
+export interface CircuitDesign {
+  lineId: number;
+  heaterLength: number;
+  ratedA: number;
+  coldStartA: number;
+  voltageDropPct: number;
+  leakageMa: number;
+  measuredLeakageMa: number | null;
+  leakageBudgetMa: number;
+}
+
+export interface ElectricalAnalysis {
+  circuits: CircuitDesign[];
+  findings: ElectricalFinding[];
+}
+
+function round(v: number, digits = 1) {
+  const k = 10 ** digits;
+  return Math.round(v * k) / k;
+}
+
+export function voltageDropPct(line: Line, currentA: number, voltage = MAINS_VOLTAGE) {
+  const length = line.runLength ?? DEFAULT_RUN_LENGTH;
+  if (line.crossSection <= 0) return Infinity;
+  // Однофазная цепь: ток идёт по фазе и обратно по нулю
+  return ((2 * currentA * COPPER_RESISTIVITY * length) / line.crossSection / voltage) * 100;
+}
+
+// Измеренная утечка: датчики УЗО на лентах линии, при их отсутствии — ничего
+function measuredLeakage(aux: AuxSensor[], tapeIds: number[]): number | null {
+  const values = aux
+    .filter(s => s.kind === "leakage" && s.status === "online" && s.value !== null
+      && s.attachment.scope === "tape" && tapeIds.includes(s.attachment.tapeId))
+    .map(s => s.value ?? 0);
+  return values.length > 0 ? values.reduce((a, v) => a + v, 0) : null;
+}
+
+// Проверка проекта по полной мощности кабеля, а не по текущим уставкам сегментов
+export function analyzeCircuits(tapes: Tape[], lines: Line[], aux: AuxSensor[] = []): ElectricalAnalysis {
+  const findings: ElectricalFinding[] = [];
+  const add = (lineId: number, tapeIds: number[], rule: ElectricalRule, severity: ElectricalFinding["severity"], message: string) =>
+    findings.push({ key: `${rule}:${lineId}`, rule, severity, lineId, tapeIds, message });
+
+  const orphanTapes = tapes.filter(t => t.segments.some(s => {
+    const id = segmentLineId(t, s);
+    return id === null || !lines.some(l => l.id === id);
+  }));
+  orphanTapes.forEach(t => findings.push({
+    key: `no-line:${t.id}`,
+    rule: "no-line",
+    severity: "warning",
+    lineId: 0,
+    tapeIds: [t.id],
+    message: `${t.name}: есть сегменты без линии питания — их нагрузка не проверяется`,
+  }));
+
+  const circuits = lines.map(line => {
+    const tapeIds: number[] = [];
+    let heaterLength = 0;
+    let ratedA = 0;
+    let coldStartA = 0;
+    // Длина каждой марки кабеля на линии — для проверки предельной длины цепи
+    const productLengths: Record<string, number> = {};
+    tapes.forEach(tape => tape.segments.forEach(seg => {
+      if (segmentLineId(tape, seg) !== line.id) return;
+      const product = tapeProduct(tape);
+      const length = segmentLength(tape, seg);
+      const segA = segmentElectrics(tape, seg).ratedCurrentA;
+      heaterLength += length;
+      ratedA += segA;
+      coldStartA += segA * COLD_START_FACTOR[product.kind];
+      productLengths[product.id] = (productLengths[product.id] ?? 0) + length;
+      if (!tapeIds.includes(tape.id)) tapeIds.push(tape.id);
+    }));
+    const drop = voltageDropPct(line, ratedA, lineVoltage(tapes, line));
+    const leakageMa = heaterLength * LEAKAGE_PER_METER_MA;
+    const measuredLeakageMa = measuredLeakage(aux, tapeIds);
+    const leakageBudgetMa = line.rcdMa * RCD_BUDGET_SHARE;
+    const label = `${line.name} (${line.phase})`;
+
+    if (ratedA > line.breakerA) {
+      add(line.id, tapeIds, "breaker-rated", "error", `${label}: номинальный ток ${round(ratedA)} A больше автомата ${line.breakerA} A`);
+    } else if (ratedA > line.breakerA * 0.8) {
+      add(line.id, tapeIds, "breaker-continuous", "warning", `${label}: длительная нагрузка ${round(ratedA)} A — больше 80% автомата ${line.breakerA} A`);
+    }
+    const startLimit = line.breakerA * CURVE_START_ALLOWANCE[line.breakerCurve];
+    if (coldStartA > startLimit && ratedA <= line.breakerA) {
+      add(line.id, tapeIds, "breaker-cold-start", "warning",
+        `${label}: пусковой ток на морозе ~${round(coldStartA)} A — автомат ${line.breakerA} A тип ${line.breakerCurve} может сработать при холодном старте`);
+    }
+    const cableMax = CABLE_MAX_BREAKER[line.crossSection];
+    if (cableMax !== undefined && line.breakerA > cableMax) {
+      add(line.id, tapeIds, "cable-protection", "error", `${label}: кабель ${line.crossSection} мм² не защищён автоматом ${line.breakerA} A (не более ${cableMax} A)`);
+    }
+    if (line.rcdA < line.breakerA) {
+      add(line.id, tapeIds, "rcd-rating", "warning", `${label}: номинал УЗО ${line.rcdA} A меньше автомата ${line.breakerA} A`);
+    }
+    if (drop > MAX_VOLTAGE_DROP_PCT) {
+      add(line.id, tapeIds, "voltage-drop", "warning",
+        `${label}: падение напряжения ${round(drop)}% на ${line.runLength ?? DEFAULT_RUN_LENGTH} м кабеля ${line.crossSection} мм² (допустимо ${MAX_VOLTAGE_DROP_PCT}%)`);
+    }
+    Object.entries(productLengths).forEach(([productId, length]) => {
+      const product = tapes.map(tapeProduct).find(p => p.id === productId);
+      if (!product || length <= product.maxCircuitLength) return;
+      findings.push({
+        key: `circuit-length:${line.id}:${productId}`,
+        rule: "circuit-length",
+        severity: "error",
+        lineId: line.id,
+        tapeIds: tapeIds.filter(id => tapeProduct(tapes.find(t => t.id === id)!).id === productId),
+        message: `${label}: ${round(length)} м кабеля ${productLabel(product)} — больше допустимой длины цепи ${product.maxCircuitLength} м`,
+      });
+    });
+    const leakage = Math.max(leakageMa, measuredLeakageMa ?? 0);
+    if (leakage > leakageBudgetMa) {
+      add(line.id, tapeIds, "rcd-leakage", "error",
+        `${label}: утечка ${round(leakage)} мА${measuredLeakageMa !== null && measuredLeakageMa >= leakageMa ? " (измерено)" : ` на ${round(heaterLength, 0)} м кабеля`} превышает бюджет УЗО ${line.rcdMa} мА (${round(leakageBudgetMa)} мА)`);
+    }
+
+    return {
+      lineId: line.id,
+      heaterLength: round(heaterLength),
+      ratedA: round(ratedA, 2),
+      coldStartA: round(coldStartA),
+      voltageDropPct: round(drop, 2),
+      leakageMa: round(leakageMa),
+      measuredLeakageMa,
+      leakageBudgetMa: round(leakageBudgetMa),
+    };
+  });
+
+  return { circuits, findings };
+}
+
+export function findingsForTape(findings: ElectricalFinding[], tapeId: number) {
+  return findings.filter(f => f.tapeIds.includes(tapeId));
+}
+
+export function findingsForLine(findings: ElectricalFinding[], lineId: number) {
+  return findings.filter(f => f.lineId === lineId);
+}
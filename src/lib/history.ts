@@ -0,0 +1,202 @@
+import type { Tape } from "@/lib/types";
+
+export interface Sample {
+  series: string;
+  t: number;
+  v: number;
+}
+
+export interface Bucket {
+  series: string;
+  t: number;
+  avg: number;
+  min: number;
+  max: number;
+  n: number;
+}
+
+export interface HistoryPoint {
+  t: number;
+  v: number;
+  min: number;
+  max: number;
+}
+
+export type Tier = "raw" | "m1" | "h1";
+
+export type RetentionPolicy = Record<Tier, number>;
+
+export interface HistoryStore {
+  record(samples: Sample[]): Promise<void>;
+  query(series: string[], from: number, to: number): Promise<{ tier: Tier; data: Map<string, HistoryPoint[]> }>;
+  compact(now?: number): Promise<void>;
+  close(): void;
+}
+
+const HOUR = 3600_000;
+const DAY = 24 * HOUR;
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  raw: 6 * HOUR,
+  m1: 7 * DAY,
+  h1: 400 * DAY,
+};
+
+export const TIER_STEP: Record<Tier, number> = { raw: 0, m1: 60_000, h1: HOUR };
+
+// Самый детальный уровень, которого хватает на диапазон без лишних тысяч точек
+const TIER_MAX_SPAN: Record<Tier, number> = { raw: 2 * HOUR, m1: 3 * DAY, h1: Infinity };
+
+const DB_NAME = "heater-tape-history";
+const DB_VERSION = 1;
+const TIERS: Tier[] = ["raw", "m1", "h1"];
+
+export const seriesKey = {
+  sensor: (segmentId: number, sensorId: string) => `sensor:${segmentId}:${sensorId}`,
+  segmentTemp: (segmentId: number) => `temp:${segmentId}`,
+  power: (segmentId: number) => `power:${segmentId}`,
+  ambient: "ambient",
+};
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB: транзакция прервана"));
+  });
+}
+
+function mergeBucket(bucket: Bucket | undefined, series: string, t: number, v: number): Bucket {
+  if (!bucket) return { series, t, avg: v, min: v, max: v, n: 1 };
+  const n = bucket.n + 1;
+  return { series, t, avg: bucket.avg + (v - bucket.avg) / n, min: Math.min(bucket.min, v), max: Math.max(bucket.max, v), n };
+}
+
+export function chooseTier(from: number, to: number, now: number, retention: RetentionPolicy): Tier {
+  return TIERS.find(tier => to - from <= TIER_MAX_SPAN[tier] && now - from <= retention[tier]) ?? "h1";
+}
+
+// Хранилище в духе RRD: каждый отсчёт пишется в сырой уровень и сразу сворачивается
+// в минутные и часовые корзины; compact() удаляет то, что старше срока хранения уровня.
+export async function openHistoryStore(retention: RetentionPolicy = DEFAULT_RETENTION): Promise<HistoryStore> {
+  if (typeof indexedDB === "undefined") throw new Error("IndexedDB недоступен — история не сохраняется");
+
+  const open = indexedDB.open(DB_NAME, DB_VERSION);
+  open.onupgradeneeded = () => {
+    const db = open.result;
+    TIERS.forEach(tier => {
+      if (db.objectStoreNames.contains(tier)) return;
+      const store = db.createObjectStore(tier, { keyPath: ["series", "t"] });
+      store.createIndex("t", "t");
+    });
+  };
+  const db = await requestToPromise(open);
+
+  return {
+    async record(samples) {
+      if (samples.length === 0) return;
+      const tx = db.transaction(TIERS, "readwrite");
+      const raw = tx.objectStore("raw");
+      samples.forEach(s => raw.put(s));
+      (["m1", "h1"] as const).forEach(tier => {
+        const store = tx.objectStore(tier);
+        samples.forEach(s => {
+          const t = Math.floor(s.t / TIER_STEP[tier]) * TIER_STEP[tier];
+          const get = store.get([s.series, t]);
+          get.onsuccess = () => store.put(mergeBucket(get.result as Bucket | undefined, s.series, t, s.v));
+        });
+      });
+      await transactionDone(tx);
+    },
+
+    async query(series, from, to) {
+      const tier = chooseTier(from, to, Date.now(), retention);
+      const tx = db.transaction(tier, "readonly");
+      const store = tx.objectStore(tier);
+      const lower = tier === "raw" ? from : Math.floor(from / TIER_STEP[tier]) * TIER_STEP[tier];
+      const results = await Promise.all(series.map(name =>
+        requestToPromise(store.getAll(IDBKeyRange.bound([name, lower], [name, to]))) as Promise<(Sample | Bucket)[]>));
+      const data = new Map<string, HistoryPoint[]>();
+      results.forEach((rows, i) => {
+        data.set(series[i], rows.map(r => "v" in r
+          ? { t: r.t, v: r.v, min: r.v, max: r.v }
+          : { t: r.t, v: r.avg, min: r.min, max: r.max }));
+      });
+      return { tier, data };
+    },
+
+    async compact(now = Date.now()) {
+      const tx = db.transaction(TIERS, "readwrite");
+      TIERS.forEach(tier => {
+        const cursor = tx.objectStore(tier).index("t").openKeyCursor(IDBKeyRange.upperBound(now - retention[tier], true));
+        const store = tx.objectStore(tier);
+        cursor.onsuccess = () => {
+          const c = cursor.result;
+          if (!c) return;
+          store.delete(c.primaryKey);
+          c.continue();
+        };
+      });
+      await transactionDone(tx);
+    },
+
+    close: () => db.close(),
+  };
+}
+
+export interface HistoryRow {
+  t: number;
+  [series: string]: number | undefined;
+}
+
+// Выравнивает серии по общей сетке времени для recharts; пустые корзины дают разрыв линии
+export function bucketRows(data: Map<string, HistoryPoint[]>, from: number, to: number, maxPoints: number, minStep = 0): HistoryRow[] {
+  const step = Math.max(minStep, Math.ceil((to - from) / Math.max(1, maxPoints)), 1000);
+  const start = Math.floor(from / step) * step;
+  const count = Math.ceil((to - start) / step);
+  const sums: Record<string, { sum: number; n: number }>[] = Array.from({ length: count }, () => ({}));
+
+  data.forEach((points, series) => {
+    points.forEach(p => {
+      const i = Math.floor((p.t - start) / step);
+      if (i < 0 || i >= count) return;
+      const cell = sums[i][series] ?? (sums[i][series] = { sum: 0, n: 0 });
+      cell.sum += p.v;
+      cell.n += 1;
+    });
+  });
+
+  return sums.map((cells, i) => {
+    const row: HistoryRow = { t: start + i * step };
+    Object.entries(cells).forEach(([series, c]) => {
+      row[series] = Math.round((c.sum / c.n) * 10) / 10;
+    });
+    return row;
+  });
+}
+
+export function meanOf(row: HistoryRow, series: string[]): number | undefined {
+  const values = series.map(s => row[s]).filter((v): v is number => v !== undefined);
+  if (values.length === 0) return undefined;
+  return Math.round((values.reduce((a, v) => a + v, 0) / values.length) * 10) / 10;
+}
+
+export function collectSamples(tapes: Tape[], ambient: number | null, t: number): Sample[] {
+  const samples: Sample[] = [];
+  tapes.forEach(tape => tape.segments.forEach(seg => {
+    samples.push({ series: seriesKey.segmentTemp(seg.id), t, v: seg.temperature });
+    samples.push({ series: seriesKey.power(seg.id), t, v: seg.enabled && tape.enabled ? seg.power : 0 });
+    seg.sensors.forEach(sensor => {
+      if (sensor.status === "online") samples.push({ series: seriesKey.sensor(seg.id, sensor.id), t, v: sensor.temperature });
+    });
+  }));
+  if (ambient !== null) samples.push({ series: seriesKey.ambient, t, v: ambient });
+  return samples;
+}
@@ -0,0 +1,117 @@
+import type { LogActor, LogEntry, Tape } from "@/lib/types";
+
+export type NewLogEntry = Omit<LogEntry, "id" | "timestamp">;
+
+export interface LogFilter {
+  type: LogEntry["type"] | "all";
+  actor: LogActor | "all";
+  tapeId: number | null;
+  segmentId: number | null;
+  from: number | null;
+  to: number | null;
+}
+
+export const EMPTY_LOG_FILTER: LogFilter = { type: "all", actor: "all", tapeId: null, segmentId: null, from: null, to: null };
+
+export const MAX_LOG_ENTRIES = 500;
+
+export const ACTOR_LABELS: Record<LogActor, string> = {
+  operator: "Оператор",
+  auto: "Автоматика",
+  system: "Система",
+  mqtt: "MQTT",
+};
+
+export const LOG_TYPE_LABELS: Record<LogEntry["type"], string> = {
+  info: "Инфо",
+  success: "Успех",
+  warning: "Предупреждение",
+  error: "Ошибка",
+};
+
+export const LOG_TYPE_ICONS: Record<LogEntry["type"], string> = {
+  info: "Info",
+  success: "CheckCircle",
+  warning: "AlertTriangle",
+  error: "XCircle",
+};
+
+export const LOG_TYPE_COLORS: Record<LogEntry["type"], string> = {
+  info: "text-sky-400",
+  success: "text-emerald-400",
+  warning: "text-amber-400",
+  error: "text-red-400",
+};
+
+const JOURNAL_KEY = "heater-tape-journal";
+
+// Перетаскивание слайдера даёт десятки вызовов подряд — в журнал попадает только итог
+const COALESCE_MS = 3000;
+
+export function appendLogEntries(prev: LogEntry[], entries: NewLogEntry[], now = new Date()): LogEntry[] {
+  if (entries.length === 0) return prev;
+  const timestamp = now.toISOString();
+  let nextId = prev.reduce((m, l) => Math.max(m, l.id), 0);
+  let log = prev;
+  entries.forEach(entry => {
+    const last = log[0];
+    if (entry.coalesce && last?.coalesce === entry.coalesce && now.getTime() - Date.parse(last.timestamp) < COALESCE_MS) {
+      log = [{ ...entry, id: last.id, timestamp }, ...log.slice(1)];
+      return;
+    }
+    log = [{ ...entry, id: ++nextId, timestamp }, ...log];
+  });
+  return log.slice(0, MAX_LOG_ENTRIES);
+}
+
+function isLogEntry(value: unknown): value is LogEntry {
+  const entry = value as LogEntry;
+  return typeof entry?.id === "number" && typeof entry.message === "string" && !isNaN(Date.parse(entry.timestamp));
+}
+
+export function loadJournal(): LogEntry[] {
+  try {
+    const raw = localStorage.getItem(JOURNAL_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw) as unknown[];
+    return Array.isArray(parsed)
+      ? parsed.filter(isLogEntry).map(e => ({ ...e, actor: e.actor ?? "system" })).slice(0, MAX_LOG_ENTRIES)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveJournal(logs: LogEntry[]) {
+  try {
+    localStorage.setItem(JOURNAL_KEY, JSON.stringify(logs.slice(0, MAX_LOG_ENTRIES)));
+  } catch { /* ignore */ }
+}
+
+export function filterLogs(logs: LogEntry[], filter: LogFilter): LogEntry[] {
+  return logs.filter(log => {
+    if (filter.type !== "all" && log.type !== filter.type) return false;
+    if (filter.actor !== "all" && log.actor !== filter.actor) return false;
+    if (filter.tapeId !== null && log.tapeId !== filter.tapeId) return false;
+    if (filter.segmentId !== null && log.segmentId !== filter.segmentId) return false;
+    const t = Date.parse(log.timestamp);
+    if (filter.from !== null && t < filter.from) return false;
+    if (filter.to !== null && t > filter.to) return false;
+    return true;
+  });
+}
+
+export function formatLogTime(timestamp: string) {
+  return new Date(timestamp).toLocaleString("ru-RU");
+}
+
+// Ссылки хранятся по id; имена берём из текущей конфигурации, удалённые показываем по номеру
+export function describeLogTarget(log: LogEntry, tapes: Tape[]): string | null {
+  if (log.tapeId === undefined && log.segmentId === undefined) return null;
+  const tape = tapes.find(t => t.id === log.tapeId)
+    ?? (log.segmentId !== undefined ? tapes.find(t => t.segments.some(s => s.id === log.segmentId)) : undefined);
+  const segment = tape?.segments.find(s => s.id === log.segmentId);
+  const tapeName = tape?.name ?? (log.tapeId !== undefined ? `Лента #${log.tapeId}` : null);
+  const segName = log.segmentId === undefined ? null : segment?.name ?? `Сегмент #${log.segmentId}`;
+  return [tapeName, segName].filter(Boolean).join(" • ");
+}
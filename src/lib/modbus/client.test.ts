@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import type { Tape } from "@/lib/types";
+import { createModbusClient, isReplyTo, type ModbusTransport } from "@/lib/modbus/client";
+import {
+  FUNCTION_CODES,
+  ModbusExceptionError,
+  encodeRtu,
+  encodeTcp,
+  exceptionResponse,
+  readRequest,
+  type ModbusMode,
+} from "@/lib/modbus/protocol";
+import { assignModbusAddresses, createRegisterMap, decodeTemperature } from "@/lib/modbus/register-map";
+import { createModbusSimulator } from "@/lib/modbus/simulator";
+import { DEFAULT_SIMULATION } from "@/lib/thermal-simulator";
+
+const request = readRequest(FUNCTION_CODES.READ_HOLDING_REGISTERS, 0, 1);
+const reply = new Uint8Array([FUNCTION_CODES.READ_HOLDING_REGISTERS, 2, 0, 42]);
+
+describe("isReplyTo", () => {
+  it("в TCP сверяет номер транзакции", () => {
+    expect(isReplyTo("tcp", encodeTcp(7, 1, request), encodeTcp(7, 1, reply))).toBe(true);
+    expect(isReplyTo("tcp", encodeTcp(7, 1, request), encodeTcp(6, 1, reply))).toBe(false);
+  });
+
+  it("в RTU сверяет адрес ведомого и код функции, включая исключения", () => {
+    expect(isReplyTo("rtu", encodeRtu(1, request), encodeRtu(1, reply))).toBe(true);
+    expect(isReplyTo("rtu", encodeRtu(1, request), encodeRtu(1, exceptionResponse(FUNCTION_CODES.READ_HOLDING_REGISTERS, 2)))).toBe(true);
+    expect(isReplyTo("rtu", encodeRtu(1, request), encodeRtu(2, reply))).toBe(false);
+    expect(isReplyTo("rtu", encodeRtu(1, request), encodeRtu(1, new Uint8Array([FUNCTION_CODES.READ_COILS, 1, 0])))).toBe(false);
+  });
+});
+
+const tapes: Tape[] = assignModbusAddresses([{
+  id: 1,
+  name: "Кровля",
+  coordinates: "",
+  contractNumber: "",
+  length: "20",
+  width: "",
+  enabled: true,
+  segments: [
+    { id: 1, name: "Сегмент 1", enabled: true, power: 40, temperature: 3, targetTemp: 5, sensorId: "T1", modbusAddress: 7,
+      sensors: [{ id: "T1", serial: "28-01", temperature: 3.5, status: "online", lastUpdate: "2026-01-01T00:00:00.000Z" }] },
+    { id: 2, name: "Сегмент 2", enabled: false, power: 0, temperature: 3, targetTemp: 5, sensorId: "T1", modbusAddress: 2,
+      sensors: [{ id: "T1", serial: "28-02", temperature: -1.5, status: "offline", lastUpdate: "2026-01-01T00:00:00.000Z" }] },
+  ],
+}]);
+
+function connect(mode: ModbusMode, wrap: (transport: ModbusTransport) => ModbusTransport = t => t) {
+  const map = createRegisterMap(tapes);
+  const simulator = createModbusSimulator({ mode, unitId: 3, tapes, map, simulation: DEFAULT_SIMULATION });
+  const client = createModbusClient(wrap(simulator), { mode, unitId: 3, timeoutMs: 50, retries: 2 });
+  return { map, simulator, client };
+}
+
+describe("клиент ↔ симулятор ведомого", () => {
+  (["rtu", "tcp"] as const).forEach(mode => {
+    it(`${mode}: читает реле, регистры мощности и датчиков по закреплённым адресам`, async () => {
+      const { map, client } = connect(mode);
+      expect(await client.readCoils(2, 6)).toEqual([false, false, false, false, false, true]);
+      expect(await client.readHoldingRegisters(7, 1)).toEqual([40]);
+      const [online, offline] = await client.readInputRegisters(map.sensors["1:T1"].inputRegister, 2);
+      expect(decodeTemperature(online)).not.toBeNull();
+      expect(decodeTemperature(offline)).toBeNull();
+    });
+  });
+
+  it("записывает реле и мощность в ведомое", async () => {
+    const { client, simulator } = connect("rtu");
+    await client.writeCoil(2, true);
+    await client.writeRegister(2, 75);
+    expect(await client.readCoils(2, 1)).toEqual([true]);
+    const seg = simulator.tapes()[0].segments.find(s => s.id === 2);
+    expect(seg).toMatchObject({ enabled: true, power: 75 });
+  });
+
+  it("передаёт исключение ведомого без повторов", async () => {
+    let requests = 0;
+    const { client } = connect("tcp", t => ({ ...t, request: frame => { requests++; return t.request(frame); } }));
+    await expect(client.writeCoil(100, true)).rejects.toBeInstanceOf(ModbusExceptionError);
+    await expect(client.writeRegister(7, 101)).rejects.toMatchObject({ exceptionCode: 3 });
+    expect(requests).toBe(2);
+  });
+
+  it("повторяет запрос после ответа с повреждённым CRC", async () => {
+    let requests = 0;
+    const { client } = connect("rtu", t => ({
+      ...t,
+      request: async frame => {
+        const response = await t.request(frame);
+        if (++requests === 1) response[response.length - 1] ^= 0xff;
+        return response;
+      },
+    }));
+    expect(await client.readHoldingRegisters(7, 1)).toEqual([40]);
+    expect(requests).toBe(2);
+  });
+});
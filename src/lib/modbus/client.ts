@@ -0,0 +1,176 @@
+import {
+  FUNCTION_CODES,
+  ModbusError,
+  ModbusExceptionError,
+  ModbusTimeoutError,
+  assertResponse,
+  decodeRtu,
+  decodeTcp,
+  encodeRtu,
+  encodeTcp,
+  parseBits,
+  parseRegisters,
+  readRequest,
+  writeCoilRequest,
+  writeRegisterRequest,
+  type ModbusMode,
+} from "@/lib/modbus/protocol";
+
+export interface ModbusTransport {
+  request(frame: Uint8Array): Promise<Uint8Array>;
+  close(): void;
+}
+
+export interface ModbusClientOptions {
+  mode: ModbusMode;
+  unitId: number;
+  timeoutMs: number;
+  retries: number;
+}
+
+export interface ModbusClient {
+  readCoils(address: number, quantity: number): Promise<boolean[]>;
+  readHoldingRegisters(address: number, quantity: number): Promise<number[]>;
+  readInputRegisters(address: number, quantity: number): Promise<number[]>;
+  writeCoil(address: number, value: boolean): Promise<void>;
+  writeRegister(address: number, value: number): Promise<void>;
+  close(): void;
+}
+
+export const MAX_REGISTERS_PER_READ = 125;
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new ModbusTimeoutError(timeoutMs)), timeoutMs);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); },
+    );
+  });
+}
+
+export function createModbusClient(transport: ModbusTransport, options: ModbusClientOptions): ModbusClient {
+  let transactionId = 0;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const exchangeOnce = async (pdu: Uint8Array): Promise<Uint8Array> => {
+    if (options.mode === "rtu") {
+      const raw = await withTimeout(transport.request(encodeRtu(options.unitId, pdu)), options.timeoutMs);
+      const response = decodeRtu(raw);
+      if (response.unitId !== options.unitId) throw new ModbusError(`Modbus RTU: ответ от ведомого ${response.unitId} вместо ${options.unitId}`);
+      return response.pdu;
+    }
+    transactionId = (transactionId + 1) & 0xffff;
+    const raw = await withTimeout(transport.request(encodeTcp(transactionId, options.unitId, pdu)), options.timeoutMs);
+    const response = decodeTcp(raw);
+    if (response.transactionId !== transactionId) {
+      throw new ModbusError(`Modbus TCP: транзакция ${response.transactionId} вместо ${transactionId}`);
+    }
+    return response.pdu;
+  };
+
+  // Шина полудуплексная — запросы строго по очереди, с повтором при таймауте и ошибке CRC
+  const exchange = (pdu: Uint8Array): Promise<Uint8Array> => {
+    const run = async () => {
+      let lastError: unknown;
+      for (let attempt = 0; attempt <= options.retries; attempt++) {
+        try {
+          const response = await exchangeOnce(pdu);
+          assertResponse(response, pdu[0]);
+          return response;
+        } catch (e) {
+          if (e instanceof ModbusExceptionError) throw e;
+          lastError = e;
+        }
+      }
+      throw lastError;
+    };
+    const result = queue.then(run, run);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  return {
+    readCoils: async (address, quantity) =>
+      parseBits(await exchange(readRequest(FUNCTION_CODES.READ_COILS, address, quantity)), quantity),
+    readHoldingRegisters: async (address, quantity) =>
+      parseRegisters(await exchange(readRequest(FUNCTION_CODES.READ_HOLDING_REGISTERS, address, quantity)), quantity),
+    readInputRegisters: async (address, quantity) =>
+      parseRegisters(await exchange(readRequest(FUNCTION_CODES.READ_INPUT_REGISTERS, address, quantity)), quantity),
+    writeCoil: async (address, value) => {
+      await exchange(writeCoilRequest(address, value));
+    },
+    writeRegister: async (address, value) => {
+      await exchange(writeRegisterRequest(address, value));
+    },
+    close: () => transport.close(),
+  };
+}
+
+// Ответ относится к запросу: в TCP — по номеру транзакции, в RTU — по адресу ведомого
+// и коду функции (у исключения старший бит кода взведён)
+export function isReplyTo(mode: ModbusMode, request: Uint8Array, reply: Uint8Array) {
+  if (mode === "tcp") return reply.length >= 8 && reply[0] === request[0] && reply[1] === request[1];
+  return reply.length >= 4 && reply[0] === request[0] && (reply[1] & 0x7f) === request[1];
+}
+
+// Браузер не открывает TCP/последовательный порт напрямую: кадры уходят через
+// WebSocket-шлюз (websockify или RS-485/Ethernet-конвертер) как бинарные сообщения
+export function createWebSocketTransport(url: string, mode: ModbusMode): ModbusTransport {
+  let socket: WebSocket | null = null;
+  let connecting: Promise<WebSocket> | null = null;
+  let pending: { frame: Uint8Array; resolve: (frame: Uint8Array) => void } | null = null;
+  let closed = false;
+
+  const open = () => new Promise<WebSocket>((resolve, reject) => {
+    const ws = new WebSocket(url);
+    ws.binaryType = "arraybuffer";
+    ws.onopen = () => {
+      // Транспорт закрыли, пока сокет подключался
+      if (closed) {
+        ws.close();
+        return reject(new ModbusError("Modbus: соединение закрыто"));
+      }
+      socket = ws;
+      resolve(ws);
+    };
+    ws.onerror = () => reject(new ModbusError(`Modbus: не удалось подключиться к шлюзу ${url}`));
+    ws.onclose = () => {
+      if (socket === ws) socket = null;
+    };
+    ws.onmessage = event => {
+      const reply = new Uint8Array(event.data as ArrayBuffer);
+      // Опоздавший ответ на запрос, по которому клиент уже отработал таймаут, отбрасывается
+      if (!pending || !isReplyTo(mode, pending.frame, reply)) return;
+      const { resolve: handler } = pending;
+      pending = null;
+      handler(reply);
+    };
+  });
+
+  // Пока сокет подключается, все запросы ждут его же, а не открывают второй
+  const connect = () => {
+    if (socket && socket.readyState === WebSocket.OPEN) return Promise.resolve(socket);
+    if (!connecting) {
+      connecting = open().finally(() => { connecting = null; });
+    }
+    return connecting;
+  };
+
+  return {
+    async request(frame) {
+      const ws = await connect();
+      return new Promise<Uint8Array>(resolve => {
+        pending = { frame, resolve };
+        ws.send(frame);
+      });
+    },
+    close() {
+      closed = true;
+      pending = null;
+      connecting = null;
+      socket?.close();
+      socket = null;
+    },
+  };
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  FUNCTION_CODES,
+  ModbusCrcError,
+  ModbusError,
+  ModbusExceptionError,
+  assertResponse,
+  crc16,
+  decodeRtu,
+  decodeTcp,
+  encodeRtu,
+  encodeTcp,
+  exceptionResponse,
+  parseBits,
+  parseRegisters,
+  readRequest,
+  writeCoilRequest,
+  writeRegisterRequest,
+} from "@/lib/modbus/protocol";
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+describe("crc16", () => {
+  it("совпадает с контрольным значением Modbus для строки 123456789", () => {
+    expect(crc16(new TextEncoder().encode("123456789"))).toBe(0x4b37);
+  });
+
+  it("совпадает с примером из спецификации: чтение 10 регистров ведомого 1", () => {
+    expect(crc16(bytes(0x01, 0x03, 0x00, 0x00, 0x00, 0x0a))).toBe(0xcdc5);
+  });
+});
+
+describe("кадр RTU", () => {
+  it("дописывает CRC младшим байтом вперёд", () => {
+    const frame = encodeRtu(1, readRequest(FUNCTION_CODES.READ_HOLDING_REGISTERS, 0, 10));
+    expect([...frame]).toEqual([0x01, 0x03, 0x00, 0x00, 0x00, 0x0a, 0xc5, 0xcd]);
+  });
+
+  it("разбирает собственный кадр обратно", () => {
+    const pdu = writeRegisterRequest(0x1234, 75);
+    const decoded = decodeRtu(encodeRtu(17, pdu));
+    expect(decoded.unitId).toBe(17);
+    expect([...decoded.pdu]).toEqual([...pdu]);
+  });
+
+  it("отвергает кадр с повреждённым CRC", () => {
+    const frame = encodeRtu(1, writeCoilRequest(5, true));
+    frame[2] ^= 0xff;
+    expect(() => decodeRtu(frame)).toThrow(ModbusCrcError);
+  });
+
+  it("отвергает слишком короткий кадр", () => {
+    expect(() => decodeRtu(bytes(0x01, 0x03, 0x00))).toThrow(ModbusError);
+  });
+});
+
+describe("кадр TCP", () => {
+  it("собирает MBAP-заголовок: транзакция, протокол 0, длина, адрес", () => {
+    const frame = encodeTcp(0x0102, 9, readRequest(FUNCTION_CODES.READ_COILS, 16, 8));
+    expect([...frame]).toEqual([0x01, 0x02, 0x00, 0x00, 0x00, 0x06, 0x09, 0x01, 0x00, 0x10, 0x00, 0x08]);
+  });
+
+  it("разбирает собственный кадр обратно", () => {
+    const pdu = writeCoilRequest(3, false);
+    const decoded = decodeTcp(encodeTcp(65535, 1, pdu));
+    expect(decoded).toMatchObject({ transactionId: 65535, unitId: 1 });
+    expect([...decoded.pdu]).toEqual([...pdu]);
+  });
+
+  it("отвергает кадр с чужим протоколом или неверной длиной", () => {
+    const frame = encodeTcp(1, 1, readRequest(FUNCTION_CODES.READ_COILS, 0, 1));
+    expect(() => decodeTcp(frame.slice(0, frame.length - 1))).toThrow(/длина/);
+    frame[3] = 1;
+    expect(() => decodeTcp(frame)).toThrow(/протокола/);
+  });
+});
+
+describe("PDU", () => {
+  it("кодирует запись катушки значениями FF00 и 0000", () => {
+    expect([...writeCoilRequest(0x0102, true)]).toEqual([0x05, 0x01, 0x02, 0xff, 0x00]);
+    expect([...writeCoilRequest(0x0102, false)]).toEqual([0x05, 0x01, 0x02, 0x00, 0x00]);
+  });
+
+  it("разбирает биты младшим разрядом вперёд и регистры старшим байтом вперёд", () => {
+    expect(parseBits(bytes(0x01, 0x02, 0b00000101, 0b00000001), 9)).toEqual([true, false, true, false, false, false, false, false, true]);
+    expect(parseRegisters(bytes(0x03, 0x04, 0x01, 0x02, 0xff, 0xff), 2)).toEqual([0x0102, 0xffff]);
+  });
+
+  it("превращает ответ-исключение в ModbusExceptionError", () => {
+    const pdu = exceptionResponse(FUNCTION_CODES.READ_HOLDING_REGISTERS, 2);
+    expect(pdu[0]).toBe(0x83);
+    expect(() => assertResponse(pdu, FUNCTION_CODES.READ_HOLDING_REGISTERS)).toThrow(ModbusExceptionError);
+  });
+});
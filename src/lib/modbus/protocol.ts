@@ -0,0 +1,139 @@
+export type ModbusMode = "rtu" | "tcp";
+
+export const FUNCTION_CODES = {
+  READ_COILS: 0x01,
+  READ_HOLDING_REGISTERS: 0x03,
+  READ_INPUT_REGISTERS: 0x04,
+  WRITE_SINGLE_COIL: 0x05,
+  WRITE_SINGLE_REGISTER: 0x06,
+} as const;
+
+export const EXCEPTION_CODES = {
+  ILLEGAL_FUNCTION: 0x01,
+  ILLEGAL_DATA_ADDRESS: 0x02,
+  ILLEGAL_DATA_VALUE: 0x03,
+} as const;
+
+const EXCEPTION_MESSAGES: Record<number, string> = {
+  0x01: "недопустимая функция",
+  0x02: "недопустимый адрес",
+  0x03: "недопустимое значение",
+  0x04: "сбой ведомого устройства",
+  0x06: "устройство занято",
+};
+
+export class ModbusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModbusError";
+  }
+}
+
+export class ModbusTimeoutError extends ModbusError {
+  constructor(timeoutMs: number) {
+    super(`Modbus: нет ответа за ${timeoutMs} мс`);
+    this.name = "ModbusTimeoutError";
+  }
+}
+
+export class ModbusCrcError extends ModbusError {
+  constructor(expected: number, actual: number) {
+    super(`Modbus: ошибка CRC (ожидалось 0x${expected.toString(16).padStart(4, "0")}, получено 0x${actual.toString(16).padStart(4, "0")})`);
+    this.name = "ModbusCrcError";
+  }
+}
+
+export class ModbusExceptionError extends ModbusError {
+  constructor(public readonly functionCode: number, public readonly exceptionCode: number) {
+    super(`Modbus: исключение 0x${exceptionCode.toString(16).padStart(2, "0")} на функции 0x${functionCode.toString(16).padStart(2, "0")} — ${EXCEPTION_MESSAGES[exceptionCode] ?? "неизвестная ошибка"}`);
+    this.name = "ModbusExceptionError";
+  }
+}
+
+// CRC-16/MODBUS: полином 0xA001 (отражённый 0x8005), начальное значение 0xFFFF
+export function crc16(data: Uint8Array): number {
+  let crc = 0xffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xa001 : crc >>> 1;
+    }
+  }
+  return crc;
+}
+
+export function encodeRtu(unitId: number, pdu: Uint8Array): Uint8Array {
+  const frame = new Uint8Array(pdu.length + 3);
+  frame[0] = unitId;
+  frame.set(pdu, 1);
+  const crc = crc16(frame.subarray(0, pdu.length + 1));
+  frame[pdu.length + 1] = crc & 0xff;
+  frame[pdu.length + 2] = crc >>> 8;
+  return frame;
+}
+
+export function decodeRtu(frame: Uint8Array): { unitId: number; pdu: Uint8Array } {
+  if (frame.length < 4) throw new ModbusError(`Modbus RTU: слишком короткий кадр (${frame.length} байт)`);
+  const expected = crc16(frame.subarray(0, frame.length - 2));
+  const actual = frame[frame.length - 2] | (frame[frame.length - 1] << 8);
+  if (expected !== actual) throw new ModbusCrcError(expected, actual);
+  return { unitId: frame[0], pdu: frame.slice(1, frame.length - 2) };
+}
+
+export function encodeTcp(transactionId: number, unitId: number, pdu: Uint8Array): Uint8Array {
+  const frame = new Uint8Array(pdu.length + 7);
+  const view = new DataView(frame.buffer);
+  view.setUint16(0, transactionId);
+  view.setUint16(2, 0);
+  view.setUint16(4, pdu.length + 1);
+  frame[6] = unitId;
+  frame.set(pdu, 7);
+  return frame;
+}
+
+export function decodeTcp(frame: Uint8Array): { transactionId: number; unitId: number; pdu: Uint8Array } {
+  if (frame.length < 8) throw new ModbusError(`Modbus TCP: слишком короткий кадр (${frame.length} байт)`);
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+  const protocolId = view.getUint16(2);
+  const length = view.getUint16(4);
+  if (protocolId !== 0) throw new ModbusError(`Modbus TCP: неверный идентификатор протокола ${protocolId}`);
+  if (length !== frame.length - 6) throw new ModbusError(`Modbus TCP: длина в заголовке ${length} не совпадает с кадром`);
+  return { transactionId: view.getUint16(0), unitId: frame[6], pdu: frame.slice(7) };
+}
+
+export function readRequest(functionCode: number, address: number, quantity: number): Uint8Array {
+  return new Uint8Array([functionCode, address >>> 8, address & 0xff, quantity >>> 8, quantity & 0xff]);
+}
+
+export function writeCoilRequest(address: number, value: boolean): Uint8Array {
+  return new Uint8Array([FUNCTION_CODES.WRITE_SINGLE_COIL, address >>> 8, address & 0xff, value ? 0xff : 0x00, 0x00]);
+}
+
+export function writeRegisterRequest(address: number, value: number): Uint8Array {
+  const word = value & 0xffff;
+  return new Uint8Array([FUNCTION_CODES.WRITE_SINGLE_REGISTER, address >>> 8, address & 0xff, word >>> 8, word & 0xff]);
+}
+
+export function exceptionResponse(functionCode: number, exceptionCode: number): Uint8Array {
+  return new Uint8Array([functionCode | 0x80, exceptionCode]);
+}
+
+export function assertResponse(pdu: Uint8Array, functionCode: number) {
+  if (pdu.length === 0) throw new ModbusError("Modbus: пустой ответ");
+  if (pdu[0] === (functionCode | 0x80)) throw new ModbusExceptionError(functionCode, pdu[1] ?? 0);
+  if (pdu[0] !== functionCode) {
+    throw new ModbusError(`Modbus: ответ на функцию 0x${pdu[0].toString(16)} вместо 0x${functionCode.toString(16)}`);
+  }
+}
+
+export function parseBits(pdu: Uint8Array, quantity: number): boolean[] {
+  const byteCount = pdu[1];
+  if (byteCount < Math.ceil(quantity / 8) || pdu.length < byteCount + 2) throw new ModbusError("Modbus: неполный ответ с битами");
+  return Array.from({ length: quantity }, (_, i) => ((pdu[2 + (i >> 3)] >> (i & 7)) & 1) === 1);
+}
+
+export function parseRegisters(pdu: Uint8Array, quantity: number): number[] {
+  const byteCount = pdu[1];
+  if (byteCount !== quantity * 2 || pdu.length < byteCount + 2) throw new ModbusError("Modbus: неполный ответ с регистрами");
+  return Array.from({ length: quantity }, (_, i) => (pdu[2 + i * 2] << 8) | pdu[3 + i * 2]);
+}
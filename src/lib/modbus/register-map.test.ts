@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import type { Segment, Tape } from "@/lib/types";
+import { ModbusError } from "@/lib/modbus/protocol";
+import { assignModbusAddresses, createRegisterMap, registerConflicts } from "@/lib/modbus/register-map";
+
+function segment(id: number, patch: Partial<Segment> = {}): Segment {
+  return {
+    id,
+    name: `Сегмент ${id}`,
+    enabled: false,
+    power: 0,
+    temperature: 0,
+    targetTemp: 5,
+    sensorId: "T1",
+    sensors: [{ id: "T1", serial: `28-${id}`, temperature: 0, status: "online", lastUpdate: "2026-01-01T00:00:00.000Z" }],
+    ...patch,
+  };
+}
+
+function tape(id: number, segments: Segment[]): Tape {
+  return { id, name: `Лента ${id}`, coordinates: "", contractNumber: "", length: "20", width: "", enabled: true, segments };
+}
+
+describe("адреса Modbus", () => {
+  it("выдаются по порядку и не сдвигаются при удалении и добавлении сегментов", () => {
+    const initial = assignModbusAddresses([tape(1, [segment(1), segment(2)]), tape(2, [segment(3)])]);
+    expect(initial.flatMap(t => t.segments.map(s => s.modbusAddress))).toEqual([0, 1, 2]);
+
+    // Удаляем первый сегмент и добавляем новую ленту в начало списка
+    const edited = assignModbusAddresses([tape(4, [segment(4)]), { ...initial[0], segments: [initial[0].segments[1]] }, initial[1]]);
+    const map = createRegisterMap(edited);
+    expect(map.segments[2].coil).toBe(1);
+    expect(map.segments[3].coil).toBe(2);
+    // Новый сегмент занимает освободившийся адрес
+    expect(map.segments[4].coil).toBe(0);
+  });
+
+  it("закрепляют input-регистры датчиков", () => {
+    const assigned = assignModbusAddresses([tape(1, [segment(1), segment(2)])]);
+    const withoutFirst = [{ ...assigned[0], segments: [assigned[0].segments[1]] }];
+    expect(createRegisterMap(withoutFirst).sensors["2:T1"].inputRegister).toBe(1);
+  });
+
+  it("возвращают те же ленты, если адреса уже выданы", () => {
+    const assigned = assignModbusAddresses([tape(1, [segment(1)])]);
+    expect(assignModbusAddresses(assigned)).toBe(assigned);
+  });
+
+  it("отвергают конфликт и выход за блок статуса", () => {
+    const tapes = [tape(1, [segment(1, { modbusAddress: 4 }), segment(2, { modbusAddress: 4 }), segment(3, { modbusAddress: 300 })])];
+    expect(registerConflicts(tapes)).toEqual([
+      "адрес 4: Сегмент 1 и Сегмент 2",
+      "Сегмент 3: адрес 300 вне 0…255",
+    ]);
+    expect(() => createRegisterMap(tapes)).toThrow(ModbusError);
+  });
+});
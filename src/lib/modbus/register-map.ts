@@ -0,0 +1,117 @@
+import type { Tape } from "@/lib/types";
+import { ModbusError } from "@/lib/modbus/protocol";
+
+export interface SegmentRegisters {
+  coil: number;
+  powerRegister: number;
+}
+
+export interface SensorRegisters {
+  segmentId: number;
+  inputRegister: number;
+}
+
+export interface ModbusRegisterMap {
+  segments: Record<number, SegmentRegisters>;
+  sensors: Record<string, SensorRegisters>;
+  statusRegister: number;
+}
+
+// Температура в input-регистре — int16 в десятых °C; 0x8000 — датчик не отвечает
+export const TEMPERATURE_SCALE = 10;
+export const SENSOR_OFFLINE_RAW = 0x8000;
+export const STATUS_REGISTER_COUNT = 5;
+export const STATUS_REGISTER = 0x0100;
+// Регистры мощности сегментов лежат ниже блока статуса
+export const MAX_SEGMENT_ADDRESS = STATUS_REGISTER - 1;
+
+export function sensorKey(segmentId: number, sensorId: string) {
+  return `${segmentId}:${sensorId}`;
+}
+
+export function encodeTemperature(temperature: number | null): number {
+  if (temperature === null) return SENSOR_OFFLINE_RAW;
+  return Math.round(temperature * TEMPERATURE_SCALE) & 0xffff;
+}
+
+export function decodeTemperature(raw: number): number | null {
+  if (raw === SENSOR_OFFLINE_RAW) return null;
+  const signed = raw & 0x8000 ? raw - 0x10000 : raw;
+  return signed / TEMPERATURE_SCALE;
+}
+
+function lowestFree(used: Set<number>) {
+  let address = 0;
+  while (used.has(address)) address++;
+  used.add(address);
+  return address;
+}
+
+// Сегменты и датчики без адреса получают наименьший свободный; у остальных адрес не меняется,
+// поэтому добавление и удаление сегментов не сдвигает разводку соседей
+export function assignModbusAddresses(tapes: Tape[]): Tape[] {
+  const segments = tapes.flatMap(t => t.segments);
+  const sensors = segments.flatMap(s => s.sensors);
+  if (segments.every(s => s.modbusAddress !== undefined) && sensors.every(s => s.modbusRegister !== undefined)) return tapes;
+  const coils = new Set(segments.flatMap(s => s.modbusAddress !== undefined ? [s.modbusAddress] : []));
+  const inputs = new Set(sensors.flatMap(s => s.modbusRegister !== undefined ? [s.modbusRegister] : []));
+  return tapes.map(tape => ({
+    ...tape,
+    segments: tape.segments.map(seg => ({
+      ...seg,
+      modbusAddress: seg.modbusAddress ?? lowestFree(coils),
+      sensors: seg.sensors.map(sensor => sensor.modbusRegister !== undefined ? sensor : { ...sensor, modbusRegister: lowestFree(inputs) }),
+    })),
+  }));
+}
+
+// Два сегмента на одном реле или два датчика на одном регистре — ошибка конфигурации
+export function registerConflicts(tapes: Tape[]): string[] {
+  const conflicts: string[] = [];
+  const coils = new Map<number, string>();
+  const inputs = new Map<number, string>();
+  tapes.forEach(tape => tape.segments.forEach(seg => {
+    if (seg.modbusAddress !== undefined) {
+      if (seg.modbusAddress < 0 || seg.modbusAddress > MAX_SEGMENT_ADDRESS) conflicts.push(`${seg.name}: адрес ${seg.modbusAddress} вне 0…${MAX_SEGMENT_ADDRESS}`);
+      const owner = coils.get(seg.modbusAddress);
+      if (owner) conflicts.push(`адрес ${seg.modbusAddress}: ${owner} и ${seg.name}`);
+      else coils.set(seg.modbusAddress, seg.name);
+    }
+    seg.sensors.forEach(sensor => {
+      if (sensor.modbusRegister === undefined) return;
+      const owner = inputs.get(sensor.modbusRegister);
+      if (owner) conflicts.push(`регистр датчика ${sensor.modbusRegister}: ${owner} и ${sensor.serial}`);
+      else inputs.set(sensor.modbusRegister, sensor.serial);
+    });
+  }));
+  return conflicts;
+}
+
+// Адреса сегментов и датчиков берутся из конфигурации
+export function createRegisterMap(tapes: Tape[]): ModbusRegisterMap {
+  const conflicts = registerConflicts(tapes);
+  if (conflicts.length > 0) throw new ModbusError(`Modbus: конфликт адресов — ${conflicts.join("; ")}`);
+  const map: ModbusRegisterMap = { segments: {}, sensors: {}, statusRegister: STATUS_REGISTER };
+  assignModbusAddresses(tapes).forEach(tape => tape.segments.forEach(seg => {
+    map.segments[seg.id] = { coil: seg.modbusAddress!, powerRegister: seg.modbusAddress! };
+    seg.sensors.forEach(sensor => {
+      map.sensors[sensorKey(seg.id, sensor.id)] = { segmentId: seg.id, inputRegister: sensor.modbusRegister! };
+    });
+  }));
+  return map;
+}
+
+// Группирует адреса в непрерывные блоки, чтобы читать их минимальным числом запросов
+export function addressBlocks(addresses: number[], maxSpan: number): { start: number; count: number }[] {
+  const sorted = [...new Set(addresses)].sort((a, b) => a - b);
+  const blocks: { start: number; count: number }[] = [];
+  sorted.forEach(addr => {
+    const last = blocks[blocks.length - 1];
+    if (last && addr === last.start + last.count && last.count < maxSpan) {
+      last.count++;
+    } else {
+      blocks.push({ start: addr, count: 1 });
+    }
+  });
+  return blocks;
+}
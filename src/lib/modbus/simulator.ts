@@ -0,0 +1,181 @@
+import type { Tape } from "@/lib/types";
+import { MAX_REGISTERS_PER_READ, type ModbusTransport } from "@/lib/modbus/client";
+import {
+  EXCEPTION_CODES,
+  FUNCTION_CODES,
+  decodeRtu,
+  decodeTcp,
+  encodeRtu,
+  encodeTcp,
+  exceptionResponse,
+  type ModbusMode,
+} from "@/lib/modbus/protocol";
+import {
+  STATUS_REGISTER_COUNT,
+  encodeTemperature,
+  sensorKey,
+  type ModbusRegisterMap,
+} from "@/lib/modbus/register-map";
+import { createThermalSimulator, type SimulationSettings } from "@/lib/thermal-simulator";
+import { withoutCalibrations } from "@/lib/calibration";
+
+export interface ModbusSimulatorOptions {
+  mode: ModbusMode;
+  unitId: number;
+  tapes: Tape[];
+  map: ModbusRegisterMap;
+  simulation: SimulationSettings;
+  firmware?: [number, number, number];
+}
+
+export interface ModbusSimulator extends ModbusTransport {
+  tapes(): Tape[];
+  // Ведомое принимает новую карту; у уже известных сегментов и датчиков сохраняется физическое состояние
+  setTopology(tapes: Tape[], map: ModbusRegisterMap): void;
+}
+
+const MAX_BITS_PER_READ = 2000;
+
+// Ведомое устройство Modbus в памяти: реле сегментов — coils, мощность — holding,
+// датчики — input-регистры; физика — тепловой симулятор. Кадры с неверным CRC
+// или чужим адресом остаются без ответа, как на настоящей шине.
+export function createModbusSimulator(options: ModbusSimulatorOptions): ModbusSimulator {
+  const { unitId } = options;
+  let map = options.map;
+  const simulator = createThermalSimulator(options.simulation);
+  const firmware = options.firmware ?? [2, 1, 4];
+  const startedAt = Date.now();
+  let lastStep = startedAt;
+  let tapes = withoutCalibrations(options.tapes);
+
+  let coilToSegment = new Map<number, number>();
+  let registerToSegment = new Map<number, number>();
+  let inputToSensor = new Map<number, string>();
+  const indexMap = () => {
+    coilToSegment = new Map(Object.entries(map.segments).map(([id, r]) => [r.coil, Number(id)]));
+    registerToSegment = new Map(Object.entries(map.segments).map(([id, r]) => [r.powerRegister, Number(id)]));
+    inputToSensor = new Map(Object.entries(map.sensors).map(([key, r]) => [r.inputRegister, key]));
+  };
+  indexMap();
+
+  const findSegment = (segmentId: number) => tapes.flatMap(t => t.segments).find(s => s.id === segmentId);
+  const patchSegment = (segmentId: number, patch: { enabled?: boolean; power?: number }) => {
+    tapes = tapes.map(t => ({ ...t, segments: t.segments.map(s => (s.id === segmentId ? { ...s, ...patch } : s)) }));
+  };
+
+  const advance = () => {
+    const now = Date.now();
+    const dtSec = (now - lastStep) / 1000;
+    if (dtSec > 0) tapes = simulator.step(tapes, dtSec * options.simulation.timeScale, true);
+    lastStep = now;
+  };
+
+  const readCoil = (address: number) => {
+    const segmentId = coilToSegment.get(address);
+    return segmentId !== undefined ? Boolean(findSegment(segmentId)?.enabled) : false;
+  };
+
+  const readHolding = (address: number) => {
+    const offset = address - map.statusRegister;
+    if (offset >= 0 && offset < STATUS_REGISTER_COUNT) {
+      const uptime = Math.floor((Date.now() - startedAt) / 1000);
+      return [uptime >>> 16, uptime & 0xffff, firmware[0], firmware[1], firmware[2]][offset];
+    }
+    const segmentId = registerToSegment.get(address);
+    return segmentId !== undefined ? findSegment(segmentId)?.power ?? 0 : 0;
+  };
+
+  const readInput = (address: number) => {
+    const key = inputToSensor.get(address);
+    if (!key) return 0;
+    const segmentId = map.sensors[key].segmentId;
+    const sensor = findSegment(segmentId)?.sensors.find(s => sensorKey(segmentId, s.id) === key);
+    return encodeTemperature(sensor && sensor.status === "online" ? sensor.temperature : null);
+  };
+
+  const handle = (pdu: Uint8Array): Uint8Array => {
+    const fc = pdu[0];
+    const address = (pdu[1] << 8) | pdu[2];
+    const value = (pdu[3] << 8) | pdu[4];
+
+    switch (fc) {
+      case FUNCTION_CODES.READ_COILS: {
+        if (value < 1 || value > MAX_BITS_PER_READ) return exceptionResponse(fc, EXCEPTION_CODES.ILLEGAL_DATA_VALUE);
+        const bytes = new Uint8Array(Math.ceil(value / 8));
+        for (let i = 0; i < value; i++) {
+          if (readCoil(address + i)) bytes[i >> 3] |= 1 << (i & 7);
+        }
+        return new Uint8Array([fc, bytes.length, ...bytes]);
+      }
+      case FUNCTION_CODES.READ_HOLDING_REGISTERS:
+      case FUNCTION_CODES.READ_INPUT_REGISTERS: {
+        if (value < 1 || value > MAX_REGISTERS_PER_READ) return exceptionResponse(fc, EXCEPTION_CODES.ILLEGAL_DATA_VALUE);
+        const read = fc === FUNCTION_CODES.READ_HOLDING_REGISTERS ? readHolding : readInput;
+        const out = new Uint8Array(2 + value * 2);
+        out[0] = fc;
+        out[1] = value * 2;
+        for (let i = 0; i < value; i++) {
+          const word = read(address + i);
+          out[2 + i * 2] = word >>> 8;
+          out[3 + i * 2] = word & 0xff;
+        }
+        return out;
+      }
+      case FUNCTION_CODES.WRITE_SINGLE_COIL: {
+        const segmentId = coilToSegment.get(address);
+        if (segmentId === undefined) return exceptionResponse(fc, EXCEPTION_CODES.ILLEGAL_DATA_ADDRESS);
+        if (value !== 0xff00 && value !== 0x0000) return exceptionResponse(fc, EXCEPTION_CODES.ILLEGAL_DATA_VALUE);
+        patchSegment(segmentId, { enabled: value === 0xff00 });
+        return pdu.slice(0, 5);
+      }
+      case FUNCTION_CODES.WRITE_SINGLE_REGISTER: {
+        const segmentId = registerToSegment.get(address);
+        if (segmentId === undefined) return exceptionResponse(fc, EXCEPTION_CODES.ILLEGAL_DATA_ADDRESS);
+        if (value > 100) return exceptionResponse(fc, EXCEPTION_CODES.ILLEGAL_DATA_VALUE);
+        patchSegment(segmentId, { power: value });
+        return pdu.slice(0, 5);
+      }
+      default:
+        return exceptionResponse(fc, EXCEPTION_CODES.ILLEGAL_FUNCTION);
+    }
+  };
+
+  return {
+    tapes: () => tapes,
+    setTopology(nextTapes, nextMap) {
+      const known = tapes.flatMap(t => t.segments);
+      tapes = withoutCalibrations(nextTapes).map(t => ({
+        ...t,
+        segments: t.segments.map(seg => {
+          const own = known.find(s => s.id === seg.id);
+          // Датчик узнаётся по ROM-коду: перенесённый приносит свою температуру, новый читается с нуля
+          const sensors = seg.sensors.map(s => {
+            const physical = known.flatMap(k => k.sensors).find(x => x.serial === s.serial);
+            return physical ? { ...physical, id: s.id } : s;
+          });
+          return own ? { ...seg, enabled: own.enabled, power: own.power, temperature: own.temperature, sensors } : { ...seg, sensors };
+        }),
+      }));
+      map = nextMap;
+      indexMap();
+    },
+    request(frame) {
+      // Без ответа промис не разрешается — клиент отработает таймаут
+      return new Promise<Uint8Array>(resolve => {
+        advance();
+        try {
+          if (options.mode === "rtu") {
+            const request = decodeRtu(frame);
+            if (request.unitId === unitId) resolve(encodeRtu(unitId, handle(request.pdu)));
+          } else {
+            const request = decodeTcp(frame);
+            if (request.unitId === unitId) resolve(encodeTcp(request.transactionId, unitId, handle(request.pdu)));
+          }
+        } catch {
+          // повреждённый кадр — молчим
+        }
+      });
+    },
+    close() {},
+  };
+}
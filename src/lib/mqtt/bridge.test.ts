@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Tape } from "@/lib/types";
+import type { SegmentCommand } from "@/lib/controller/adapter";
+import { DEFAULT_MQTT, createMqttBridge, type MqttHandlers } from "@/lib/mqtt/bridge";
+
+interface Published {
+  topic: string;
+  payload: string;
+  options: { qos?: number; retain?: boolean };
+}
+
+// Брокер не нужен: клиент mqtt подменяется фейком, который записывает публикации и отдаёт сообщения по требованию
+const fake = vi.hoisted(() => ({
+  client: null as null | {
+    connected: boolean;
+    published: Published[];
+    listeners: Map<string, ((...args: unknown[]) => void)[]>;
+    emit(event: string, ...args: unknown[]): void;
+  },
+}));
+
+vi.mock("mqtt", () => ({
+  default: {
+    connect: () => {
+      const listeners = new Map<string, ((...args: unknown[]) => void)[]>();
+      const client = {
+        connected: false,
+        published: [] as Published[],
+        listeners,
+        on(event: string, listener: (...args: unknown[]) => void) {
+          listeners.set(event, [...(listeners.get(event) ?? []), listener]);
+          return client;
+        },
+        emit(event: string, ...args: unknown[]) {
+          (listeners.get(event) ?? []).forEach(l => l(...args));
+        },
+        publish(topic: string, payload: string, options: Published["options"] = {}) {
+          client.published.push({ topic, payload, options });
+        },
+        subscribe() {},
+        end() {
+          client.connected = false;
+        },
+      };
+      fake.client = client;
+      return client;
+    },
+  },
+}));
+
+const tapes: Tape[] = [{
+  id: 2,
+  name: "Кровля",
+  coordinates: "",
+  contractNumber: "",
+  length: "10",
+  width: "",
+  enabled: true,
+  segments: [{
+    id: 3,
+    name: "Сегмент 3",
+    enabled: true,
+    power: 40,
+    temperature: 4,
+    targetTemp: 5,
+    sensorId: "T1",
+    sensors: [{ id: "T1", serial: "28-01", temperature: 4, status: "online", lastUpdate: "2026-01-01T00:00:00.000Z" }],
+  }],
+}];
+
+const ROOT = "heater/tape/2/segment/3";
+
+function connect() {
+  const commands: SegmentCommand[] = [];
+  const temperatures: number[] = [];
+  const handlers: MqttHandlers = {
+    onSensorTemperature: (_, t) => temperatures.push(t),
+    onSegmentCommand: c => commands.push(c),
+    onAuxValue: () => {},
+    onConnectionChange: () => {},
+  };
+  const bridge = createMqttBridge({ ...DEFAULT_MQTT, enabled: true }, handlers);
+  const client = fake.client!;
+  client.connected = true;
+  client.emit("connect");
+  const receive = (topic: string, payload: string) => client.emit("message", topic, Buffer.from(payload));
+  return { bridge, client, commands, temperatures, receive };
+}
+
+describe("мост MQTT", () => {
+  beforeEach(() => {
+    fake.client = null;
+  });
+
+  it("разбирает команды и отбрасывает некорректные значения", () => {
+    const { commands, temperatures, receive } = connect();
+    receive(`${ROOT}/power/set`, "abc");
+    receive(`${ROOT}/enabled/set`, "maybe");
+    receive(`${ROOT}/target/set`, "");
+    receive(`${ROOT}/mode/set`, "ON");
+    receive(`${ROOT}/sensor/28-01/temperature`, "n/a");
+    expect(commands).toEqual([]);
+    expect(temperatures).toEqual([]);
+
+    receive(`${ROOT}/power/set`, " 150.4 ");
+    receive(`${ROOT}/enabled/set`, "OFF");
+    receive(`${ROOT}/target/set`, "7.5");
+    expect(commands).toEqual([
+      { tapeId: 2, segmentId: 3, power: 100 },
+      { tapeId: 2, segmentId: 3, enabled: false },
+      { tapeId: 2, segmentId: 3, targetTemp: 7.5 },
+    ]);
+  });
+
+  it("не применяет эхо собственной команды, но принимает следующую такую же извне", () => {
+    const { bridge, client, commands, receive } = connect();
+    bridge.publishSegmentCommand({ tapeId: 2, segmentId: 3, power: 40, enabled: true });
+    expect(client.published.filter(p => p.topic.endsWith("/set")).map(p => [p.topic, p.payload])).toEqual([
+      [`${ROOT}/enabled/set`, "ON"],
+      [`${ROOT}/power/set`, "40"],
+    ]);
+
+    receive(`${ROOT}/enabled/set`, "ON");
+    receive(`${ROOT}/power/set`, "40");
+    expect(commands).toEqual([]);
+
+    receive(`${ROOT}/power/set`, "40");
+    expect(commands).toEqual([{ tapeId: 2, segmentId: 3, power: 40 }]);
+  });
+
+  it("эхо с другим значением — уже чужая команда", () => {
+    const { bridge, commands, receive } = connect();
+    bridge.publishSegmentCommand({ tapeId: 2, segmentId: 3, power: 40 });
+    receive(`${ROOT}/power/set`, "55");
+    expect(commands).toEqual([{ tapeId: 2, segmentId: 3, power: 55 }]);
+  });
+
+  it("публикует discovery с retain один раз на топологию, состояние — только при изменении", () => {
+    const { bridge, client } = connect();
+    bridge.publishState(tapes);
+    const discovery = client.published.filter(p => p.topic.startsWith("homeassistant/"));
+    expect(discovery.map(p => p.topic)).toEqual([
+      "homeassistant/climate/heater_t2_s3/config",
+      "homeassistant/switch/heater_t2_s3/config",
+      "homeassistant/sensor/heater_2801/config",
+    ]);
+    discovery.forEach(p => expect(p.options).toEqual({ qos: 1, retain: true }));
+    expect(client.published.find(p => p.topic === `${ROOT}/power`)).toMatchObject({ payload: "40", options: { retain: true } });
+
+    client.published = [];
+    bridge.publishState(tapes);
+    expect(client.published).toEqual([]);
+
+    bridge.publishState([{ ...tapes[0], segments: [{ ...tapes[0].segments[0], power: 60 }] }]);
+    expect(client.published.map(p => [p.topic, p.payload])).toEqual([[`${ROOT}/power`, "60"]]);
+
+    client.published = [];
+    bridge.publishState([{ ...tapes[0], name: "Кровля север" }]);
+    expect(client.published.filter(p => p.topic.startsWith("homeassistant/"))).toHaveLength(3);
+  });
+
+  it("после переподключения публикует discovery заново", () => {
+    const { bridge, client } = connect();
+    bridge.publishState(tapes);
+    client.published = [];
+    client.emit("connect");
+    bridge.publishState(tapes);
+    expect(client.published.filter(p => p.topic.startsWith("homeassistant/"))).toHaveLength(3);
+  });
+});
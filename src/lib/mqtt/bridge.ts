@@ -0,0 +1,146 @@
+import mqtt from "mqtt";
+import type { Tape } from "@/lib/types";
+import type { SegmentCommand } from "@/lib/controller/adapter";
+import {
+  OFF,
+  ON,
+  auxSubscription,
+  availabilityTopic,
+  commandSubscription,
+  discoveryPayloads,
+  parseAuxTopic,
+  parseCommandTopic,
+  parseSensorTopic,
+  segmentStatePayloads,
+  segmentTopic,
+  sensorSubscription,
+  type SensorTopic,
+} from "@/lib/mqtt/topics";
+
+export interface MqttSettings {
+  enabled: boolean;
+  url: string;
+  username: string;
+  password: string;
+  baseTopic: string;
+  discoveryPrefix: string;
+}
+
+export const DEFAULT_MQTT: MqttSettings = {
+  enabled: false,
+  url: "ws://localhost:9001",
+  username: "",
+  password: "",
+  baseTopic: "heater",
+  discoveryPrefix: "homeassistant",
+};
+
+export interface MqttHandlers {
+  onSensorTemperature(topic: SensorTopic, temperature: number): void;
+  onSegmentCommand(command: SegmentCommand): void;
+  onAuxValue(id: string, value: number): void;
+  onConnectionChange(connected: boolean, error?: string): void;
+}
+
+export interface MqttBridge {
+  publishSegmentCommand(command: SegmentCommand): void;
+  publishState(tapes: Tape[]): void;
+  close(): void;
+}
+
+function topologyKey(tapes: Tape[]) {
+  return tapes.map(t => `${t.id}:${t.name}:${t.segments.map(s => `${s.id}/${s.sensors.map(x => x.serial).join(",")}`).join(";")}`).join("|");
+}
+
+export function createMqttBridge(settings: MqttSettings, handlers: MqttHandlers): MqttBridge {
+  const base = settings.baseTopic.replace(/\/+$/, "");
+  const status = availabilityTopic(base);
+  const client = mqtt.connect(settings.url, {
+    username: settings.username || undefined,
+    password: settings.password || undefined,
+    reconnectPeriod: 5000,
+    will: { topic: status, payload: "offline", qos: 1, retain: true },
+  });
+  // Последние опубликованные значения: состояние шлём только при изменении
+  const published = new Map<string, string>();
+  let discoveryKey = "";
+  // Команды, которые панель отправила сама: брокер вернёт их по той же подписке на /set
+  const sentCommands = new Map<string, string>();
+
+  client.on("connect", () => {
+    published.clear();
+    discoveryKey = "";
+    sentCommands.clear();
+    client.publish(status, "online", { qos: 1, retain: true });
+    client.subscribe([sensorSubscription(base), auxSubscription(base), commandSubscription(base)], { qos: 0 });
+    handlers.onConnectionChange(true);
+  });
+  client.on("close", () => handlers.onConnectionChange(false));
+  client.on("error", e => handlers.onConnectionChange(false, e.message));
+
+  client.on("message", (topic, payload) => {
+    const text = payload.toString().trim();
+    const sensor = parseSensorTopic(base, topic);
+    if (sensor) {
+      const temperature = parseFloat(text);
+      if (!isNaN(temperature)) handlers.onSensorTemperature(sensor, temperature);
+      return;
+    }
+    const auxId = parseAuxTopic(base, topic);
+    if (auxId) {
+      const value = parseFloat(text);
+      if (!isNaN(value)) handlers.onAuxValue(auxId, value);
+      return;
+    }
+    const command = parseCommandTopic(base, topic);
+    if (!command) return;
+    // Эхо собственной команды не применяем повторно
+    if (sentCommands.get(topic) === text) {
+      sentCommands.delete(topic);
+      return;
+    }
+    const { tapeId, segmentId } = command;
+    if (command.field === "enabled" && (text === ON || text === OFF)) {
+      handlers.onSegmentCommand({ tapeId, segmentId, enabled: text === ON });
+    } else if (command.field === "power" && !isNaN(parseFloat(text))) {
+      handlers.onSegmentCommand({ tapeId, segmentId, power: Math.min(100, Math.max(0, Math.round(parseFloat(text)))) });
+    } else if (command.field === "target" && !isNaN(parseFloat(text))) {
+      handlers.onSegmentCommand({ tapeId, segmentId, targetTemp: parseFloat(text) });
+    }
+  });
+
+  const publishRetained = (topic: string, payload: string) => {
+    if (published.get(topic) === payload) return;
+    published.set(topic, payload);
+    client.publish(topic, payload, { qos: 0, retain: true });
+  };
+
+  return {
+    publishSegmentCommand({ tapeId, segmentId, enabled, power, targetTemp }) {
+      if (!client.connected) return;
+      const root = segmentTopic(base, tapeId, segmentId);
+      const send = (topic: string, payload: string) => {
+        sentCommands.set(topic, payload);
+        client.publish(topic, payload, { qos: 1 });
+      };
+      if (enabled !== undefined) send(`${root}/enabled/set`, enabled ? ON : OFF);
+      if (power !== undefined) send(`${root}/power/set`, String(power));
+      if (targetTemp !== undefined) send(`${root}/target/set`, String(targetTemp));
+    },
+    publishState(tapes) {
+      if (!client.connected) return;
+      const key = topologyKey(tapes);
+      if (key !== discoveryKey) {
+        discoveryKey = key;
+        discoveryPayloads(base, settings.discoveryPrefix, tapes).forEach(([topic, config]) =>
+          client.publish(topic, JSON.stringify(config), { qos: 1, retain: true }));
+      }
+      tapes.forEach(tape => tape.segments.forEach(seg =>
+        segmentStatePayloads(base, tape.id, seg).forEach(([topic, payload]) => publishRetained(topic, payload))));
+    },
+    close() {
+      if (client.connected) client.publish(status, "offline", { qos: 1, retain: true });
+      client.end();
+    },
+  };
+}
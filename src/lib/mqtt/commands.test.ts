@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import type { Segment, Tape } from "@/lib/types";
+import { DEFAULT_SAFETY } from "@/lib/safety";
+import { createSoftStart } from "@/lib/soft-start";
+import { planMqttCommand, type MqttCommandContext } from "@/lib/mqtt/commands";
+
+function makeTape(patch: Partial<Segment> = {}): Tape {
+  return {
+    id: 1,
+    name: "Кровля",
+    coordinates: "",
+    contractNumber: "",
+    length: "20",
+    width: "",
+    enabled: true,
+    segments: [{
+      id: 10,
+      name: "Сегмент 1",
+      enabled: true,
+      power: 0,
+      temperature: 2,
+      targetTemp: 5,
+      sensorId: "T1",
+      sensors: [{ id: "T1", serial: "28-01", temperature: 2, status: "online", lastUpdate: "2026-01-01T00:00:00.000Z" }],
+      ...patch,
+    }],
+  };
+}
+
+const running: MqttCommandContext = { systemOn: true, safety: DEFAULT_SAFETY, softStart: null };
+
+describe("planMqttCommand", () => {
+  it("применяет мощность, когда система включена", () => {
+    const plan = planMqttCommand([makeTape()], { tapeId: 1, segmentId: 10, power: 60 }, running);
+    expect(plan?.command).toEqual({ tapeId: 1, segmentId: 10, power: 60 });
+    expect(plan?.powerIgnored).toBe(false);
+  });
+
+  it("игнорирует мощность, пока система выключена", () => {
+    const plan = planMqttCommand([makeTape()], { tapeId: 1, segmentId: 10, power: 60, targetTemp: 7 }, { ...running, systemOn: false });
+    expect(plan?.command).toEqual({ tapeId: 1, segmentId: 10, targetTemp: 7 });
+    expect(plan?.powerIgnored).toBe(true);
+  });
+
+  it("откладывает мощность сегмента из очереди плавного пуска до его пуска", () => {
+    const tapes = [makeTape()];
+    const softStart = createSoftStart(tapes, [{ tapeId: 1, segmentId: 10 }], "тест", 0);
+    const plan = planMqttCommand(tapes, { tapeId: 1, segmentId: 10, power: 80 }, { ...running, softStart });
+    expect(plan?.command.power).toBeUndefined();
+    expect(plan?.heldPower).toBe(80);
+  });
+
+  it("отклоняет мощность и включение в аварии и на обслуживании", () => {
+    const fault = { reason: "overheat" as const, message: "", trippedAt: "2026-01-01T00:00:00.000Z", lockout: false };
+    const faulted = planMqttCommand([makeTape({ enabled: false, fault })], { tapeId: 1, segmentId: 10, enabled: true, power: 50 }, running);
+    expect(faulted?.command).toEqual({ tapeId: 1, segmentId: 10 });
+    expect(faulted?.rejected).toEqual(["enable", "power"]);
+
+    const serviced = planMqttCommand([makeTape({ enabled: false, maintenance: true })], { tapeId: 1, segmentId: 10, power: 50 }, running);
+    expect(serviced?.rejected).toEqual(["power"]);
+  });
+
+  it("повтор текущего состояния не проверяется автоматом", () => {
+    const plan = planMqttCommand([makeTape({ enabled: false, maintenance: true })], { tapeId: 1, segmentId: 10, enabled: false }, running);
+    expect(plan?.command.enabled).toBe(false);
+    expect(plan?.rejected).toEqual([]);
+  });
+
+  it("не знает чужих сегментов", () => {
+    expect(planMqttCommand([makeTape()], { tapeId: 1, segmentId: 99, power: 10 }, running)).toBeNull();
+  });
+});
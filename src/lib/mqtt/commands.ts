@@ -0,0 +1,53 @@
+import type { Tape } from "@/lib/types";
+import type { SegmentCommand } from "@/lib/controller/adapter";
+import type { SafetySettings } from "@/lib/safety";
+import { commandTarget, deriveSegmentState, type SegmentCommandKind, type SegmentState } from "@/lib/segment-state";
+import { isHeld, type SoftStartState } from "@/lib/soft-start";
+
+export interface MqttCommandContext {
+  systemOn: boolean;
+  safety: SafetySettings;
+  softStart: SoftStartState | null;
+}
+
+export interface MqttCommandPlan {
+  // Поля, которые применяются сразу: уходят на контроллер и в состояние
+  command: SegmentCommand;
+  state: SegmentState;
+  // Команды, недоступные в текущем состоянии сегмента
+  rejected: SegmentCommandKind[];
+  // Мощность отброшена: система выключена
+  powerIgnored: boolean;
+  // Мощность сегмента из очереди плавного пуска — запоминается до его пуска
+  heldPower: number | null;
+}
+
+// Команда брокера проходит те же проверки, что и команда оператора: автомат состояний
+// сегмента, выключенная система и удержание плавным пуском
+export function planMqttCommand(tapes: Tape[], command: SegmentCommand, context: MqttCommandContext): MqttCommandPlan | null {
+  const { tapeId, segmentId, enabled, power, targetTemp } = command;
+  const tape = tapes.find(t => t.id === tapeId);
+  const seg = tape?.segments.find(s => s.id === segmentId);
+  if (!tape || !seg) return null;
+
+  const state = deriveSegmentState(tape, seg, context.safety, context.systemOn);
+  const next: SegmentCommand = { tapeId, segmentId };
+  const rejected: SegmentCommandKind[] = [];
+  let powerIgnored = false;
+  let heldPower: number | null = null;
+
+  if (enabled !== undefined) {
+    const kind = enabled ? "enable" : "disable";
+    if (enabled === seg.enabled || commandTarget(state, kind)) next.enabled = enabled;
+    else rejected.push(kind);
+  }
+  if (power !== undefined) {
+    if (!commandTarget(state, "power")) rejected.push("power");
+    else if (!context.systemOn) powerIgnored = true;
+    else if (isHeld(context.softStart, segmentId)) heldPower = power;
+    else next.power = power;
+  }
+  if (targetTemp !== undefined) next.targetTemp = targetTemp;
+
+  return { command: next, state, rejected, powerIgnored, heldPower };
+}
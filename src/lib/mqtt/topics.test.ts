@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import type { Segment, Tape } from "@/lib/types";
+import {
+  auxSubscription,
+  auxValueTopic,
+  availabilityTopic,
+  commandSubscription,
+  discoveryPayloads,
+  parseAuxTopic,
+  parseCommandTopic,
+  parseSensorTopic,
+  segmentStatePayloads,
+  segmentTopic,
+  sensorSubscription,
+  sensorTemperatureTopic,
+} from "@/lib/mqtt/topics";
+
+const segment: Segment = {
+  id: 3,
+  name: "Сегмент 3",
+  enabled: true,
+  power: 60,
+  temperature: 4.26,
+  targetTemp: 5,
+  sensorId: "T1",
+  sensors: [{ id: "T1", serial: "28-FF-01", temperature: 4.2, status: "online", lastUpdate: "2026-01-01T00:00:00.000Z" }],
+};
+
+const tape: Tape = {
+  id: 2,
+  name: "Кровля",
+  coordinates: "",
+  contractNumber: "",
+  length: "20",
+  width: "",
+  segments: [segment],
+  enabled: true,
+};
+
+describe("топики", () => {
+  it("строятся от базового топика", () => {
+    expect(availabilityTopic("heater")).toBe("heater/status");
+    expect(segmentTopic("heater", 2, 3)).toBe("heater/tape/2/segment/3");
+    expect(sensorTemperatureTopic("heater", 2, 3, "28-FF-01")).toBe("heater/tape/2/segment/3/sensor/28-FF-01/temperature");
+    expect(auxValueTopic("heater", "air")).toBe("heater/aux/air/value");
+  });
+
+  it("подписки покрывают построенные топики", () => {
+    expect(sensorSubscription("heater")).toBe("heater/tape/+/segment/+/sensor/+/temperature");
+    expect(auxSubscription("heater")).toBe("heater/aux/+/value");
+    expect(commandSubscription("heater")).toBe("heater/tape/+/segment/+/+/set");
+  });
+
+  it("разбирает топик датчика", () => {
+    expect(parseSensorTopic("heater", sensorTemperatureTopic("heater", 2, 3, "28-FF-01"))).toEqual({ tapeId: 2, segmentId: 3, serial: "28-FF-01" });
+    expect(parseSensorTopic("heater", "heater/tape/x/segment/3/sensor/28-FF-01/temperature")).toBeNull();
+    expect(parseSensorTopic("other", sensorTemperatureTopic("heater", 2, 3, "28-FF-01"))).toBeNull();
+  });
+
+  it("разбирает топик вспомогательного датчика", () => {
+    expect(parseAuxTopic("heater", auxValueTopic("heater", "air"))).toBe("air");
+    expect(parseAuxTopic("heater", "heater/aux//value")).toBeNull();
+  });
+
+  it("разбирает команды сегмента и отвергает неизвестные поля", () => {
+    expect(parseCommandTopic("heater", "heater/tape/2/segment/3/power/set")).toEqual({ tapeId: 2, segmentId: 3, field: "power" });
+    expect(parseCommandTopic("heater", "heater/tape/2/segment/3/mode/set")).toBeNull();
+    expect(parseCommandTopic("heater", "heater/tape/2/segment/3/power")).toBeNull();
+  });
+});
+
+describe("состояние сегмента", () => {
+  it("публикует включение, мощность, уставку и температуру с одним знаком", () => {
+    expect(segmentStatePayloads("heater", 2, segment)).toEqual([
+      ["heater/tape/2/segment/3/enabled", "ON"],
+      ["heater/tape/2/segment/3/power", "60"],
+      ["heater/tape/2/segment/3/target", "5"],
+      ["heater/tape/2/segment/3/temperature", "4.3"],
+    ]);
+  });
+});
+
+describe("discovery Home Assistant", () => {
+  const payloads = discoveryPayloads("heater", "homeassistant", [tape]);
+  const byTopic = new Map(payloads);
+
+  it("создаёт climate и switch на сегмент и sensor на датчик", () => {
+    expect(payloads.map(([topic]) => topic)).toEqual([
+      "homeassistant/climate/heater_t2_s3/config",
+      "homeassistant/switch/heater_t2_s3/config",
+      "homeassistant/sensor/heater_28FF01/config",
+    ]);
+  });
+
+  it("ведёт команды в топики /set, которые разбирает мост", () => {
+    const climate = byTopic.get("homeassistant/climate/heater_t2_s3/config")!;
+    const switchConfig = byTopic.get("homeassistant/switch/heater_t2_s3/config")!;
+    expect(parseCommandTopic("heater", climate.temperature_command_topic as string)).toEqual({ tapeId: 2, segmentId: 3, field: "target" });
+    expect(parseCommandTopic("heater", switchConfig.command_topic as string)).toEqual({ tapeId: 2, segmentId: 3, field: "enabled" });
+  });
+
+  it("привязывает все сущности к доступности и устройству ленты", () => {
+    payloads.forEach(([, config]) => {
+      expect(config.availability_topic).toBe("heater/status");
+      expect(config.device).toMatchObject({ identifiers: ["heater_tape_2"], name: "Кровля" });
+    });
+    expect(byTopic.get("homeassistant/sensor/heater_28FF01/config")!.state_topic).toBe(sensorTemperatureTopic("heater", 2, 3, "28-FF-01"));
+  });
+});
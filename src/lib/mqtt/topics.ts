@@ -0,0 +1,148 @@
+import type { Segment, Tape } from "@/lib/types";
+
+export type SegmentField = "enabled" | "power" | "target";
+
+export interface SensorTopic {
+  tapeId: number;
+  segmentId: number;
+  serial: string;
+}
+
+export interface SegmentCommandTopic {
+  tapeId: number;
+  segmentId: number;
+  field: SegmentField;
+}
+
+export const ON = "ON";
+export const OFF = "OFF";
+
+export function availabilityTopic(base: string) {
+  return `${base}/status`;
+}
+
+export function segmentTopic(base: string, tapeId: number, segmentId: number) {
+  return `${base}/tape/${tapeId}/segment/${segmentId}`;
+}
+
+export function sensorTemperatureTopic(base: string, tapeId: number, segmentId: number, serial: string) {
+  return `${segmentTopic(base, tapeId, segmentId)}/sensor/${serial}/temperature`;
+}
+
+export function sensorSubscription(base: string) {
+  return `${base}/tape/+/segment/+/sensor/+/temperature`;
+}
+
+// Вспомогательные датчики (воздух, осадки, ток, утечка) публикуют значение по своему идентификатору
+export function auxValueTopic(base: string, id: string) {
+  return `${base}/aux/${id}/value`;
+}
+
+export function auxSubscription(base: string) {
+  return `${base}/aux/+/value`;
+}
+
+export function commandSubscription(base: string) {
+  return `${base}/tape/+/segment/+/+/set`;
+}
+
+function splitBase(base: string, topic: string): string[] | null {
+  if (!topic.startsWith(`${base}/`)) return null;
+  return topic.slice(base.length + 1).split("/");
+}
+
+export function parseSensorTopic(base: string, topic: string): SensorTopic | null {
+  const parts = splitBase(base, topic);
+  if (!parts || parts.length !== 7) return null;
+  const [tapeKey, tapeId, segKey, segmentId, sensorKey, serial, leaf] = parts;
+  if (tapeKey !== "tape" || segKey !== "segment" || sensorKey !== "sensor" || leaf !== "temperature") return null;
+  if (!/^\d+$/.test(tapeId) || !/^\d+$/.test(segmentId)) return null;
+  return { tapeId: Number(tapeId), segmentId: Number(segmentId), serial };
+}
+
+export function parseAuxTopic(base: string, topic: string): string | null {
+  const parts = splitBase(base, topic);
+  if (!parts || parts.length !== 3) return null;
+  const [auxKey, id, leaf] = parts;
+  return auxKey === "aux" && leaf === "value" && id ? id : null;
+}
+
+export function parseCommandTopic(base: string, topic: string): SegmentCommandTopic | null {
+  const parts = splitBase(base, topic);
+  if (!parts || parts.length !== 6) return null;
+  const [tapeKey, tapeId, segKey, segmentId, field, leaf] = parts;
+  if (tapeKey !== "tape" || segKey !== "segment" || leaf !== "set") return null;
+  if (field !== "enabled" && field !== "power" && field !== "target") return null;
+  if (!/^\d+$/.test(tapeId) || !/^\d+$/.test(segmentId)) return null;
+  return { tapeId: Number(tapeId), segmentId: Number(segmentId), field };
+}
+
+export function segmentStatePayloads(base: string, tapeId: number, seg: Segment): [string, string][] {
+  const root = segmentTopic(base, tapeId, seg.id);
+  return [
+    [`${root}/enabled`, seg.enabled ? ON : OFF],
+    [`${root}/power`, String(seg.power)],
+    [`${root}/target`, String(seg.targetTemp)],
+    [`${root}/temperature`, seg.temperature.toFixed(1)],
+  ];
+}
+
+// Discovery Home Assistant: сегмент — climate (off/heat + уставка) и switch, датчик — sensor
+export function discoveryPayloads(base: string, prefix: string, tapes: Tape[]): [string, Record<string, unknown>][] {
+  const availability = { availability_topic: availabilityTopic(base), payload_available: "online", payload_not_available: "offline" };
+  return tapes.flatMap(tape => {
+    const device = {
+      identifiers: [`heater_tape_${tape.id}`],
+      name: tape.name,
+      manufacturer: "Heater Tape Control",
+      model: "ESP32-S3",
+    };
+    return tape.segments.flatMap(seg => {
+      const root = segmentTopic(base, tape.id, seg.id);
+      const id = `heater_t${tape.id}_s${seg.id}`;
+      const entries: [string, Record<string, unknown>][] = [
+        [`${prefix}/climate/${id}/config`, {
+          ...availability,
+          name: seg.name,
+          unique_id: `${id}_climate`,
+          device,
+          modes: ["off", "heat"],
+          mode_state_topic: `${root}/enabled`,
+          mode_state_template: `{{ 'heat' if value == '${ON}' else 'off' }}`,
+          mode_command_topic: `${root}/enabled/set`,
+          mode_command_template: `{{ '${ON}' if value == 'heat' else '${OFF}' }}`,
+          current_temperature_topic: `${root}/temperature`,
+          temperature_state_topic: `${root}/target`,
+          temperature_command_topic: `${root}/target/set`,
+          min_temp: -10,
+          max_temp: 30,
+          temp_step: 1,
+          temperature_unit: "C",
+        }],
+        [`${prefix}/switch/${id}/config`, {
+          ...availability,
+          name: `${seg.name} — нагрев`,
+          unique_id: `${id}_switch`,
+          device,
+          state_topic: `${root}/enabled`,
+          command_topic: `${root}/enabled/set`,
+          payload_on: ON,
+          payload_off: OFF,
+        }],
+      ];
+      seg.sensors.forEach(sensor => {
+        entries.push([`${prefix}/sensor/heater_${sensor.serial.replace(/[^0-9A-Za-z]/g, "")}/config`, {
+          ...availability,
+          name: `${seg.name} — ${sensor.id}`,
+          unique_id: `heater_${sensor.serial}`,
+          device,
+          state_topic: sensorTemperatureTopic(base, tape.id, seg.id, sensor.serial),
+          device_class: "temperature",
+          unit_of_measurement: "°C",
+          state_class: "measurement",
+        }]);
+      });
+      return entries;
+    });
+  });
+}
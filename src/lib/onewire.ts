@@ -0,0 +1,226 @@
+import type { Sensor, SensorHistoryEntry, Tape } from "@/lib/types";
+import { aggregateSegment } from "@/lib/aggregation";
+
+// Код семейства DS18B20 — первый байт ROM
+export const DS18B20_FAMILY = 0x28;
+
+const ROM_BYTES = 8;
+
+export type RomIssue = "format" | "family" | "crc";
+
+export const ROM_ISSUE_LABELS: Record<RomIssue, string> = {
+  format: "не ROM-код",
+  family: "не DS18B20",
+  crc: "ошибка CRC",
+};
+
+export interface RomCode {
+  rom: string;
+  serial: string;
+  issue?: RomIssue;
+}
+
+export interface SensorPlace {
+  tapeId: number;
+  segmentId: number;
+  sensorId: string;
+}
+
+export interface DiscoveredSensor extends RomCode {
+  place?: SensorPlace;
+  retired?: boolean;
+}
+
+export interface RetiredSensor {
+  serial: string;
+  sensorId: string;
+  retiredAt: string;
+  replacedBy: string;
+}
+
+export interface ScanAnalysis {
+  discovered: DiscoveredSensor[];
+  unassigned: DiscoveredSensor[];
+  invalid: DiscoveredSensor[];
+  missing: (SensorPlace & { serial: string })[];
+}
+
+export interface DuplicateSerial {
+  serial: string;
+  places: SensorPlace[];
+}
+
+function hex(byte: number) {
+  return byte.toString(16).toUpperCase().padStart(2, "0");
+}
+
+// CRC-8 Dallas/Maxim: полином x^8 + x^5 + x^4 + 1, младшим битом вперёд
+export function crc8(bytes: number[]) {
+  let crc = 0;
+  bytes.forEach(byte => {
+    let b = byte;
+    for (let i = 0; i < 8; i++) {
+      const mix = (crc ^ b) & 1;
+      crc >>= 1;
+      if (mix) crc ^= 0x8c;
+      b >>= 1;
+    }
+  });
+  return crc;
+}
+
+// ROM = семейство, 6 байт серийного номера, CRC; серийный номер пишем как 28-XXXXXXXXXXXX
+export function parseRomCode(input: string): RomCode {
+  const digits = input.replace(/[\s:-]/g, "").toUpperCase();
+  if (!/^[0-9A-F]+$/.test(digits) || digits.length !== ROM_BYTES * 2) {
+    return { rom: input.trim(), serial: input.trim(), issue: "format" };
+  }
+  const bytes = Array.from({ length: ROM_BYTES }, (_, i) => parseInt(digits.slice(i * 2, i * 2 + 2), 16));
+  const serial = `${hex(bytes[0])}-${bytes.slice(1, 7).map(hex).join("")}`;
+  const issue = bytes[0] !== DS18B20_FAMILY ? "family" : crc8(bytes.slice(0, 7)) !== bytes[7] ? "crc" : undefined;
+  return { rom: digits, serial, issue };
+}
+
+export function romFromSerial(serial: string) {
+  const digits = serial.replace(/-/g, "");
+  const bytes = Array.from({ length: ROM_BYTES - 1 }, (_, i) => parseInt(digits.slice(i * 2, i * 2 + 2), 16) || 0);
+  return [...bytes, crc8(bytes)].map(hex).join("");
+}
+
+export function randomSerial() {
+  const bytes = Array.from({ length: 6 }, () => Math.floor(Math.random() * 256));
+  return `${hex(DS18B20_FAMILY)}-${bytes.map(hex).join("")}`;
+}
+
+export function sensorPlaces(tapes: Tape[]): Map<string, SensorPlace[]> {
+  const places = new Map<string, SensorPlace[]>();
+  tapes.forEach(tape => tape.segments.forEach(seg => seg.sensors.forEach(sensor => {
+    const list = places.get(sensor.serial) ?? [];
+    list.push({ tapeId: tape.id, segmentId: seg.id, sensorId: sensor.id });
+    places.set(sensor.serial, list);
+  })));
+  return places;
+}
+
+export function findDuplicateSerials(tapes: Tape[]): DuplicateSerial[] {
+  return [...sensorPlaces(tapes)].filter(([, places]) => places.length > 1).map(([serial, places]) => ({ serial, places }));
+}
+
+// Сверяет ответ сканирования с конфигурацией: что на шине, но не привязано, и что привязано, но не ответило
+export function analyzeScan(roms: string[], tapes: Tape[], retired: RetiredSensor[] = []): ScanAnalysis {
+  const places = sensorPlaces(tapes);
+  const retiredSerials = new Set(retired.map(r => r.serial));
+  const seen = new Set<string>();
+  const discovered: DiscoveredSensor[] = [];
+  roms.forEach(input => {
+    const code = parseRomCode(input);
+    if (seen.has(code.rom)) return;
+    seen.add(code.rom);
+    if (code.issue) discovered.push(code);
+    else discovered.push({ ...code, place: places.get(code.serial)?.[0], retired: retiredSerials.has(code.serial) || undefined });
+  });
+  const found = new Set(discovered.filter(d => !d.issue).map(d => d.serial));
+  const missing = [...places].filter(([serial]) => !found.has(serial)).flatMap(([serial, list]) => list.map(p => ({ ...p, serial })));
+  return {
+    discovered,
+    unassigned: discovered.filter(d => !d.issue && !d.place && !d.retired),
+    invalid: discovered.filter(d => d.issue),
+    missing,
+  };
+}
+
+function nextSensorId(segmentId: number, sensors: Sensor[]) {
+  const used = new Set(sensors.map(s => s.id));
+  for (let n = 1; ; n++) {
+    const id = `DS18B20-${String(segmentId).padStart(2, "0")}${String(n).padStart(2, "0")}`;
+    if (!used.has(id)) return id;
+  }
+}
+
+function withHistory(sensor: Sensor, entry: SensorHistoryEntry): Sensor {
+  return { ...sensor, history: [...(sensor.history ?? []), entry] };
+}
+
+// Привязывает датчик к сегменту; уже привязанный в другом месте переносится вместе с калибровкой.
+// До первого чтения новый датчик считается устаревшим.
+export function bindSensor(tapes: Tape[], serial: string, tapeId: number, segmentId: number, now = new Date()): Tape[] {
+  const current = tapes.flatMap(t => t.segments).find(seg => seg.sensors.some(s => s.serial === serial));
+  if (current?.id === segmentId) return tapes;
+  const existing = current?.sensors.find(s => s.serial === serial);
+  return tapes.map(tape => {
+    const touched = tape.segments.some(seg => seg.id === current?.id || (tape.id === tapeId && seg.id === segmentId));
+    if (!touched) return tape;
+    const segments = tape.segments.map(seg => {
+      if (seg.id === current?.id) return aggregateSegment({ ...seg, sensors: seg.sensors.filter(s => s.serial !== serial) });
+      if (tape.id !== tapeId || seg.id !== segmentId) return seg;
+      const id = nextSensorId(seg.id, seg.sensors);
+      const timestamp = now.toISOString();
+      const sensor: Sensor = existing
+        ? withHistory({ ...existing, id, outlier: false, position: undefined }, { timestamp, event: "moved", serial, note: `${current?.name} → ${seg.name}` })
+        : withHistory({ id, serial, temperature: seg.temperature, status: "stale", lastUpdate: "" }, { timestamp, event: "installed", serial });
+      return aggregateSegment({ ...seg, sensors: [...seg.sensors, sensor] });
+    });
+    return { ...tape, segments };
+  });
+}
+
+// Принимает полный ROM-код (с проверкой CRC) или серийный номер вида 28-XXXXXXXXXXXX
+export function normalizeSerial(input: string): RomCode {
+  const text = input.trim().toUpperCase();
+  const short = text.match(/^([0-9A-F]{2})-([0-9A-F]{12})$/);
+  if (!short) return parseRomCode(text);
+  return { rom: romFromSerial(text), serial: text, issue: parseInt(short[1], 16) !== DS18B20_FAMILY ? "family" : undefined };
+}
+
+export function validateReplacement(input: string, tapes: Tape[], retired: RetiredSensor[]): { serial: string } | { error: string } {
+  const code = normalizeSerial(input);
+  if (code.issue) return { error: `Серийный номер отклонён: ${ROM_ISSUE_LABELS[code.issue]}` };
+  if (sensorPlaces(tapes).has(code.serial)) return { error: `${code.serial} уже привязан к другому датчику` };
+  if (retired.some(r => r.serial === code.serial)) return { error: `${code.serial} списан — повторная установка не допускается` };
+  return { serial: code.serial };
+}
+
+// Замена физического датчика: логический ID, место в сегменте и калибровка остаются,
+// счётчики качества начинаются заново, а до первого чтения датчик считается устаревшим
+export function replaceSensor(tapes: Tape[], segmentId: number, sensorId: string, serial: string, note: string, now = new Date()): { tapes: Tape[]; retired: RetiredSensor | null } {
+  let retired: RetiredSensor | null = null;
+  const timestamp = now.toISOString();
+  const next = tapes.map(tape => {
+    if (!tape.segments.some(seg => seg.id === segmentId)) return tape;
+    const segments = tape.segments.map(seg => {
+      if (seg.id !== segmentId) return seg;
+      const sensors = seg.sensors.map(sensor => {
+        if (sensor.id !== sensorId) return sensor;
+        retired = { serial: sensor.serial, sensorId, retiredAt: timestamp, replacedBy: serial };
+        const fresh: Sensor = {
+          id: sensor.id,
+          serial,
+          temperature: sensor.temperature,
+          status: "stale",
+          lastUpdate: "",
+          calibration: sensor.calibration,
+          history: sensor.history,
+          position: sensor.position,
+        };
+        return withHistory(fresh, { timestamp, event: "replaced", serial, previousSerial: sensor.serial, note: note || undefined });
+      });
+      return aggregateSegment({ ...seg, sensors });
+    });
+    return { ...tape, segments };
+  });
+  return { tapes: retired ? next : tapes, retired };
+}
+
+// Ответ шины в офлайн-режиме: все привязанные датчики на связи плюс запасные, ещё не привязанные
+export function simulateBusScan(tapes: Tape[], spares: string[]): string[] {
+  const bound = tapes.flatMap(t => t.segments.flatMap(seg => seg.sensors
+    .filter(s => s.status !== "offline" && s.status !== "error")
+    .map(s => romFromSerial(s.serial))));
+  return [...bound, ...spares];
+}
+
+// Два исправных запасных датчика и один с битым CRC — чтобы было что показать в мастере привязки
+export function createSpareRoms() {
+  const broken = romFromSerial(randomSerial());
+  return [romFromSerial(randomSerial()), romFromSerial(randomSerial()), `${broken.slice(0, 14)}${hex(parseInt(broken.slice(14), 16) ^ 0xff)}`];
+}
@@ -0,0 +1,92 @@
+import type { Segment, Tape } from "@/lib/types";
+import { DEFAULT_PRODUCT_ID, findProduct, tapeProduct, wattsPerMeterAt } from "@/lib/cable-catalog";
+
+// Допуск на сумму длин сегментов, м
+const LENGTH_TOLERANCE = 0.05;
+
+export interface Electrics {
+  // Паспортная мощность при +10°C и 100%, Вт
+  ratedW: number;
+  // Текущая мощность с учётом температуры сегмента, включения и уставки, Вт
+  watts: number;
+  ratedCurrentA: number;
+  currentA: number;
+  // Сопротивление при номинальной мощности; для нескольких сегментов — параллельное
+  resistance: number | null;
+}
+
+function round2(v: number) {
+  return Math.round(v * 100) / 100;
+}
+
+export function tapeLength(tape: Tape) {
+  return parseFloat(tape.length) || 0;
+}
+
+export function segmentLength(tape: Tape, seg: Segment) {
+  if (seg.length !== undefined) return seg.length;
+  return tape.segments.length > 0 ? tapeLength(tape) / tape.segments.length : 0;
+}
+
+// Длины сегментов подгоняются под длину ленты с сохранением пропорций; остаток округления — последнему
+export function fitSegmentLengths(tape: Tape): Tape {
+  const length = tapeLength(tape);
+  if (length <= 0 || tape.segments.length === 0) return tape;
+  const current = tape.segments.map(s => segmentLength(tape, s));
+  const total = current.reduce((a, v) => a + v, 0);
+  const lengths = current.map(v => total > 0 ? round2((v * length) / total) : round2(length / current.length));
+  lengths[lengths.length - 1] = round2(length - lengths.slice(0, -1).reduce((a, v) => a + v, 0));
+  if (tape.segments.every((s, i) => s.length === lengths[i])) return tape;
+  return { ...tape, segments: tape.segments.map((s, i) => ({ ...s, length: lengths[i] })) };
+}
+
+export function withSegmentLengths(tape: Tape): Tape {
+  return tape.segments.every(s => s.length !== undefined) ? tape : fitSegmentLengths(tape);
+}
+
+export function segmentLengthError(tape: Tape): string | null {
+  const sum = tape.segments.reduce((a, s) => a + segmentLength(tape, s), 0);
+  const length = tapeLength(tape);
+  if (Math.abs(sum - length) <= LENGTH_TOLERANCE) return null;
+  return `Сумма длин сегментов ${round2(sum)} м не равна длине ленты ${length} м`;
+}
+
+// Выключенная система снимает питание со всех выходов — мощность считается нулевой
+export function segmentElectrics(tape: Tape, seg: Segment, systemOn = true): Electrics {
+  const product = tapeProduct(tape);
+  const length = segmentLength(tape, seg);
+  const ratedW = product.wattsAt10 * length;
+  const liveW = wattsPerMeterAt(product, seg.temperature) * length;
+  const watts = systemOn && tape.enabled && seg.enabled ? (liveW * seg.power) / 100 : 0;
+  return {
+    ratedW,
+    watts,
+    ratedCurrentA: ratedW / product.voltage,
+    currentA: watts / product.voltage,
+    resistance: ratedW > 0 ? (product.voltage * product.voltage) / ratedW : null,
+  };
+}
+
+// Сегменты ленты и ленты объекта включены параллельно: мощности и токи складываются
+function combine(parts: Electrics[], voltage: number): Electrics {
+  const ratedW = parts.reduce((a, e) => a + e.ratedW, 0);
+  return {
+    ratedW,
+    watts: parts.reduce((a, e) => a + e.watts, 0),
+    ratedCurrentA: parts.reduce((a, e) => a + e.ratedCurrentA, 0),
+    currentA: parts.reduce((a, e) => a + e.currentA, 0),
+    resistance: ratedW > 0 ? (voltage * voltage) / ratedW : null,
+  };
+}
+
+export function tapeElectrics(tape: Tape, systemOn = true): Electrics {
+  return combine(tape.segments.map(seg => segmentElectrics(tape, seg, systemOn)), tapeProduct(tape).voltage);
+}
+
+export function siteElectrics(tapes: Tape[], systemOn = true): Electrics {
+  return combine(tapes.map(t => tapeElectrics(t, systemOn)), findProduct(DEFAULT_PRODUCT_ID)!.voltage);
+}
+
+export function formatWatts(watts: number) {
+  return watts >= 1000 ? `${(watts / 1000).toFixed(2)} кВт` : `${Math.round(watts)} Вт`;
+}
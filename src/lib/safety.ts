@@ -0,0 +1,77 @@
+import type { Segment, SegmentFault, Tape } from "@/lib/types";
+import { tapeProduct } from "@/lib/cable-catalog";
+
+export interface SafetySettings {
+  maxTemp: number;
+  cutOnSensorLoss: boolean;
+  lockoutTrips: number;
+  lockoutWindowMin: number;
+}
+
+export const DEFAULT_SAFETY: SafetySettings = {
+  maxTemp: 65,
+  cutOnSensorLoss: true,
+  lockoutTrips: 3,
+  lockoutWindowMin: 60,
+};
+
+export interface SafetyTrip {
+  tapeId: number;
+  segmentId: number;
+  fault: SegmentFault;
+}
+
+// Порог перегрева не выше предельной температуры воздействия кабеля ленты
+export function tapeMaxTemp(tape: Tape, maxTemp: number) {
+  return Math.min(maxTemp, tapeProduct(tape).maxExposureTemp);
+}
+
+export function faultCondition(tape: Tape, seg: Segment, settings: SafetySettings): Omit<SegmentFault, "trippedAt"> | null {
+  const limit = tapeMaxTemp(tape, settings.maxTemp);
+  const hot = seg.sensors.filter(s => s.status === "online" && s.temperature > limit);
+  if (hot.length > 0) {
+    const hottest = hot.reduce((a, s) => (s.temperature > a.temperature ? s : a));
+    return {
+      reason: "overheat",
+      message: `датчик ${hottest.id}: ${hottest.temperature.toFixed(1)}°C > ${limit}°C`,
+    };
+  }
+  if (settings.cutOnSensorLoss && seg.sensors.length > 0 && seg.sensors.every(s => s.status !== "online")) {
+    return { reason: "sensor-loss", message: "все датчики сегмента не отвечают" };
+  }
+  return null;
+}
+
+// Супервизор не зависит от режима, термостата и интерфейса: проверяет каждый сегмент
+// и при срабатывании отключает его с защёлкой — снять её может только оператор.
+export function superviseSegments(tapes: Tape[], settings: SafetySettings, now: Date): { tapes: Tape[]; trips: SafetyTrip[] } {
+  const trips: SafetyTrip[] = [];
+  const next = tapes.map(tape => {
+    let changed = false;
+    const segments = tape.segments.map(seg => {
+      if (seg.fault || seg.maintenance) {
+        if (!seg.enabled && seg.power === 0) return seg;
+        changed = true;
+        return { ...seg, enabled: false, power: 0 };
+      }
+      // Выключенный сегмент не греет — обрыв датчиков на нём не авария
+      if (!seg.enabled || !tape.enabled) return seg;
+      const condition = faultCondition(tape, seg, settings);
+      if (!condition) return seg;
+      // Повторные срабатывания в окне переводят сегмент в блокировку
+      const windowStart = now.getTime() - settings.lockoutWindowMin * 60000;
+      const recent = [...(seg.trips ?? []).filter(t => Date.parse(t) >= windowStart), now.toISOString()];
+      const fault: SegmentFault = { ...condition, trippedAt: now.toISOString(), lockout: recent.length >= settings.lockoutTrips };
+      trips.push({ tapeId: tape.id, segmentId: seg.id, fault });
+      changed = true;
+      return { ...seg, enabled: false, power: 0, fault, trips: recent };
+    });
+    return changed ? { ...tape, segments } : tape;
+  });
+  return { tapes: next.some((t, i) => t !== tapes[i]) ? next : tapes, trips };
+}
+
+export const FAULT_LABELS: Record<SegmentFault["reason"], string> = {
+  overheat: "Перегрев",
+  "sensor-loss": "Обрыв датчиков",
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import type { Segment, Tape } from "@/lib/types";
+import { DEFAULT_SAFETY } from "@/lib/safety";
+import { commandTarget, deriveSegmentState } from "@/lib/segment-state";
+
+function makeTape(patch: Partial<Segment> = {}): Tape {
+  return {
+    id: 1,
+    name: "Кровля",
+    coordinates: "",
+    contractNumber: "",
+    length: "20",
+    width: "",
+    enabled: true,
+    segments: [{
+      id: 1,
+      name: "Сегмент 1",
+      enabled: true,
+      power: 80,
+      temperature: 2,
+      targetTemp: 5,
+      sensorId: "T1",
+      sensors: [{ id: "T1", serial: "28-01", temperature: 2, status: "online", lastUpdate: "2026-01-01T00:00:00.000Z" }],
+      ...patch,
+    }],
+  };
+}
+
+const state = (tape: Tape, systemOn: boolean) => deriveSegmentState(tape, tape.segments[0], DEFAULT_SAFETY, systemOn);
+
+describe("deriveSegmentState", () => {
+  it("показывает нагрев только при включённой системе", () => {
+    expect(state(makeTape(), true)).toBe("heating");
+    expect(state(makeTape(), false)).toBe("idle");
+  });
+
+  it("при выключенной системе сохраняет аварию, обслуживание и выключенный сегмент", () => {
+    const fault = { reason: "overheat" as const, message: "", trippedAt: "2026-01-01T00:00:00.000Z", lockout: true };
+    expect(state(makeTape({ fault }), false)).toBe("lockout");
+    expect(state(makeTape({ maintenance: true }), false)).toBe("maintenance");
+    expect(state(makeTape({ enabled: false }), false)).toBe("off");
+  });
+
+  it("разрешает выключить сегмент, пока система выключена", () => {
+    expect(commandTarget(state(makeTape(), false), "disable")).toBe("off");
+  });
+});
@@ -0,0 +1,61 @@
+import type { Segment, Tape } from "@/lib/types";
+import { tapeMaxTemp, type SafetySettings } from "@/lib/safety";
+
+export type SegmentState = "off" | "idle" | "heating" | "warning" | "fault" | "lockout" | "maintenance";
+
+export type SegmentCommandKind = "enable" | "disable" | "power" | "reset" | "maintenance-on" | "maintenance-off";
+
+export type SegmentStates = Record<number, SegmentState>;
+
+// Команды оператора допустимы только из перечисленных состояний. Переходы
+// idle ↔ heating ↔ warning и в fault/lockout задаёт телеметрия и супервизор защиты.
+const TRANSITIONS: Record<SegmentState, Partial<Record<SegmentCommandKind, SegmentState>>> = {
+  off: { enable: "idle", disable: "off", power: "off", "maintenance-on": "maintenance" },
+  idle: { disable: "off", power: "idle" },
+  heating: { disable: "off", power: "heating" },
+  warning: { disable: "off", power: "warning" },
+  fault: { reset: "off" },
+  lockout: { reset: "off" },
+  maintenance: { "maintenance-off": "off" },
+};
+
+// Запас до порога отключения, в котором сегмент уже считается в зоне внимания
+export const WARNING_MARGIN = 5;
+
+export const SEGMENT_STATE_META: Record<SegmentState, { label: string; text: string; bg: string; dot: string }> = {
+  off: { label: "ОТКЛ", text: "text-zinc-500", bg: "bg-zinc-800/50 border-zinc-700/30", dot: "bg-zinc-600" },
+  idle: { label: "ОЖИДАНИЕ", text: "text-sky-400", bg: "bg-sky-400/10 border-sky-400/30", dot: "bg-sky-400" },
+  heating: { label: "НАГРЕВ", text: "text-emerald-400", bg: "bg-emerald-400/10 border-emerald-400/30", dot: "bg-emerald-400" },
+  warning: { label: "ВНИМАНИЕ", text: "text-amber-400", bg: "bg-amber-400/10 border-amber-400/30", dot: "bg-amber-400 animate-pulse" },
+  fault: { label: "АВАРИЯ", text: "text-red-400", bg: "bg-red-400/10 border-red-400/30", dot: "bg-red-400 animate-pulse" },
+  lockout: { label: "БЛОКИРОВКА", text: "text-red-500", bg: "bg-red-500/15 border-red-500/50", dot: "bg-red-500 animate-pulse" },
+  maintenance: { label: "ОБСЛУЖ.", text: "text-violet-400", bg: "bg-violet-400/10 border-violet-400/30", dot: "bg-violet-400" },
+};
+
+export function deriveSegmentState(tape: Tape, seg: Segment, safety: SafetySettings, systemOn: boolean): SegmentState {
+  if (seg.maintenance) return "maintenance";
+  if (seg.fault) return seg.fault.lockout ? "lockout" : "fault";
+  if (!seg.enabled || !tape.enabled) return "off";
+  // Система выключена — выходы обесточены, какая бы мощность ни была запомнена
+  if (!systemOn) return "idle";
+  const online = seg.sensors.filter(s => s.status === "online");
+  const hottest = Math.max(...online.map(s => s.temperature));
+  if (online.length < seg.sensors.length || hottest >= tapeMaxTemp(tape, safety.maxTemp) - WARNING_MARGIN) return "warning";
+  return seg.power > 0 ? "heating" : "idle";
+}
+
+export function deriveSegmentStates(tapes: Tape[], safety: SafetySettings, systemOn: boolean): SegmentStates {
+  const states: SegmentStates = {};
+  tapes.forEach(tape => tape.segments.forEach(seg => {
+    states[seg.id] = deriveSegmentState(tape, seg, safety, systemOn);
+  }));
+  return states;
+}
+
+export function commandTarget(state: SegmentState, command: SegmentCommandKind): SegmentState | null {
+  return TRANSITIONS[state][command] ?? null;
+}
+
+export function isEnergized(state: SegmentState) {
+  return state === "idle" || state === "heating" || state === "warning";
+}
@@ -0,0 +1,131 @@
+import type { AuxSensor, AuxSensorKind, SensorAttachment, Tape } from "@/lib/types";
+import { STALE_POLL_FACTOR } from "@/lib/ds18b20";
+
+export type SensorScope = SensorAttachment["scope"];
+
+export interface SensorTypeSpec {
+  label: string;
+  unit: string;
+  icon: string;
+  min: number;
+  max: number;
+  decimals: number;
+  scopes: SensorScope[];
+  // Порог, выше которого показание подсвечивается: мокро, большой ток, опасная утечка
+  warnAbove?: number;
+  prefix: string;
+}
+
+export const SENSOR_TYPES: Record<AuxSensorKind, SensorTypeSpec> = {
+  ambient: { label: "Температура воздуха", unit: "°C", icon: "CloudSun", min: -55, max: 85, decimals: 1, scopes: ["site", "tape"], prefix: "AMB" },
+  moisture: { label: "Осадки / снег", unit: "%", icon: "CloudSnow", min: 0, max: 100, decimals: 0, scopes: ["site", "tape", "segment"], warnAbove: 50, prefix: "SNOW" },
+  current: { label: "Токовые клещи", unit: "А", icon: "Zap", min: 0, max: 100, decimals: 2, scopes: ["site", "tape"], prefix: "CT" },
+  leakage: { label: "Утечка (УЗО)", unit: "мА", icon: "ShieldAlert", min: 0, max: 300, decimals: 1, scopes: ["site", "tape"], warnAbove: 15, prefix: "RCD" },
+};
+
+export const SCOPE_LABELS: Record<SensorScope, string> = {
+  site: "Объект",
+  tape: "Лента",
+  segment: "Сегмент",
+};
+
+export function validateAuxValue(kind: AuxSensorKind, value: number): string | null {
+  const spec = SENSOR_TYPES[kind];
+  if (!Number.isFinite(value)) return "нечисловое показание";
+  if (value < spec.min || value > spec.max) return `вне диапазона ${spec.min}…${spec.max} ${spec.unit}`;
+  return null;
+}
+
+// Показание вне диапазона типа переводит датчик в ошибку, последнее достоверное значение сохраняется
+export function ingestAuxValue(sensor: AuxSensor, value: number | null, now: Date): AuxSensor {
+  if (value === null) return { ...sensor, status: "offline", issue: undefined };
+  const issue = validateAuxValue(sensor.kind, value);
+  if (issue) return { ...sensor, status: "error", issue };
+  const decimals = 10 ** SENSOR_TYPES[sensor.kind].decimals;
+  return { ...sensor, value: Math.round(value * decimals) / decimals, status: "online", issue: undefined, lastUpdate: now.toISOString() };
+}
+
+export function markStaleAux(sensors: AuxSensor[], now: number, pollMs: number): AuxSensor[] {
+  let changed = false;
+  const next = sensors.map(s => {
+    if (s.status !== "online") return s;
+    const updated = Date.parse(s.lastUpdate);
+    if (!isNaN(updated) && now - updated <= STALE_POLL_FACTOR * pollMs) return s;
+    changed = true;
+    return { ...s, status: "stale" as const };
+  });
+  return changed ? next : sensors;
+}
+
+export function formatAuxValue(sensor: AuxSensor) {
+  const spec = SENSOR_TYPES[sensor.kind];
+  return sensor.value === null ? "—" : `${sensor.value.toFixed(spec.decimals)} ${spec.unit}`;
+}
+
+export function isAuxWarning(sensor: AuxSensor) {
+  const limit = SENSOR_TYPES[sensor.kind].warnAbove;
+  return sensor.status === "online" && limit !== undefined && sensor.value !== null && sensor.value >= limit;
+}
+
+export function attachmentLabel(attachment: SensorAttachment, tapes: Tape[]) {
+  if (attachment.scope === "site") return SCOPE_LABELS.site;
+  const tape = tapes.find(t => t.id === attachment.tapeId);
+  const tapeName = tape?.name ?? `Лента ${attachment.tapeId}`;
+  if (attachment.scope === "tape") return tapeName;
+  const seg = tape?.segments.find(s => s.id === attachment.segmentId);
+  return `${tapeName} • ${seg?.name ?? `Сегмент ${attachment.segmentId}`}`;
+}
+
+// Привязка устарела, если её ленту или сегмент удалили
+export function attachmentExists(attachment: SensorAttachment, tapes: Tape[]) {
+  if (attachment.scope === "site") return true;
+  const tape = tapes.find(t => t.id === attachment.tapeId);
+  if (!tape) return false;
+  return attachment.scope === "tape" || tape.segments.some(s => s.id === attachment.segmentId);
+}
+
+export function nextAuxId(sensors: AuxSensor[], kind: AuxSensorKind) {
+  const prefix = SENSOR_TYPES[kind].prefix;
+  const used = new Set(sensors.map(s => s.id));
+  for (let n = 1; ; n++) {
+    const id = `${prefix}-${String(n).padStart(2, "0")}`;
+    if (!used.has(id)) return id;
+  }
+}
+
+export function createAuxSensor(sensors: AuxSensor[], kind: AuxSensorKind, name: string, attachment: SensorAttachment): AuxSensor {
+  return { id: nextAuxId(sensors, kind), kind, name: name || SENSOR_TYPES[kind].label, attachment, value: null, status: "stale", lastUpdate: "" };
+}
+
+// Комплект по умолчанию: метеостанция на объект, по токовым клещам и УЗО на каждую ленту
+export function createDefaultAuxSensors(tapes: Tape[]): AuxSensor[] {
+  let sensors: AuxSensor[] = [];
+  const add = (kind: AuxSensorKind, name: string, attachment: SensorAttachment) => {
+    sensors = [...sensors, createAuxSensor(sensors, kind, name, attachment)];
+  };
+  add("ambient", "Метеостанция", { scope: "site" });
+  add("moisture", "Датчик осадков", { scope: "site" });
+  tapes.forEach(tape => {
+    add("current", `Ток ${tape.name}`, { scope: "tape", tapeId: tape.id });
+    add("leakage", `УЗО ${tape.name}`, { scope: "tape", tapeId: tape.id });
+  });
+  return sensors;
+}
+
+// Температура воздуха для графиков и автоматики: датчик объекта важнее датчиков лент
+export function siteAmbient(sensors: AuxSensor[]): number | null {
+  const online = sensors.filter(s => s.kind === "ambient" && s.status === "online" && s.value !== null);
+  const site = online.filter(s => s.attachment.scope === "site");
+  const pool = site.length > 0 ? site : online;
+  if (pool.length === 0) return null;
+  return Math.round((pool.reduce((a, s) => a + (s.value ?? 0), 0) / pool.length) * 10) / 10;
+}
+
+// Показание для ленты: сначала её собственный датчик, затем датчик объекта
+export function auxValueFor(sensors: AuxSensor[], kind: AuxSensorKind, tapeId: number, segmentId?: number): number | null {
+  const online = sensors.filter(s => s.kind === kind && s.status === "online" && s.value !== null);
+  const pick = (match: (a: SensorAttachment) => boolean) => online.find(s => match(s.attachment))?.value ?? null;
+  return (segmentId !== undefined ? pick(a => a.scope === "segment" && a.segmentId === segmentId) : null)
+    ?? pick(a => a.scope === "tape" && a.tapeId === tapeId)
+    ?? pick(a => a.scope === "site");
+}
@@ -0,0 +1,73 @@
+import type { AuxSensor, ControlMode, SnowIceSettings, Tape } from "@/lib/types";
+import { auxValueFor } from "@/lib/sensor-types";
+
+export const DEFAULT_SNOW_ICE: SnowIceSettings = {
+  minAmbient: -15,
+  maxAmbient: 3,
+  moistureThreshold: 50,
+  afterRunMinutes: 60,
+};
+
+export const CONTROL_MODE_LABELS: Record<ControlMode, string> = {
+  thermostat: "Термостат",
+  "snow-ice": "Снег и лёд",
+};
+
+export type SnowIceReason = "no-ambient" | "no-moisture" | "too-cold" | "too-warm" | "wet" | "after-run" | "dry";
+
+export const SNOW_ICE_REASON_LABELS: Record<SnowIceReason, string> = {
+  "no-ambient": "нет датчика температуры воздуха",
+  "no-moisture": "нет датчика осадков",
+  "too-cold": "слишком холодно для таяния",
+  "too-warm": "выше окна — лёд не образуется",
+  wet: "осадки",
+  "after-run": "досушка после осадков",
+  dry: "сухо",
+};
+
+export interface SnowIceState {
+  demand: boolean;
+  reason: SnowIceReason;
+  ambient: number | null;
+  moisture: number | null;
+  afterRunUntil: number | null;
+}
+
+export function snowIceSettings(tape: Tape): SnowIceSettings {
+  return { ...DEFAULT_SNOW_ICE, ...tape.snowIce };
+}
+
+// Влажность ленты: худший из датчиков на её сегментах и на самой ленте, иначе датчик объекта
+export function tapeMoisture(sensors: AuxSensor[], tape: Tape): number | null {
+  const own = sensors.filter(s => s.kind === "moisture" && s.status === "online" && s.value !== null
+    && s.attachment.scope !== "site" && s.attachment.tapeId === tape.id);
+  if (own.length > 0) return Math.max(...own.map(s => s.value ?? 0));
+  return auxValueFor(sensors, "moisture", tape.id);
+}
+
+// Классическая логика снеготаяния: нагрев нужен, пока воздух в окне температур и есть осадки,
+// и ещё afterRunMinutes после того, как осадки закончились
+export function evaluateSnowIce(tape: Tape, sensors: AuxSensor[], prev: SnowIceState | undefined, now: number): SnowIceState {
+  const settings = snowIceSettings(tape);
+  const ambient = auxValueFor(sensors, "ambient", tape.id);
+  const moisture = tapeMoisture(sensors, tape);
+  const idle = (reason: SnowIceReason): SnowIceState => ({ demand: false, reason, ambient, moisture, afterRunUntil: null });
+
+  if (ambient === null) return idle("no-ambient");
+  if (ambient < settings.minAmbient) return idle("too-cold");
+  if (ambient > settings.maxAmbient) return idle("too-warm");
+  if (moisture !== null && moisture >= settings.moistureThreshold) {
+    return { demand: true, reason: "wet", ambient, moisture, afterRunUntil: now + settings.afterRunMinutes * 60000 };
+  }
+  if (prev?.afterRunUntil && now < prev.afterRunUntil) {
+    return { demand: true, reason: "after-run", ambient, moisture, afterRunUntil: prev.afterRunUntil };
+  }
+  return idle(moisture === null ? "no-moisture" : "dry");
+}
+
+export function validateSnowIce(settings: SnowIceSettings): string | null {
+  if (settings.minAmbient >= settings.maxAmbient) return "Нижняя граница окна должна быть ниже верхней";
+  if (settings.moistureThreshold <= 0 || settings.moistureThreshold > 100) return "Порог влажности — от 1 до 100%";
+  if (settings.afterRunMinutes < 0) return "Досушка не может быть отрицательной";
+  return null;
+}
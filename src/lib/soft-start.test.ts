@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import type { Tape } from "@/lib/types";
+import { DEFAULT_SOFT_START, createSoftStart, stepSoftStart } from "@/lib/soft-start";
+
+const tapes: Tape[] = [{
+  id: 1,
+  name: "Кровля",
+  coordinates: "",
+  contractNumber: "",
+  length: "20",
+  width: "",
+  enabled: true,
+  segments: [{ id: 1, name: "Сегмент 1", enabled: true, power: 60, temperature: 0, targetTemp: 5, sensorId: "T1", sensors: [] }],
+}];
+
+describe("stepSoftStart", () => {
+  it("без актуальной уставки выдаёт мощность, запомненную в очереди", () => {
+    const state = createSoftStart(tapes, [{ tapeId: 1, segmentId: 1 }], "тест", 0)!;
+    const step = stepSoftStart(state, tapes, [], DEFAULT_SOFT_START, 10_000);
+    expect(step.released.map(i => i.power)).toEqual([60]);
+  });
+
+  it("берёт уставку на момент пуска, а не на момент постановки в очередь", () => {
+    const state = createSoftStart(tapes, [{ tapeId: 1, segmentId: 1 }], "тест", 0)!;
+    expect(stepSoftStart(state, tapes, [], DEFAULT_SOFT_START, 10_000, () => 0).released.map(i => i.power)).toEqual([0]);
+    expect(stepSoftStart(state, tapes, [], DEFAULT_SOFT_START, 10_000, () => 35).released.map(i => i.power)).toEqual([35]);
+  });
+});
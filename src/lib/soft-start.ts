@@ -0,0 +1,242 @@
+import type { Line, Tape } from "@/lib/types";
+import { segmentLineId } from "@/lib/circuits";
+import { tapeProduct } from "@/lib/cable-catalog";
+import { COLD_START_FACTOR } from "@/lib/electrical";
+import { segmentElectrics } from "@/lib/power";
+
+export interface SoftStartSettings {
+  enabled: boolean;
+  // Минимальная пауза между пусками сегментов одной линии, с
+  stepDelaySec: number;
+  // Сколько длится пусковой ток после включения, с
+  warmupSec: number;
+  // Сколько сегмент может ждать, пока работающая нагрузка линии не освободит автомат, с
+  maxWaitSec: number;
+}
+
+export const DEFAULT_SOFT_START: SoftStartSettings = {
+  enabled: true,
+  stepDelaySec: 5,
+  warmupSec: 120,
+  maxWaitSec: 300,
+};
+
+export interface SoftStartItem {
+  tapeId: number;
+  segmentId: number;
+  // null — сегмент без линии питания, ток не ограничивается
+  lineId: number | null;
+  // Мощность, которая будет выдана при пуске, %
+  power: number;
+  // Пусковой ток при 100%, A
+  inrushA: number;
+}
+
+export interface WarmingSegment {
+  segmentId: number;
+  lineId: number | null;
+  inrushA: number;
+  startedAt: number;
+}
+
+export interface SoftStartState {
+  reason: string;
+  startedAt: number;
+  total: number;
+  // Очередь на пуск; пока сегмент в ней, его мощность удерживается на нуле
+  queue: SoftStartItem[];
+  warming: WarmingSegment[];
+  lastStart: Record<number, number>;
+  // С какого момента очередь линии стоит: пусковых токов нет, а рабочая нагрузка не даёт места
+  stalledSince: Record<number, number>;
+}
+
+export interface SoftStartStep {
+  state: SoftStartState | null;
+  released: SoftStartItem[];
+  // Сегменты, пусковой ток которых больше автомата даже на пустой линии
+  forced: SoftStartItem[];
+  // Очередь линии встала в этом шаге
+  stalled: SoftStartItem[];
+  // Сегменты, включённые принудительно после maxWaitSec ожидания
+  timedOut: SoftStartItem[];
+  // Сегменты, снятые с очереди: выключены, в аварии или на обслуживании
+  dropped: SoftStartItem[];
+}
+
+export interface SoftStartLine {
+  lineId: number;
+  name: string;
+  pending: number;
+  warming: number;
+  drawA: number;
+  limitA: number | null;
+  // Сколько секунд очередь линии стоит; null — не стоит
+  stalledSec: number | null;
+}
+
+function round(v: number, digits = 1) {
+  const k = 10 ** digits;
+  return Math.round(v * k) / k;
+}
+
+function itemInrush(item: { inrushA: number }, power = 100) {
+  return (item.inrushA * power) / 100;
+}
+
+function lineKey(lineId: number | null) {
+  return lineId ?? 0;
+}
+
+export function createSoftStart(tapes: Tape[], segments: { tapeId: number; segmentId: number }[], reason: string, now: number): SoftStartState | null {
+  const queue: SoftStartItem[] = [];
+  segments.forEach(({ tapeId, segmentId }) => {
+    const tape = tapes.find(t => t.id === tapeId);
+    const seg = tape?.segments.find(s => s.id === segmentId);
+    if (!tape || !seg) return;
+    queue.push({
+      tapeId,
+      segmentId,
+      lineId: segmentLineId(tape, seg),
+      power: seg.power,
+      inrushA: segmentElectrics(tape, seg).ratedCurrentA * COLD_START_FACTOR[tapeProduct(tape).kind],
+    });
+  });
+  if (queue.length === 0) return null;
+  return { reason, startedAt: now, total: queue.length, queue, warming: [], lastStart: {}, stalledSince: {} };
+}
+
+// Новый запуск добавляется к идущему: уже стоящие в очереди сегменты не дублируются
+export function mergeSoftStart(current: SoftStartState | null, next: SoftStartState | null): SoftStartState | null {
+  if (!current || !next) return next ?? current;
+  const queued = new Set(current.queue.map(i => i.segmentId));
+  const added = next.queue.filter(i => !queued.has(i.segmentId));
+  return { ...current, total: current.total + added.length, queue: [...current.queue, ...added] };
+}
+
+export function isHeld(state: SoftStartState | null, segmentId: number) {
+  return Boolean(state?.queue.some(i => i.segmentId === segmentId));
+}
+
+export function cancelSoftStart(state: SoftStartState | null, segmentIds: number[]): SoftStartState | null {
+  if (!state || !state.queue.some(i => segmentIds.includes(i.segmentId))) return state;
+  const queue = state.queue.filter(i => !segmentIds.includes(i.segmentId));
+  const total = state.total - (state.queue.length - queue.length);
+  return queue.length === 0 && state.warming.length === 0 ? null : { ...state, queue, total };
+}
+
+// Уставки термостата для удерживаемых сегментов не выдаются, а запоминаются до их пуска
+export function deferHeldPowers(state: SoftStartState | null, powers: Map<number, number>): { state: SoftStartState | null; powers: Map<number, number> } {
+  if (!state || ![...powers.keys()].some(id => isHeld(state, id))) return { state, powers };
+  const rest = new Map([...powers].filter(([id]) => !isHeld(state, id)));
+  const queue = state.queue.map(i => powers.has(i.segmentId) ? { ...i, power: powers.get(i.segmentId)! } : i);
+  return { state: { ...state, queue }, powers: rest };
+}
+
+// Ток линии: работающие сегменты по текущей мощности, прогревающиеся — по пусковому току
+function lineDraw(state: SoftStartState, tapes: Tape[], lineId: number) {
+  const warming = state.warming.filter(w => lineKey(w.lineId) === lineId);
+  const skip = new Set([...warming.map(w => w.segmentId), ...state.queue.map(i => i.segmentId)]);
+  let draw = warming.reduce((a, w) => a + w.inrushA, 0);
+  tapes.forEach(tape => tape.segments.forEach(seg => {
+    if (skip.has(seg.id) || lineKey(segmentLineId(tape, seg)) !== lineId) return;
+    draw += segmentElectrics(tape, seg).currentA;
+  }));
+  return { draw, warming: warming.length };
+}
+
+// desiredPower — актуальная уставка сегмента на момент пуска; undefined — та, что запомнена в очереди
+export function stepSoftStart(
+  state: SoftStartState,
+  tapes: Tape[],
+  lines: Line[],
+  settings: SoftStartSettings,
+  now: number,
+  desiredPower: (item: SoftStartItem) => number | undefined = () => undefined,
+): SoftStartStep {
+  const released: SoftStartItem[] = [];
+  const forced: SoftStartItem[] = [];
+  const dropped: SoftStartItem[] = [];
+  const stalled: SoftStartItem[] = [];
+  const timedOut: SoftStartItem[] = [];
+  let warming = state.warming.filter(w => now - w.startedAt < settings.warmupSec * 1000);
+  const lastStart = { ...state.lastStart };
+  const stalledSince: Record<number, number> = {};
+
+  const queue = state.queue.filter(item => {
+    const tape = tapes.find(t => t.id === item.tapeId);
+    const seg = tape?.segments.find(s => s.id === item.segmentId);
+    const ok = tape?.enabled && seg?.enabled && !seg.fault && !seg.maintenance;
+    if (!ok) dropped.push(item);
+    return ok;
+  });
+
+  const startedLines = new Set<number>();
+  const remaining = queue.filter(queued => {
+    // Пока сегмент ждал, регулятор мог передумать — выдаём то, что нужно сейчас
+    const item = { ...queued, power: desiredPower(queued) ?? queued.power };
+    // Без нагрузки пускового тока нет — такой сегмент отпускается сразу
+    if (item.power === 0) {
+      released.push(item);
+      return false;
+    }
+    const key = lineKey(item.lineId);
+    if (startedLines.has(key)) return true;
+    // На линии пускается по одному сегменту, остальные ждут своей очереди
+    startedLines.add(key);
+    if (now - (lastStart[key] ?? 0) < settings.stepDelaySec * 1000) return true;
+    const line = lines.find(l => l.id === item.lineId);
+    const inrush = itemInrush(item, item.power);
+    if (line) {
+      const { draw, warming: warmingCount } = lineDraw({ ...state, queue, warming }, tapes, key);
+      if (draw + inrush > line.breakerA) {
+        // Пока идут пусковые токи, место освободится само
+        if (warmingCount > 0) return true;
+        if (inrush > line.breakerA) {
+          // Не влезает даже на свободную линию — пускаем в одиночку, иначе сегмент не включится никогда
+          forced.push(item);
+        } else {
+          // Место занято рабочей нагрузкой: ждём не дольше maxWaitSec, затем включаем принудительно
+          const since = state.stalledSince[key] ?? now;
+          if (state.stalledSince[key] === undefined) stalled.push(item);
+          if (now - since < settings.maxWaitSec * 1000) {
+            stalledSince[key] = since;
+            return true;
+          }
+          timedOut.push(item);
+        }
+      }
+    }
+    released.push(item);
+    lastStart[key] = now;
+    warming = [...warming, { segmentId: item.segmentId, lineId: item.lineId, inrushA: inrush, startedAt: now }];
+    return false;
+  });
+
+  const next = remaining.length === 0 && warming.length === 0
+    ? null
+    : { ...state, total: state.total - dropped.length, queue: remaining, warming, lastStart, stalledSince };
+  return { state: next, released, forced, dropped, stalled, timedOut };
+}
+
+export function softStartProgress(state: SoftStartState) {
+  const done = state.total - state.queue.length;
+  return { done, total: state.total, percent: state.total > 0 ? (done / state.total) * 100 : 100 };
+}
+
+export function softStartLines(state: SoftStartState, tapes: Tape[], lines: Line[], now: number): SoftStartLine[] {
+  const keys = new Set([...state.queue.map(i => lineKey(i.lineId)), ...state.warming.map(w => lineKey(w.lineId))]);
+  return [...keys].sort((a, b) => a - b).map(key => {
+    const line = lines.find(l => l.id === key);
+    const { draw, warming } = lineDraw(state, tapes, key);
+    return {
+      lineId: key,
+      name: line ? `${line.name} (${line.phase})` : "Без линии",
+      pending: state.queue.filter(i => lineKey(i.lineId) === key).length,
+      warming,
+      drawA: round(draw),
+      limitA: line?.breakerA ?? null,
+      stalledSec: state.stalledSince[key] !== undefined ? Math.round((now - state.stalledSince[key]) / 1000) : null,
+    };
+  });
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import type { Sensor, Tape } from "@/lib/types";
+import { fitSegmentLengths } from "@/lib/power";
+import { relayoutSensorPositions, temperatureProfile } from "@/lib/tape-profile";
+
+function sensor(id: string, position: number, temperature = 0): Sensor {
+  return { id, serial: `28-${id}`, temperature, status: "online", lastUpdate: "2026-01-01T00:00:00.000Z", position };
+}
+
+// Три сегмента по 10 м, по датчику посередине каждого
+const tape: Tape = {
+  id: 1,
+  name: "Кровля",
+  coordinates: "",
+  contractNumber: "",
+  length: "30",
+  width: "",
+  enabled: true,
+  segments: [1, 2, 3].map(id => ({
+    id,
+    name: `Сегмент ${id}`,
+    enabled: true,
+    power: 0,
+    temperature: 0,
+    targetTemp: 5,
+    sensorId: "T1",
+    length: 10,
+    sensors: [sensor(`S${id}`, id * 10 - 5)],
+  })),
+};
+
+const positions = (t: Tape) => t.segments.map(s => s.sensors[0].position);
+
+describe("relayoutSensorPositions", () => {
+  it("двигает датчики вслед за удалённым сегментом", () => {
+    const removed = relayoutSensorPositions(tape, fitSegmentLengths({ ...tape, segments: tape.segments.filter(s => s.id !== 1) }));
+    expect(positions(removed)).toEqual([7.5, 22.5]);
+    expect(temperatureProfile(removed).misplaced).toEqual([]);
+  });
+
+  it("сохраняет долю длины сегмента при изменении его длины", () => {
+    const resized = relayoutSensorPositions(tape, { ...tape, length: "40", segments: tape.segments.map(s => s.id === 2 ? { ...s, length: 20 } : s) });
+    expect(positions(resized)).toEqual([5, 20, 35]);
+  });
+
+  it("возвращает ту же ленту, если раскладка не изменилась", () => {
+    expect(relayoutSensorPositions(tape, tape)).toBe(tape);
+  });
+});
+
+describe("temperatureProfile", () => {
+  it("сообщает о датчиках вне своего сегмента, а не теряет их молча", () => {
+    const shifted: Tape = { ...tape, segments: tape.segments.map(s => s.id === 3 ? { ...s, sensors: [sensor("S3", 42)] } : s) };
+    const profile = temperatureProfile(shifted);
+    expect(profile.misplaced.map(p => [p.sensorId, p.x])).toEqual([["S3", 42]]);
+    expect(profile.points.map(p => p.sensorId)).toEqual(["S1", "S2"]);
+  });
+});
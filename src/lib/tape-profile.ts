@@ -0,0 +1,137 @@
+import type { Sensor, Tape } from "@/lib/types";
+import { segmentLength, tapeLength } from "@/lib/power";
+
+export interface ProfilePoint {
+  x: number;
+  temperature: number;
+  sensorId: string;
+  segmentId: number;
+}
+
+export interface ProfileSample {
+  x: number;
+  temperature: number;
+}
+
+export interface TemperatureProfile {
+  length: number;
+  points: ProfilePoint[];
+  samples: ProfileSample[];
+  coldest: ProfileSample | null;
+  // Датчики, позиция которых вне их сегмента; за пределами ленты в профиль не попадают
+  misplaced: ProfilePoint[];
+}
+
+const PROFILE_SAMPLES = 120;
+
+function round1(v: number) {
+  return Math.round(v * 10) / 10;
+}
+
+// Границы сегментов вдоль ленты: сегменты идут подряд от начала ленты
+export function segmentBounds(tape: Tape): { segmentId: number; start: number; end: number }[] {
+  let offset = 0;
+  return tape.segments.map(seg => {
+    const start = offset;
+    offset += segmentLength(tape, seg);
+    return { segmentId: seg.id, start: round1(start), end: round1(offset) };
+  });
+}
+
+// Без заданной позиции датчики равномерно расставлены внутри своего сегмента
+export function defaultSensorPosition(tape: Tape, segmentIndex: number, sensorIndex: number) {
+  const seg = tape.segments[segmentIndex];
+  if (!seg) return 0;
+  const start = tape.segments.slice(0, segmentIndex).reduce((a, s) => a + segmentLength(tape, s), 0);
+  const length = segmentLength(tape, seg);
+  const count = seg.sensors.length || 1;
+  return round1(start + ((sensorIndex + 0.5) * length) / count);
+}
+
+export function sensorPosition(tape: Tape, segmentIndex: number, sensor: Sensor) {
+  if (sensor.position !== undefined) return sensor.position;
+  return defaultSensorPosition(tape, segmentIndex, tape.segments[segmentIndex].sensors.indexOf(sensor));
+}
+
+export function withDefaultPositions(tape: Tape): Tape {
+  if (tape.segments.every(seg => seg.sensors.every(s => s.position !== undefined))) return tape;
+  return {
+    ...tape,
+    segments: tape.segments.map((seg, i) => ({
+      ...seg,
+      sensors: seg.sensors.map((s, j) => s.position !== undefined ? s : { ...s, position: defaultSensorPosition(tape, i, j) }),
+    })),
+  };
+}
+
+// Сегменты изменили длину или состав: датчик остаётся на той же доле длины своего сегмента
+export function relayoutSensorPositions(before: Tape, after: Tape): Tape {
+  const old = new Map(segmentBounds(before).map(b => [b.segmentId, b]));
+  const bounds = segmentBounds(after);
+  let changed = false;
+  const segments = after.segments.map((seg, i) => {
+    const from = old.get(seg.id);
+    const to = bounds[i];
+    if (!from || (from.start === to.start && from.end === to.end)) return seg;
+    changed = true;
+    return {
+      ...seg,
+      sensors: seg.sensors.map(s => {
+        if (s.position === undefined) return s;
+        const span = from.end - from.start;
+        const share = span > 0 ? (s.position - from.start) / span : 0.5;
+        return { ...s, position: round1(to.start + share * (to.end - to.start)) };
+      }),
+    };
+  });
+  return changed ? { ...after, segments } : after;
+}
+
+export function validatePosition(position: number, tape: Tape): string | null {
+  if (!Number.isFinite(position)) return "Укажите позицию в метрах";
+  if (position < 0) return "Позиция не может быть отрицательной";
+  const length = tapeLength(tape);
+  if (position > length) return `За пределами ленты: длина ${length} м`;
+  return null;
+}
+
+// Профиль строится по онлайн-датчикам без выбросов; между ними — линейная интерполяция,
+// за крайними датчиками держится их значение
+export function temperatureProfile(tape: Tape, samples = PROFILE_SAMPLES): TemperatureProfile {
+  const length = tapeLength(tape);
+  const bounds = new Map(segmentBounds(tape).map(b => [b.segmentId, b]));
+  const placed = tape.segments.flatMap((seg, i) => seg.sensors
+    .map(s => ({ sensor: s, point: { x: sensorPosition(tape, i, s), temperature: s.temperature, sensorId: s.id, segmentId: seg.id } })));
+  const misplaced = placed.map(({ point }) => point).filter(p => {
+    const b = bounds.get(p.segmentId)!;
+    return p.x < b.start || p.x > b.end;
+  });
+  const points = placed
+    .filter(({ sensor, point }) => sensor.status === "online" && !sensor.outlier && point.x >= 0 && point.x <= length)
+    .map(({ point }) => point)
+    .sort((a, b) => a.x - b.x);
+  if (points.length === 0 || length <= 0) return { length, points, samples: [], coldest: null, misplaced };
+
+  const interpolate = (x: number) => {
+    if (x <= points[0].x) return points[0].temperature;
+    const last = points[points.length - 1];
+    if (x >= last.x) return last.temperature;
+    const i = points.findIndex(p => p.x >= x);
+    const a = points[i - 1];
+    const b = points[i];
+    return b.x === a.x ? b.temperature : a.temperature + ((b.temperature - a.temperature) * (x - a.x)) / (b.x - a.x);
+  };
+
+  const grid = Array.from({ length: samples + 1 }, (_, i) => (length * i) / samples);
+  const profile = [...new Set([...grid, ...points.map(p => p.x)])]
+    .sort((a, b) => a - b)
+    .map(x => ({ x: Math.round(x * 100) / 100, temperature: round1(interpolate(x)) }));
+  const coldest = profile.reduce((min, p) => p.temperature < min.temperature ? p : min, profile[0]);
+  return { length, points, samples: profile, coldest, misplaced };
+}
+
+// Цвет по шкале: −10°C и ниже — синий, +30°C и выше — красный
+export function profileColor(temperature: number) {
+  const k = Math.min(1, Math.max(0, (temperature + 10) / 40));
+  return `hsl(${Math.round(220 - 220 * k)} 80% 50%)`;
+}
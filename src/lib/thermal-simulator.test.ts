@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import type { AuxSensor, Tape } from "@/lib/types";
+import { siteElectrics } from "@/lib/power";
+import { DEFAULT_SIMULATION, createRng, createThermalSimulator } from "@/lib/thermal-simulator";
+
+function makeTapes(power: number): Tape[] {
+  return [{
+    id: 1,
+    name: "Кровля",
+    coordinates: "",
+    contractNumber: "",
+    length: "10",
+    width: "",
+    enabled: true,
+    segments: [{
+      id: 1,
+      name: "Сегмент 1",
+      enabled: true,
+      power,
+      temperature: 0,
+      targetTemp: 5,
+      sensorId: "T1",
+      sensors: ["T1", "T2", "T3"].map((id, i) => ({ id, serial: `28-0${i}`, temperature: 0, status: "online" as const, lastUpdate: "2026-01-01T00:00:00.000Z" })),
+    }],
+  }];
+}
+
+// Показания без отметок времени — их симулятор берёт с часов
+function readings(tapes: Tape[]) {
+  return tapes.flatMap(t => t.segments.flatMap(s => s.sensors.map(x => [x.temperature, x.status, x.crcErrors ?? 0, x.rejected ?? 0])));
+}
+
+function simulate(seed: number, power: number, steps: number, systemOn = true) {
+  const simulator = createThermalSimulator({ ...DEFAULT_SIMULATION, seed });
+  let tapes = makeTapes(power);
+  const trace: unknown[] = [];
+  for (let i = 0; i < steps; i++) {
+    tapes = simulator.step(tapes, 60, systemOn);
+    trace.push([simulator.ambient(), ...readings(tapes)]);
+  }
+  return { tapes, trace };
+}
+
+describe("createRng", () => {
+  it("повторяет последовательность при том же зерне", () => {
+    const a = createRng(7);
+    const b = createRng(7);
+    const c = createRng(8);
+    const seqA = Array.from({ length: 5 }, a);
+    expect(Array.from({ length: 5 }, b)).toEqual(seqA);
+    expect(Array.from({ length: 5 }, c)).not.toEqual(seqA);
+    seqA.forEach(v => expect(v).toBeGreaterThanOrEqual(0));
+    seqA.forEach(v => expect(v).toBeLessThan(1));
+  });
+});
+
+describe("тепловой симулятор", () => {
+  it("детерминирован при одинаковом зерне", () => {
+    expect(simulate(42, 100, 50).trace).toEqual(simulate(42, 100, 50).trace);
+  });
+
+  it("даёт другую последовательность при другом зерне", () => {
+    expect(simulate(42, 100, 50).trace).not.toEqual(simulate(43, 100, 50).trace);
+  });
+
+  it("греет включённый сегмент выше окружающего воздуха", () => {
+    const heated = simulate(42, 100, 120).tapes[0].segments[0].temperature;
+    const idle = simulate(42, 0, 120).tapes[0].segments[0].temperature;
+    expect(heated).toBeGreaterThan(idle + 3);
+  });
+
+  it("при выключенной системе ведёт себя как сегмент без нагрузки", () => {
+    expect(simulate(42, 100, 120, false).trace).toEqual(simulate(42, 0, 120).trace);
+  });
+
+  it("считает ток по напряжению марки кабеля, как расчёт линий", () => {
+    const simulator = createThermalSimulator(DEFAULT_SIMULATION);
+    const tapes = makeTapes(80);
+    const next = simulator.step(tapes, 60, true);
+    const sensor: AuxSensor = { id: "I1", kind: "current", name: "Ток", attachment: { scope: "site" }, value: null, status: "online", lastUpdate: "" };
+    const [current] = simulator.readAux([sensor], next);
+    const expected = siteElectrics(tapes).currentA;
+    expect(expected).toBeGreaterThan(0);
+    expect(Math.abs((current.value ?? 0) - expected)).toBeLessThan(expected * 0.05 + 0.05);
+  });
+});
@@ -0,0 +1,150 @@
+import type { AuxSensor, Sensor, Tape } from "@/lib/types";
+import { DISCONNECTED_TEMP, POWER_ON_RESET_TEMP, ingestReading } from "@/lib/ds18b20";
+import { aggregateSegment } from "@/lib/aggregation";
+import { ingestAuxValue } from "@/lib/sensor-types";
+import { segmentElectrics, segmentLength } from "@/lib/power";
+
+export interface SimulationSettings {
+  seed: number;
+  ambientTemp: number;
+  heatLossCoeff: number;
+  heatCapacity: number;
+  timeScale: number;
+}
+
+export const DEFAULT_SIMULATION: SimulationSettings = {
+  seed: 42,
+  ambientTemp: -6,
+  heatLossCoeff: 3.5,
+  heatCapacity: 1800,
+  timeScale: 30,
+};
+
+export interface ThermalModel {
+  ambient(): number;
+  // При выключенной системе ленты не греют и только остывают
+  step(tapes: Tape[], dtSec: number, systemOn: boolean): Tape[];
+  readAux(sensors: AuxSensor[], tapes: Tape[]): AuxSensor[];
+}
+
+const DS18B20_RESOLUTION = 0.0625;
+const AMBIENT_SWING = 3;
+const AMBIENT_PERIOD_SEC = 24 * 3600;
+// Редкие сбои шины, чтобы валидация показаний работала и в симуляции
+const CRC_ERROR_RATE = 0.005;
+const POWER_ON_RESET_RATE = 0.001;
+const DISCONNECT_RATE = 0.0005;
+// Снегопад начинается в среднем раз в несколько часов модельного времени и длится около часа
+const SNOWFALL_START_PER_SEC = 1 / (6 * 3600);
+const SNOWFALL_END_PER_SEC = 1 / 3600;
+// Ток утечки исправного кабеля: фон плюс доля на метр под напряжением, во влажности растёт
+const LEAKAGE_BASE_MA = 0.4;
+const LEAKAGE_PER_METER_MA = 0.03;
+
+// mulberry32 — компактный ГПСЧ с воспроизводимой последовательностью по зерну
+export function createRng(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function gaussian(rng: () => number) {
+  const u = Math.max(rng(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+function quantize(value: number) {
+  return Math.round(value / DS18B20_RESOLUTION) * DS18B20_RESOLUTION;
+}
+
+export function createThermalSimulator(settings: SimulationSettings): ThermalModel {
+  const rng = createRng(settings.seed);
+  const trueTemps = new Map<number, number>();
+  // Заводской разброс DS18B20 (±0.5°C): у каждого экземпляра свой постоянный сдвиг
+  const biases = new Map<string, number>();
+  let elapsed = 0;
+  let ambient = settings.ambientTemp;
+  let snowing = false;
+  let wetness = 0;
+  // Ток сегмента — от его мощности и номинального напряжения марки кабеля, как в расчёте линий
+  const currentAmps = new Map<number, number>();
+  const energizedMeters = new Map<number, number>();
+
+  // Потерянные датчики (offline/error) молчат; устаревшие снова читаются, как только шина ответит
+  const readSensor = (sensor: Sensor, temp: number, now: Date): Sensor => {
+    if (sensor.status === "offline" || sensor.status === "error") return sensor;
+    if (!biases.has(sensor.serial)) biases.set(sensor.serial, Math.max(-0.5, Math.min(0.5, gaussian(rng) * 0.25)));
+    const bias = biases.get(sensor.serial) ?? 0;
+    const roll = rng();
+    const temperature = roll < POWER_ON_RESET_RATE ? POWER_ON_RESET_TEMP
+      : roll < POWER_ON_RESET_RATE + DISCONNECT_RATE ? DISCONNECTED_TEMP
+      : quantize(temp + bias + gaussian(rng) * 0.15);
+    return ingestReading(sensor, { temperature, status: "online", crcOk: rng() >= CRC_ERROR_RATE }, now);
+  };
+
+  return {
+    ambient: () => ambient,
+    step(tapes, dtSec, systemOn) {
+      elapsed += dtSec;
+      const diurnal = -AMBIENT_SWING * Math.cos((2 * Math.PI * elapsed) / AMBIENT_PERIOD_SEC);
+      ambient = Math.round((settings.ambientTemp + diurnal + gaussian(rng) * 0.2) * 10) / 10;
+      if (snowing ? rng() < SNOWFALL_END_PER_SEC * dtSec : ambient < 2 && rng() < SNOWFALL_START_PER_SEC * dtSec) snowing = !snowing;
+      wetness = Math.max(0, Math.min(100, wetness + (snowing ? 0.05 : -0.01) * dtSec));
+      const now = new Date();
+
+      return tapes.map(tape => {
+        return {
+          ...tape,
+          segments: tape.segments.map(seg => {
+            const length = segmentLength(tape, seg);
+            const prev = trueTemps.get(seg.id) ?? seg.temperature;
+            const electrics = segmentElectrics(tape, seg, systemOn);
+            const heating = electrics.watts;
+            const loss = settings.heatLossCoeff * length * (prev - ambient);
+            const capacity = Math.max(settings.heatCapacity * length, 1);
+            const equilibrium = ambient + heating / Math.max(settings.heatLossCoeff * length, 1e-6);
+            // Явная схема Эйлера; при большом шаге не перескакиваем равновесие
+            const euler = prev + ((heating - loss) / capacity) * dtSec;
+            const next = Math.sign(equilibrium - euler) === Math.sign(equilibrium - prev) ? euler : equilibrium;
+            trueTemps.set(seg.id, next);
+            currentAmps.set(seg.id, electrics.currentA);
+            energizedMeters.set(seg.id, heating > 0 ? length : 0);
+
+            const sensors = seg.sensors.map(s => readSensor(s, next, now));
+            return aggregateSegment({ ...seg, sensors });
+          }),
+        };
+      });
+    },
+    readAux(sensors, tapes) {
+      const now = new Date();
+      const segmentsOf = (a: AuxSensor["attachment"]) => tapes
+        .filter(t => a.scope === "site" || t.id === a.tapeId)
+        .flatMap(t => t.segments.filter(s => a.scope !== "segment" || s.id === a.segmentId));
+      const sum = (a: AuxSensor["attachment"], values: Map<number, number>) =>
+        segmentsOf(a).reduce((total, seg) => total + (values.get(seg.id) ?? 0), 0);
+
+      return sensors.map(sensor => {
+        if (sensor.status === "offline") return sensor;
+        switch (sensor.kind) {
+          case "ambient":
+            return ingestAuxValue(sensor, ambient + gaussian(rng) * 0.2, now);
+          case "moisture":
+            return ingestAuxValue(sensor, Math.max(0, Math.min(100, wetness + gaussian(rng) * 2)), now);
+          case "current":
+            return ingestAuxValue(sensor, Math.max(0, sum(sensor.attachment, currentAmps) * (1 + gaussian(rng) * 0.01)), now);
+          case "leakage": {
+            const meters = sum(sensor.attachment, energizedMeters);
+            const leakage = meters > 0 ? LEAKAGE_BASE_MA + meters * LEAKAGE_PER_METER_MA * (1 + wetness / 50) : 0;
+            return ingestAuxValue(sensor, Math.max(0, leakage + gaussian(rng) * 0.05), now);
+          }
+        }
+      });
+    },
+  };
+}
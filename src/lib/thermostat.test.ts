@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import type { Tape } from "@/lib/types";
+import { DEFAULT_THERMOSTAT, runThermostat, type ThermostatSettings, type ThermostatState } from "@/lib/thermostat";
+
+function makeTapes(temperature: number, power = 0): Tape[] {
+  return [{
+    id: 1,
+    name: "Кровля",
+    coordinates: "",
+    contractNumber: "",
+    length: "10",
+    width: "",
+    enabled: true,
+    segments: [{
+      id: 1,
+      name: "Сегмент 1",
+      enabled: true,
+      power,
+      temperature,
+      targetTemp: 5,
+      sensorId: "T1",
+      sensors: [{ id: "T1", serial: "28-01", temperature, status: "online", lastUpdate: "2026-01-01T00:00:00.000Z" }],
+    }],
+  }];
+}
+
+// Уставка 5°C, гистерезис 2 — включение на 4°C и ниже, отключение на 6°C и выше
+const hysteresis: ThermostatSettings = { ...DEFAULT_THERMOSTAT, mode: "hysteresis", hysteresis: 2, minOnTime: 0, minOffTime: 0 };
+const THRESHOLD = 10;
+
+function run(temperature: number, settings: ThermostatSettings, states: Record<number, ThermostatState> = {}, now = 1_000_000, power = 0) {
+  return runThermostat(makeTapes(temperature, power), states, settings, THRESHOLD, now, 2);
+}
+
+describe("гистерезис", () => {
+  it("включает ровно на нижней границе", () => {
+    expect(run(4.1, hysteresis).targets.get(1)).toBe(0);
+    expect(run(4, hysteresis).targets.get(1)).toBe(100);
+  });
+
+  it("держит нагрев внутри полосы и выключает на верхней границе", () => {
+    const on = run(4, hysteresis).states;
+    expect(run(5.9, hysteresis, on, 1_002_000, 100).targets.get(1)).toBe(100);
+    expect(run(6, hysteresis, on, 1_002_000, 100).targets.get(1)).toBe(0);
+  });
+
+  it("порог включения ниже уставки опускает точку включения", () => {
+    const result = runThermostat(makeTapes(2.5), {}, hysteresis, 3, 0, 2);
+    expect(result.targets.get(1)).toBe(0);
+    expect(runThermostat(makeTapes(2), {}, hysteresis, 3, 0, 2).targets.get(1)).toBe(100);
+  });
+});
+
+describe("минимальное время работы и паузы", () => {
+  const timed: ThermostatSettings = { ...hysteresis, minOnTime: 60, minOffTime: 30 };
+
+  it("откладывает отключение до конца минимального времени работы", () => {
+    const on = run(4, timed, {}, 0).states;
+    const early = run(7, timed, on, 59_000, 100);
+    expect(early.targets.get(1)).toBe(100);
+    expect(early.decisions.map(d => d.message)).toEqual([expect.stringContaining("отключение отложено на 1 с")]);
+    // Повторно об отсрочке не сообщаем
+    expect(run(7, timed, early.states, 59_500, 100).decisions).toEqual([]);
+    expect(run(7, timed, early.states, 60_000, 100).targets.get(1)).toBe(0);
+  });
+
+  it("откладывает повторное включение до конца минимальной паузы", () => {
+    const on = run(4, timed, {}, 0).states;
+    const off = run(7, timed, on, 60_000, 100).states;
+    expect(run(3, timed, off, 89_000).targets.get(1)).toBe(0);
+    expect(run(3, timed, off, 90_000).targets.get(1)).toBe(100);
+  });
+});
+
+describe("ПИ-регулятор", () => {
+  const pi: ThermostatSettings = { ...hysteresis, mode: "pi", kp: 20, ki: 0.5 };
+
+  it("не накапливает интеграл в насыщении (anti-windup)", () => {
+    let states = run(-10, pi, {}, 0).states;
+    for (let i = 1; i <= 20; i++) {
+      const result = run(-10, pi, states, i * 2000, 100);
+      expect(result.targets.get(1)).toBe(100);
+      states = result.states;
+    }
+    expect(states[1].integral).toBe(0);
+  });
+
+  it("накапливает интеграл вне насыщения и ограничивает мощность 0…100", () => {
+    // Включение: ошибка 1°C за 2 с — интеграл 2
+    const on = run(4, pi, {}, 0).states;
+    expect(on[1].integral).toBeCloseTo(2);
+    const result = run(4.5, pi, on, 2000, 50);
+    expect(result.states[1].integral).toBeCloseTo(3);
+    expect(result.targets.get(1)).toBe(Math.round(20 * 0.5 + 0.5 * 3));
+    // Перелёт выше уставки внутри полосы: мощность не уходит ниже нуля, интеграл не тает
+    const overshoot = run(5.8, pi, result.states, 4000, 12);
+    expect(overshoot.targets.get(1)).toBe(0);
+    expect(overshoot.states[1].integral).toBeCloseTo(3);
+  });
+});
@@ -0,0 +1,169 @@
+import type { AuxSensor, LogEntry, Segment, Tape } from "@/lib/types";
+import { SNOW_ICE_REASON_LABELS, evaluateSnowIce, type SnowIceState } from "@/lib/snow-ice";
+
+export type ThermostatMode = "hysteresis" | "pi";
+
+export interface ThermostatSettings {
+  mode: ThermostatMode;
+  hysteresis: number;
+  minOnTime: number;
+  minOffTime: number;
+  kp: number;
+  ki: number;
+}
+
+export const DEFAULT_THERMOSTAT: ThermostatSettings = {
+  mode: "hysteresis",
+  hysteresis: 2,
+  minOnTime: 60,
+  minOffTime: 60,
+  kp: 20,
+  ki: 0.2,
+};
+
+export interface ThermostatState {
+  heating: boolean;
+  since: number;
+  integral: number;
+  deferred: boolean;
+}
+
+export interface ThermostatDecision {
+  tapeId: number;
+  segmentId?: number;
+  type: LogEntry["type"];
+  message: string;
+}
+
+export interface ThermostatResult {
+  powers: Map<number, number>;
+  // Желаемая мощность каждого регулируемого сегмента, в том числе совпадающая с текущей
+  targets: Map<number, number>;
+  states: Record<number, ThermostatState>;
+  decisions: ThermostatDecision[];
+  snow: Record<number, SnowIceState>;
+}
+
+const PI_LOG_STEP = 10;
+
+// Температура для регулирования: без онлайн-датчиков измерению не доверяем
+export function controlTemperature(seg: Segment): number | null {
+  if (!seg.sensors.some(s => s.status === "online")) return null;
+  return seg.temperature;
+}
+
+function clampPower(value: number) {
+  return Math.round(Math.min(100, Math.max(0, value)));
+}
+
+function evaluateSegment(
+  tape: Tape,
+  seg: Segment,
+  prev: ThermostatState | undefined,
+  settings: ThermostatSettings,
+  threshold: number,
+  now: number,
+  dt: number,
+  snow: SnowIceState | null,
+): { power: number; state: ThermostatState; decisions: ThermostatDecision[] } {
+  const state: ThermostatState = prev
+    ? { ...prev }
+    : { heating: seg.power > 0, since: -Infinity, integral: 0, deferred: false };
+  const decisions: ThermostatDecision[] = [];
+  const decide = (type: LogEntry["type"], message: string) =>
+    decisions.push({ tapeId: tape.id, segmentId: seg.id, type, message: `${seg.name}: ${message}` });
+
+  const temp = controlTemperature(seg);
+  if (temp === null) {
+    if (state.heating) {
+      decide("error", "нет данных с датчиков — нагрев остановлен (авто)");
+    }
+    return { power: 0, state: { heating: false, since: now, integral: 0, deferred: false }, decisions };
+  }
+
+  const half = settings.hysteresis / 2;
+  const onPoint = Math.min(threshold, seg.targetTemp) - half;
+  const offPoint = seg.targetTemp + half;
+  // В режиме «снег и лёд» греем до уставки, пока есть запрос по погоде; порог включения не используется
+  const wantHeat = snow
+    ? snow.demand && temp < (state.heating ? offPoint : seg.targetTemp - half)
+    : state.heating ? temp < offPoint : temp <= onPoint;
+
+  if (wantHeat !== state.heating) {
+    const minTime = (state.heating ? settings.minOnTime : settings.minOffTime) * 1000;
+    if (now - state.since < minTime) {
+      if (!state.deferred) {
+        const left = Math.ceil((minTime - (now - state.since)) / 1000);
+        decide("info", `${wantHeat ? "включение" : "отключение"} отложено на ${left} с (мин. время ${state.heating ? "работы" : "паузы"})`);
+        state.deferred = true;
+      }
+    } else {
+      state.heating = wantHeat;
+      state.since = now;
+      state.integral = 0;
+      state.deferred = false;
+      if (snow && wantHeat) {
+        decide("info", `${SNOW_ICE_REASON_LABELS[snow.reason]} при ${snow.ambient?.toFixed(1)}°C воздуха — нагрев включён (снег и лёд)`);
+      } else if (snow && !snow.demand) {
+        decide("success", `${SNOW_ICE_REASON_LABELS[snow.reason]} — нагрев выключен (снег и лёд)`);
+      } else if (wantHeat) {
+        decide("info", `${temp.toFixed(1)}°C ≤ ${onPoint.toFixed(1)}°C — нагрев включён (авто)`);
+      } else {
+        decide("success", `${temp.toFixed(1)}°C ≥ ${offPoint.toFixed(1)}°C — нагрев выключен (авто)`);
+      }
+    }
+  } else {
+    state.deferred = false;
+  }
+
+  if (!state.heating) return { power: 0, state, decisions };
+  if (settings.mode === "hysteresis") return { power: 100, state, decisions };
+
+  const error = seg.targetTemp - temp;
+  const integral = state.integral + error * dt;
+  const raw = settings.kp * error + settings.ki * integral;
+  // Интегратор не накапливаем в насыщении (anti-windup)
+  if (raw > 0 && raw < 100) state.integral = integral;
+  const power = clampPower(raw);
+  if (Math.abs(power - seg.power) >= PI_LOG_STEP) {
+    decide("info", `ПИ: ошибка ${error.toFixed(1)}°C — мощность ${seg.power}% → ${power}%`);
+  }
+  return { power, state, decisions };
+}
+
+export function runThermostat(
+  tapes: Tape[],
+  states: Record<number, ThermostatState>,
+  settings: ThermostatSettings,
+  threshold: number,
+  now: number,
+  dt: number,
+  aux: AuxSensor[] = [],
+  snowStates: Record<number, SnowIceState> = {},
+): ThermostatResult {
+  const powers = new Map<number, number>();
+  const targets = new Map<number, number>();
+  const nextStates: Record<number, ThermostatState> = {};
+  const decisions: ThermostatDecision[] = [];
+  const snow: Record<number, SnowIceState> = {};
+
+  tapes.forEach(tape => {
+    if (tape.controlMode === "snow-ice") {
+      const prev = snowStates[tape.id];
+      snow[tape.id] = evaluateSnowIce(tape, aux, prev, now);
+      if (prev && prev.reason !== snow[tape.id].reason) {
+        decisions.push({ tapeId: tape.id, type: "info", message: `${tape.name}: снег и лёд — ${SNOW_ICE_REASON_LABELS[snow[tape.id].reason]}` });
+      }
+    }
+    tape.segments.forEach(seg => {
+      if (!tape.enabled || !seg.enabled) return;
+      const result = evaluateSegment(tape, seg, states[seg.id], settings, threshold, now, dt, snow[tape.id] ?? null);
+      nextStates[seg.id] = result.state;
+      decisions.push(...result.decisions);
+      targets.set(seg.id, result.power);
+      if (result.power !== seg.power) powers.set(seg.id, result.power);
+    });
+  });
+
+  return { powers, targets, states: nextStates, decisions, snow };
+}
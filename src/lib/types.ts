@@ -0,0 +1,179 @@
+export interface Sensor {
+  id: string;
+  serial: string;
+  temperature: number;
+  status: "online" | "offline" | "error" | "stale";
+  lastUpdate: string;
+  crcErrors?: number;
+  rejected?: number;
+  quality?: number;
+  lastVerdict?: ReadingVerdict;
+  outlier?: boolean;
+  raw?: number;
+  calibration?: SensorCalibration;
+  history?: SensorHistoryEntry[];
+  // Расстояние от начала ленты, м
+  position?: number;
+  // Input-регистр датчика на контроллере Modbus; закрепляется за датчиком при первом подключении
+  modbusRegister?: number;
+}
+
+// Жизненный цикл логического датчика: какие физические экземпляры стояли на его месте
+export interface SensorHistoryEntry {
+  timestamp: string;
+  event: "installed" | "moved" | "replaced";
+  serial: string;
+  previousSerial?: string;
+  note?: string;
+}
+
+export type CalibrationSource = "manual" | "auto";
+
+// Показание = сырое × gain + offset
+export interface SensorCalibration {
+  offset: number;
+  gain: number;
+}
+
+export type ReadingVerdict = "ok" | "crc" | "power-on-reset" | "disconnected" | "out-of-range" | "offline";
+
+export interface SegmentFault {
+  reason: "overheat" | "sensor-loss";
+  message: string;
+  trippedAt: string;
+  lockout?: boolean;
+}
+
+export type AggregationMethod = "mean" | "median" | "min" | "trimmed";
+
+export interface SegmentAggregation {
+  method: AggregationMethod;
+  outlierDelta: number;
+}
+
+export interface Segment {
+  id: number;
+  name: string;
+  enabled: boolean;
+  power: number;
+  temperature: number;
+  targetTemp: number;
+  sensorId: string;
+  sensors: Sensor[];
+  fault?: SegmentFault;
+  trips?: string[];
+  maintenance?: boolean;
+  aggregation?: SegmentAggregation;
+  // Своя линия питания сегмента; без неё сегмент питается от линии ленты
+  lineId?: number;
+  // Длина нагревательного кабеля сегмента, м; сумма по ленте равна Tape.length
+  length?: number;
+  // Номер реле (coil) и регистра мощности на контроллере Modbus — по разводке шкафа, а не по порядку сегментов
+  modbusAddress?: number;
+}
+
+export interface Tape {
+  id: number;
+  name: string;
+  coordinates: string;
+  contractNumber: string;
+  length: string;
+  width: string;
+  segments: Segment[];
+  enabled: boolean;
+  controlMode?: ControlMode;
+  snowIce?: SnowIceSettings;
+  lineId?: number;
+  // Марка нагревательного кабеля из каталога
+  productId?: string;
+}
+
+export type CableKind = "self-regulating" | "constant" | "zonal";
+
+export interface CableProduct {
+  id: string;
+  manufacturer: string;
+  model: string;
+  kind: CableKind;
+  // Погонная мощность при +10°C и при 0°C, Вт/м
+  wattsAt10: number;
+  wattsAt0: number;
+  // Предельная температура воздействия, °C
+  maxExposureTemp: number;
+  voltage: number;
+  ip: string;
+  // Максимальная длина одной цепи, м
+  maxCircuitLength: number;
+}
+
+// Авторегулирование ленты: по температуре покрытия или по погоде (окно температур + осадки)
+export type ControlMode = "thermostat" | "snow-ice";
+
+export interface SnowIceSettings {
+  minAmbient: number;
+  maxAmbient: number;
+  moistureThreshold: number;
+  afterRunMinutes: number;
+}
+
+export type LogActor = "operator" | "auto" | "system" | "mqtt";
+
+export interface LogEntry {
+  id: number;
+  timestamp: string;
+  type: "info" | "warning" | "error" | "success";
+  message: string;
+  actor: LogActor;
+  tapeId?: number;
+  segmentId?: number;
+  coalesce?: string;
+}
+
+export interface Alert {
+  id: number;
+  timestamp: string;
+  severity: "low" | "medium" | "high" | "critical";
+  message: string;
+  acknowledged: boolean;
+  key?: string;
+  resolvedAt?: string;
+}
+
+export type DataSource = "simulation" | "device";
+
+export type AuxSensorKind = "ambient" | "moisture" | "current" | "leakage";
+
+export type SensorAttachment =
+  | { scope: "site" }
+  | { scope: "tape"; tapeId: number }
+  | { scope: "segment"; tapeId: number; segmentId: number };
+
+// Вспомогательные датчики площадки: окружающая среда, осадки, ток линии, утечка на УЗО
+export interface AuxSensor {
+  id: string;
+  kind: AuxSensorKind;
+  name: string;
+  attachment: SensorAttachment;
+  value: number | null;
+  status: "online" | "offline" | "error" | "stale";
+  lastUpdate: string;
+  issue?: string;
+}
+
+export type Phase = "L1" | "L2" | "L3";
+
+export type BreakerCurve = "B" | "C" | "D";
+
+// Линия питания от щита: фаза, автомат, УЗО и кабель до нагревателей
+export interface Line {
+  id: number;
+  name: string;
+  phase: Phase;
+  breakerA: number;
+  breakerCurve: BreakerCurve;
+  rcdMa: number;
+  rcdA: number;
+  crossSection: number;
+  // Длина питающего кабеля от щита до начала ленты, м
+  runLength?: number;
+}
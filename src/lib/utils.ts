@@ -4,3 +4,8 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Значение для <input type="datetime-local"> в локальном часовом поясе
+export function toDateTimeLocal(t: number) {
+  return new Date(t - new Date(t).getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
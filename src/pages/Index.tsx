@@ -6,7 +6,6 @@ import { Slider } from "@/components/ui/slider";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -17,10 +16,18 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import Icon from "@/components/ui/icon";
 import {
-  LineChart,
-  Line,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -29,91 +36,174 @@ import {
   AreaChart,
   Area,
 } from "recharts";
-
-interface Sensor {
-  id: string;
-  serial: string;
-  temperature: number;
-  status: "online" | "offline" | "error";
-  lastUpdate: string;
-}
-
-interface Segment {
-  id: number;
-  name: string;
-  enabled: boolean;
-  power: number;
-  temperature: number;
-  targetTemp: number;
-  status: "normal" | "warning" | "critical" | "off";
-  sensorId: string;
-  sensors: Sensor[];
-}
-
-interface Tape {
-  id: number;
-  name: string;
-  coordinates: string;
-  contractNumber: string;
-  length: string;
-  width: string;
-  segments: Segment[];
-  enabled: boolean;
-}
-
-interface LogEntry {
-  id: number;
-  timestamp: string;
-  type: "info" | "warning" | "error" | "success";
-  message: string;
-  segment?: string;
-}
-
-interface Alert {
-  id: number;
-  timestamp: string;
-  severity: "low" | "medium" | "high" | "critical";
-  message: string;
-  acknowledged: boolean;
-}
-
-function generateSerial() {
-  const hex = () => Math.floor(Math.random() * 256).toString(16).toUpperCase().padStart(2, "0");
-  return `28-${hex()}${hex()}${hex()}${hex()}${hex()}${hex()}`;
-}
+import type { AggregationMethod, Alert, AuxSensor, AuxSensorKind, ControlMode, DataSource, Line, LogActor, Segment, SegmentAggregation, Sensor, SensorCalibration, SensorAttachment, SensorHistoryEntry, SnowIceSettings, Tape } from "@/lib/types";
+import {
+  DEFAULT_THERMOSTAT,
+  runThermostat,
+  type ThermostatSettings,
+  type ThermostatState,
+} from "@/lib/thermostat";
+import {
+  DEFAULT_SIMULATION,
+  createThermalSimulator,
+  type SimulationSettings,
+  type ThermalModel,
+} from "@/lib/thermal-simulator";
+import {
+  applySensorReadings,
+  formatUptime,
+  mergeControllerTapes,
+  type ControllerAdapter,
+  type ControllerStatus,
+  type SegmentCommand,
+} from "@/lib/controller/adapter";
+import {
+  DEFAULT_CONTROLLER,
+  createControllerConnection,
+  type ControllerConfig,
+  type ControllerConnection,
+} from "@/lib/controller/factory";
+import { MAX_SEGMENT_ADDRESS, assignModbusAddresses } from "@/lib/modbus/register-map";
+import { DEFAULT_MQTT, createMqttBridge, type MqttBridge, type MqttSettings } from "@/lib/mqtt/bridge";
+import { planMqttCommand } from "@/lib/mqtt/commands";
+import {
+  collectSamples,
+  openHistoryStore,
+  seriesKey,
+  type HistoryStore,
+} from "@/lib/history";
+import { toChartPoints } from "@/lib/chart-series";
+import {
+  DEFAULT_ALERT_RULES,
+  EMPTY_ALERT_STATE,
+  evaluateAlertRules,
+  reconcileAlerts,
+  type AlertRuleSettings,
+} from "@/lib/alerts";
+import { appendLogEntries, loadJournal, saveJournal, type NewLogEntry } from "@/lib/journal";
+import { DEFAULT_SAFETY, FAULT_LABELS, faultCondition, superviseSegments, type SafetySettings } from "@/lib/safety";
+import {
+  SEGMENT_STATE_META,
+  commandTarget,
+  deriveSegmentState,
+  deriveSegmentStates,
+  type SegmentCommandKind,
+  type SegmentState,
+  type SegmentStates,
+} from "@/lib/segment-state";
+import { AGGREGATION_LABELS, DEFAULT_AGGREGATION, aggregateSegment } from "@/lib/aggregation";
+import {
+  DEFAULT_AUTO_CALIBRATION,
+  IDENTITY_CALIBRATION,
+  appendCalibrations,
+  applyCalibrations,
+  autoCalibrateTape,
+  formatCalibration,
+  isTapeSettled,
+  lastAutoCalibration,
+  loadCalibrationHistory,
+  rawValue,
+  saveCalibrationHistory,
+  sameCalibration,
+  trackSettling,
+  type AutoCalibrationSettings,
+  type CalibrationRecord,
+  type SettleSamples,
+} from "@/lib/calibration";
+import {
+  profileColor,
+  relayoutSensorPositions,
+  sensorPosition,
+  temperatureProfile,
+  validatePosition,
+  withDefaultPositions,
+} from "@/lib/tape-profile";
+import { CABLE_KIND_LABELS, CABLE_PRODUCTS, DEFAULT_PRODUCT_ID, productLabel, tapeProduct, withProduct } from "@/lib/cable-catalog";
+import {
+  fitSegmentLengths,
+  formatWatts,
+  segmentElectrics,
+  segmentLength,
+  segmentLengthError,
+  siteElectrics,
+  tapeElectrics,
+  withSegmentLengths,
+} from "@/lib/power";
+import {
+  analyzeScan,
+  bindSensor,
+  createSpareRoms,
+  findDuplicateSerials,
+  randomSerial,
+  replaceSensor,
+  simulateBusScan,
+  type RetiredSensor,
+} from "@/lib/onewire";
+import { VERDICT_LABELS, healthColor, markStaleSensors, sensorHealth } from "@/lib/ds18b20";
+import { attachmentLabel, createAuxSensor, createDefaultAuxSensors, ingestAuxValue, markStaleAux, siteAmbient } from "@/lib/sensor-types";
+import { CRITICAL_REPEAT_MS, SEVERITY_RANK, createAlarmPlayer, type AlarmPlayer } from "@/lib/alarm-sound";
+import { useHistoryRows } from "@/hooks/use-history";
+import HistoryCharts from "@/components/heating/HistoryCharts";
+import EventJournal from "@/components/heating/EventJournal";
+import CalibrationDialog from "@/components/heating/CalibrationDialog";
+import CalibrationHistory from "@/components/heating/CalibrationHistory";
+import BusDiscovery from "@/components/heating/BusDiscovery";
+import ReplaceSensorDialog from "@/components/heating/ReplaceSensorDialog";
+import TemperatureProfileChart from "@/components/heating/TemperatureProfileChart";
+import SensorPositionInput from "@/components/heating/SensorPositionInput";
+import AuxSensorPanel from "@/components/heating/AuxSensorPanel";
+import SnowIceControl from "@/components/heating/SnowIceControl";
+import { CONTROL_MODE_LABELS, type SnowIceState } from "@/lib/snow-ice";
+import { computeLineLoads, createDefaultLines, createLine, withDefaultLines } from "@/lib/circuits";
+import CircuitPanel from "@/components/heating/CircuitPanel";
+import ElectricalFindings from "@/components/heating/ElectricalFindings";
+import SoftStartPanel from "@/components/heating/SoftStartPanel";
+import { analyzeCircuits, findingsForTape } from "@/lib/electrical";
+import {
+  DEFAULT_SOFT_START,
+  cancelSoftStart,
+  createSoftStart,
+  deferHeldPowers,
+  isHeld,
+  mergeSoftStart,
+  softStartProgress,
+  stepSoftStart,
+  type SoftStartItem,
+  type SoftStartSettings,
+  type SoftStartState,
+} from "@/lib/soft-start";
 
 function createSensors(segId: number, count: number): Sensor[] {
   return Array.from({ length: count }, (_, j) => ({
     id: `DS18B20-${String(segId).padStart(2, "0")}${String(j + 1).padStart(2, "0")}`,
-    serial: generateSerial(),
+    serial: randomSerial(),
     temperature: -5 + Math.floor(Math.random() * 15),
     status: Math.random() > 0.9 ? "offline" : "online" as Sensor["status"],
-    lastUpdate: new Date().toLocaleTimeString("ru-RU"),
+    lastUpdate: new Date().toISOString(),
   }));
 }
 
 function createSegment(id: number, enabled: boolean): Segment {
   const sensorCount = 2 + Math.floor(Math.random() * 3);
   const sensors = createSensors(id, sensorCount);
-  const avgTemp = sensors.reduce((a, s) => a + s.temperature, 0) / sensors.length;
-  return {
+  return aggregateSegment({
     id,
     name: `Сегмент ${id}`,
     enabled,
     power: 40 + Math.floor(Math.random() * 50),
-    temperature: Math.round(avgTemp * 10) / 10,
+    temperature: 0,
     targetTemp: 5,
-    status: enabled ? (Math.random() > 0.8 ? "warning" : "normal") : "off",
     sensorId: `DS18B20-${String(id).padStart(3, "0")}`,
     sensors,
-  };
+    aggregation: DEFAULT_AGGREGATION,
+  });
 }
 
 function createTape(id: number, segStartId: number, segCount: number): Tape {
   const segments = Array.from({ length: segCount }, (_, i) =>
     createSegment(segStartId + i, i < Math.ceil(segCount * 0.7))
   );
-  return {
+  return withDefaultPositions(withSegmentLengths({
     id,
     name: `Лента ${id}`,
     coordinates: "",
@@ -122,7 +212,8 @@ function createTape(id: number, segStartId: number, segCount: number): Tape {
     width: "50",
     segments,
     enabled: true,
-  };
+    productId: DEFAULT_PRODUCT_ID,
+  }));
 }
 
 function createInitialTapes(): Tape[] {
@@ -132,96 +223,29 @@ function createInitialTapes(): Tape[] {
   ];
 }
 
+function findSegment(tapes: Tape[], tapeId: number, segId: number): Segment | undefined {
+  return tapes.find(t => t.id === tapeId)?.segments.find(s => s.id === segId);
+}
+
 function getMaxSegId(tapes: Tape[]): number {
   const all = tapes.flatMap(t => t.segments);
   return all.length > 0 ? Math.max(...all.map(s => s.id)) : 0;
 }
 
-const generateChartData = () => {
-  const now = new Date();
-  return Array.from({ length: 24 }, (_, i) => {
-    const time = new Date(now.getTime() - (23 - i) * 3600000);
-    return {
-      time: `${time.getHours().toString().padStart(2, "0")}:00`,
-      temp1: -8 + Math.random() * 12,
-      temp2: -5 + Math.random() * 10,
-      temp3: -3 + Math.random() * 8,
-      power: 30 + Math.random() * 50,
-      ambient: -10 + Math.random() * 5,
-    };
-  });
-};
+const MONITOR_RANGE = { last: 24 * 3600000 };
 
-const generateLogs = (): LogEntry[] => {
-  const messages = [
-    { type: "info" as const, msg: "Система запущена в штатном режиме" },
-    { type: "success" as const, msg: "Сегмент 3 достиг целевой температуры" },
-    { type: "warning" as const, msg: "Сегмент 7: температура приближается к порогу" },
-    { type: "error" as const, msg: "Сегмент 11: датчик не отвечает" },
-    { type: "info" as const, msg: "Автоматическая калибровка завершена" },
-    { type: "warning" as const, msg: "Высокая нагрузка на линию питания L2" },
-    { type: "success" as const, msg: "Обновление прошивки контроллера завершено" },
-    { type: "info" as const, msg: "Переключение на ночной режим" },
-    { type: "error" as const, msg: "Обрыв связи с датчиком DS18B20-005" },
-    { type: "success" as const, msg: "Связь с датчиком DS18B20-005 восстановлена" },
-    { type: "warning" as const, msg: "Потребление энергии превысило 80% лимита" },
-    { type: "info" as const, msg: "Плановая проверка состояния нагревателей" },
-  ];
-  const now = new Date();
-  return messages.map((m, i) => ({
-    id: i + 1,
-    timestamp: new Date(now.getTime() - i * 300000).toLocaleString("ru-RU"),
-    type: m.type,
-    message: m.msg,
-    segment: m.msg.includes("Сегмент") ? m.msg.match(/Сегмент \d+/)?.[0] : undefined,
-  }));
+const SENSOR_STATUS_META: Record<Sensor["status"], { label: string; text: string; bg: string }> = {
+  online: { label: "ОНЛАЙН", text: "text-emerald-400", bg: "bg-emerald-400/5 border-emerald-400/20" },
+  stale: { label: "УСТАРЕЛ", text: "text-amber-400", bg: "bg-amber-400/5 border-amber-400/20" },
+  error: { label: "ОШИБКА", text: "text-red-400", bg: "bg-red-400/5 border-red-400/20" },
+  offline: { label: "ОФЛАЙН", text: "text-zinc-500", bg: "bg-zinc-800/50 border-zinc-700/30" },
 };
 
-const generateAlerts = (): Alert[] => [
-  { id: 1, timestamp: "13.02.2026 14:32", severity: "critical", message: "Перегрев сегмента 9 — температура 85°C", acknowledged: false },
-  { id: 2, timestamp: "13.02.2026 13:15", severity: "high", message: "Датчик DS18B20-011 не отвечает более 10 минут", acknowledged: false },
-  { id: 3, timestamp: "13.02.2026 12:40", severity: "medium", message: "Потребление линии L2 превысило 4.2 кВт", acknowledged: true },
-  { id: 4, timestamp: "13.02.2026 11:00", severity: "low", message: "Плановое обслуживание через 48 часов", acknowledged: true },
-  { id: 5, timestamp: "13.02.2026 09:20", severity: "high", message: "Короткое замыкание на сегменте 6 — автоотключение", acknowledged: true },
-];
-
-function getStatusColor(status: string) {
-  switch (status) {
-    case "normal": return "text-emerald-400";
-    case "warning": return "text-amber-400";
-    case "critical": return "text-red-400";
-    default: return "text-zinc-500";
-  }
-}
-
-function getStatusBg(status: string) {
-  switch (status) {
-    case "normal": return "bg-emerald-400/10 border-emerald-400/30";
-    case "warning": return "bg-amber-400/10 border-amber-400/30";
-    case "critical": return "bg-red-400/10 border-red-400/30";
-    default: return "bg-zinc-800/50 border-zinc-700/30";
-  }
-}
-
-function getLogIcon(type: string) {
-  switch (type) {
-    case "info": return "Info";
-    case "warning": return "AlertTriangle";
-    case "error": return "XCircle";
-    case "success": return "CheckCircle";
-    default: return "Circle";
-  }
-}
-
-function getLogColor(type: string) {
-  switch (type) {
-    case "info": return "text-sky-400";
-    case "warning": return "text-amber-400";
-    case "error": return "text-red-400";
-    case "success": return "text-emerald-400";
-    default: return "text-zinc-400";
-  }
-}
+const SENSOR_HISTORY_LABELS: Record<SensorHistoryEntry["event"], string> = {
+  installed: "установлен",
+  moved: "перенесён",
+  replaced: "замена",
+};
 
 function getSeverityStyle(severity: string) {
   switch (severity) {
@@ -260,8 +284,36 @@ interface SavedSettings {
   thresholdTemp: string;
   alertSound: string;
   pollInterval: string;
+  thermostat: ThermostatSettings;
+  dataSource: DataSource;
+  simulation: SimulationSettings;
+  controller: ControllerConfig;
+  mqtt: MqttSettings;
+  alertRules: AlertRuleSettings;
+  muteUntil: number | null;
+  safety: SafetySettings;
+  autoCalibration: AutoCalibrationSettings;
+  retiredSensors: RetiredSensor[];
+  auxSensors: AuxSensor[];
+  lines: Line[];
+  softStart: SoftStartSettings;
 }
 
+const MUTE_OPTIONS = [5, 15, 60];
+
+const SAFETY_PERIOD_MS = 1000;
+
+const SOFT_START_PERIOD_MS = 1000;
+
+const SEGMENT_COMMAND_LABELS: Record<SegmentCommandKind, string> = {
+  enable: "включить",
+  disable: "выключить",
+  power: "мощность",
+  reset: "сброс аварии",
+  "maintenance-on": "на обслуживание",
+  "maintenance-off": "из обслуживания",
+};
+
 function migrateSegments(segs: Segment[]): Segment[] {
   return segs.map(s => {
     if (!s.sensors || !Array.isArray(s.sensors)) {
@@ -271,8 +323,14 @@ function migrateSegments(segs: Segment[]): Segment[] {
   });
 }
 
+// Сегменты, датчики, их ROM-коды и адреса — то, из чего строится карта регистров контроллера
+function topologyKey(tapes: Tape[]) {
+  return tapes.map(t => t.segments.map(seg =>
+    `${seg.id}@${seg.modbusAddress}[${seg.sensors.map(s => `${s.id}=${s.serial}@${s.modbusRegister}`).join(",")}]`).join(";")).join("|");
+}
+
 function migrateTapes(tapes: Tape[]): Tape[] {
-  return tapes.map(t => ({
+  return tapes.map(t => withDefaultPositions(withSegmentLengths(withProduct({
     ...t,
     coordinates: t.coordinates ?? "",
     contractNumber: t.contractNumber ?? "",
@@ -280,7 +338,7 @@ function migrateTapes(tapes: Tape[]): Tape[] {
     width: t.width ?? "50",
     enabled: t.enabled !== undefined ? t.enabled : true,
     segments: migrateSegments(t.segments || []),
-  }));
+  }))));
 }
 
 function loadSettings(): Partial<SavedSettings> | null {
@@ -413,9 +471,11 @@ function YandexMap({ tapes }: { tapes: Tape[] }) {
   return <div ref={mapRef} className="w-full h-[400px] rounded-lg border border-border" />;
 }
 
-function RoofVisualization({ tape }: { tape: Tape }) {
+function RoofVisualization({ tape, states }: { tape: Tape; states: SegmentStates }) {
   const segs = tape.segments;
   const segWidth = Math.max(60, Math.floor(800 / segs.length));
+  const profile = temperatureProfile(tape, 60);
+  const gradient = profile.samples.map(p => `${profileColor(p.temperature)} ${((p.x / profile.length) * 100).toFixed(1)}%`).join(", ");
 
   return (
     <div className="relative w-full overflow-x-auto">
@@ -456,16 +516,38 @@ function RoofVisualization({ tape }: { tape: Tape }) {
               </div>
               <p className="text-[9px] font-mono text-muted-foreground mt-1">#{seg.id}</p>
               <p className="text-[9px] font-mono text-muted-foreground">{isActive ? `${seg.power}%` : "выкл"}</p>
-              <div className={`absolute top-2 left-1/2 -translate-x-1/2 w-1.5 h-1.5 rounded-full ${seg.status === "normal" ? "bg-emerald-400" : seg.status === "warning" ? "bg-amber-400 animate-pulse" : seg.status === "critical" ? "bg-red-400 animate-pulse" : "bg-zinc-600"}`} />
+              <div className={`absolute top-2 left-1/2 -translate-x-1/2 w-1.5 h-1.5 rounded-full ${SEGMENT_STATE_META[states[seg.id] ?? "off"].dot}`} />
             </div>
           );
         })}
       </div>
+      {/* Профиль температуры по длине ленты с отметками датчиков */}
+      <div
+        className="relative h-3 mt-2 rounded-full border border-border"
+        style={{ minWidth: segs.length * segWidth, background: gradient ? `linear-gradient(90deg, ${gradient})` : "hsl(220 14% 18%)" }}
+      >
+        {profile.length > 0 && segs.map((seg, i) => seg.sensors.map(sensor => {
+          const x = sensorPosition(tape, i, sensor);
+          return (
+            <div
+              key={sensor.id}
+              className={`absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-2 h-2 rounded-full border border-background ${sensor.status === "online" ? "bg-white" : "bg-zinc-600"}`}
+              style={{ left: `${Math.min(100, (x / profile.length) * 100)}%` }}
+              title={`${sensor.id}: ${x.toFixed(1)} м, ${sensor.status === "online" ? `${sensor.temperature.toFixed(1)}°C` : "нет данных"}`}
+            />
+          );
+        }))}
+      </div>
+      <div className="flex justify-between text-[9px] font-mono text-muted-foreground mt-0.5" style={{ minWidth: segs.length * segWidth }}>
+        <span>0 м</span>
+        {profile.coldest && <span className="text-sky-400">мин. {profile.coldest.temperature.toFixed(1)}° на {profile.coldest.x.toFixed(1)} м</span>}
+        <span>{profile.length} м</span>
+      </div>
     </div>
   );
 }
 
-function VisualizationTab({ tapes }: { tapes: Tape[] }) {
+function VisualizationTab({ tapes, states, thresholdTemp }: { tapes: Tape[]; states: SegmentStates; thresholdTemp: number | null }) {
   const [selectedTape, setSelectedTape] = useState<number | null>(null);
 
   return (
@@ -509,10 +591,14 @@ function VisualizationTab({ tapes }: { tapes: Tape[] }) {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
-              <RoofVisualization tape={tape} />
+              <RoofVisualization tape={tape} states={states} />
+              <div onClick={e => e.stopPropagation()}>
+                <p className="text-[10px] font-mono text-muted-foreground mb-1">ПРОФИЛЬ ТЕМПЕРАТУРЫ ПО ДЛИНЕ</p>
+                <TemperatureProfileChart tape={tape} thresholdTemp={thresholdTemp} />
+              </div>
               <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
                 {tape.segments.map(seg => (
-                  <div key={seg.id} className={`p-2 rounded border text-center font-mono text-[11px] ${getStatusBg(seg.status)}`}>
+                  <div key={seg.id} className={`p-2 rounded border text-center font-mono text-[11px] ${SEGMENT_STATE_META[states[seg.id] ?? "off"].bg}`}>
                     <p className="text-[9px] text-muted-foreground">#{seg.id}</p>
                     <p className={`font-bold ${seg.enabled && tape.enabled ? getTempColor(seg.temperature) : "text-zinc-600"}`}>
                       {seg.enabled && tape.enabled ? `${seg.temperature.toFixed(1)}°` : "—"}
@@ -520,7 +606,7 @@ function VisualizationTab({ tapes }: { tapes: Tape[] }) {
                     <p className="text-[9px] text-muted-foreground">{seg.enabled && tape.enabled ? `${seg.power}%` : "выкл"}</p>
                     <div className="flex gap-0.5 mt-1">
                       {seg.sensors.map(sensor => (
-                        <div key={sensor.id} className={`w-1.5 h-1.5 rounded-full ${sensor.status === "online" ? "bg-emerald-400" : sensor.status === "error" ? "bg-red-400" : "bg-zinc-600"}`} title={`${sensor.id}: ${sensor.temperature}°C`} />
+                        <div key={sensor.id} className={`w-1.5 h-1.5 rounded-full ${sensor.status === "online" ? "bg-emerald-400" : sensor.status === "stale" ? "bg-amber-400" : sensor.status === "error" ? "bg-red-400" : "bg-zinc-600"}`} title={`${sensor.id}: ${sensor.temperature}°C`} />
                       ))}
                     </div>
                   </div>
@@ -557,125 +643,1092 @@ function VisualizationTab({ tapes }: { tapes: Tape[] }) {
 const Index = () => {
   const saved = loadSettings();
 
-  const [tapes, setTapes] = useState<Tape[]>(saved?.tapes || createInitialTapes());
-  const [chartData] = useState(generateChartData);
-  const [logs] = useState(generateLogs);
-  const [alerts, setAlerts] = useState(saved?.alerts || generateAlerts);
+  const [tapes, setTapes] = useState<Tape[]>(() => {
+    const initial = saved?.tapes || createInitialTapes();
+    return saved?.lines ? initial : withDefaultLines(initial);
+  });
+  const [logs, setLogs] = useState(loadJournal);
+  const [alerts, setAlerts] = useState<Alert[]>(saved?.alerts ?? []);
   const [systemOn, setSystemOn] = useState(saved?.systemOn ?? true);
   const [currentTime, setCurrentTime] = useState(new Date());
   const [autoMode, setAutoMode] = useState(saved?.autoMode ?? true);
   const [thresholdTemp, setThresholdTemp] = useState(saved?.thresholdTemp ?? "5");
   const [alertSound, setAlertSound] = useState(saved?.alertSound === "false" ? false : true);
   const [pollInterval, setPollInterval] = useState(saved?.pollInterval ?? "2");
+  const [thermostat, setThermostat] = useState<ThermostatSettings>({ ...DEFAULT_THERMOSTAT, ...saved?.thermostat });
+  const [dataSource, setDataSource] = useState<DataSource>(saved?.dataSource ?? "simulation");
+  const [simulation, setSimulation] = useState<SimulationSettings>({ ...DEFAULT_SIMULATION, ...saved?.simulation });
+  const [simRun, setSimRun] = useState(0);
+  const [controller, setController] = useState<ControllerConfig>({ ...DEFAULT_CONTROLLER, ...saved?.controller });
+  const [controllerSimulated, setControllerSimulated] = useState(false);
+  const [controllerStatus, setControllerStatus] = useState<ControllerStatus | null>(null);
+  const [controllerError, setControllerError] = useState<string | null>(null);
+  const adapterRef = useRef<ControllerAdapter | null>(null);
+  const connectionRef = useRef<ControllerConnection | null>(null);
+  const [mqttSettings, setMqttSettings] = useState<MqttSettings>({ ...DEFAULT_MQTT, ...saved?.mqtt });
+  const [mqttState, setMqttState] = useState<{ connected: boolean; error?: string }>({ connected: false });
+  const mqttRef = useRef<MqttBridge | null>(null);
+  const [alertRules, setAlertRules] = useState<AlertRuleSettings>({ ...DEFAULT_ALERT_RULES, ...saved?.alertRules });
+  const alertsRef = useRef(alerts);
+  const alertStateRef = useRef(EMPTY_ALERT_STATE);
+  const alarmRef = useRef<AlarmPlayer | null>(null);
+  const announcedAlertsRef = useRef(new Set(alerts.map(a => a.id)));
+  const [audioUnlocked, setAudioUnlocked] = useState(false);
+  const [safety, setSafety] = useState<SafetySettings>({ ...DEFAULT_SAFETY, ...saved?.safety });
+  const safetyRef = useRef(safety);
+  const [lockoutReset, setLockoutReset] = useState<{ tapeId: number; segId: number } | null>(null);
+  const [autoCalibration, setAutoCalibration] = useState<AutoCalibrationSettings>({ ...DEFAULT_AUTO_CALIBRATION, ...saved?.autoCalibration });
+  const autoCalibrationRef = useRef(autoCalibration);
+  const [calibrationHistory, setCalibrationHistory] = useState<CalibrationRecord[]>(loadCalibrationHistory);
+  const calibrationHistoryRef = useRef(calibrationHistory);
+  const [calibrating, setCalibrating] = useState<{ tapeId: number; segId: number; sensorId: string } | null>(null);
+  const [settledTapes, setSettledTapes] = useState<number[]>([]);
+  const settleRef = useRef<SettleSamples>({});
+  const autoRunRef = useRef<Record<number, number>>({});
+  const [busScan, setBusScan] = useState<{ roms: string[]; at: string } | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const sparesRef = useRef(createSpareRoms());
+  const [retiredSensors, setRetiredSensors] = useState<RetiredSensor[]>(saved?.retiredSensors ?? []);
+  const [auxSensors, setAuxSensors] = useState<AuxSensor[]>(() => saved?.auxSensors ?? createDefaultAuxSensors(tapes));
+  // Температура воздуха берётся с датчиков окружающей среды, а не из модели
+  const ambientTemp = siteAmbient(auxSensors);
+  const [lines, setLines] = useState<Line[]>(() => saved?.lines ?? createDefaultLines(tapes));
+  const [snowStatus, setSnowStatus] = useState<Record<number, SnowIceState>>({});
+  const [softStartSettings, setSoftStartSettings] = useState<SoftStartSettings>({ ...DEFAULT_SOFT_START, ...saved?.softStart });
+  const [softStart, setSoftStart] = useState<SoftStartState | null>(null);
+  const softStartRef = useRef<SoftStartState | null>(null);
+  const [replacing, setReplacing] = useState<{ tapeId: number; segId: number; sensorId: string } | null>(null);
+  const [muteUntil, setMuteUntil] = useState<number | null>(saved?.muteUntil ?? null);
+  const [historyStore, setHistoryStore] = useState<HistoryStore | null>(null);
+  const ambientRef = useRef<number | null>(null);
+  const tapesRef = useRef(tapes);
+  const systemOnRef = useRef(systemOn);
+  const auxSensorsRef = useRef(auxSensors);
+  const linesRef = useRef(lines);
+  const snowStatesRef = useRef<Record<number, SnowIceState>>({});
+  const thermostatStatesRef = useRef<Record<number, ThermostatState>>({});
+  // Последние уставки авторежима: удержанный плавным пуском сегмент получает при пуске их, а не мощность из очереди
+  const thermostatTargetsRef = useRef<Map<number, number>>(new Map());
+  const simulatorRef = useRef<ThermalModel | null>(null);
+
+  useEffect(() => {
+    tapesRef.current = tapes;
+  }, [tapes]);
+
+  useEffect(() => {
+    systemOnRef.current = systemOn;
+  }, [systemOn]);
+
+  useEffect(() => {
+    ambientRef.current = ambientTemp;
+  }, [ambientTemp]);
+
+  useEffect(() => {
+    auxSensorsRef.current = auxSensors;
+  }, [auxSensors]);
+
+  useEffect(() => {
+    linesRef.current = lines;
+  }, [lines]);
+
+  useEffect(() => {
+    alertsRef.current = alerts;
+  }, [alerts]);
+
+  useEffect(() => {
+    safetyRef.current = safety;
+  }, [safety]);
+
+  useEffect(() => {
+    autoCalibrationRef.current = autoCalibration;
+  }, [autoCalibration]);
+
+  useEffect(() => {
+    calibrationHistoryRef.current = calibrationHistory;
+    saveCalibrationHistory(calibrationHistory);
+  }, [calibrationHistory]);
+
+  useEffect(() => {
+    saveJournal(logs);
+  }, [logs]);
+
+  const logEvent = useCallback((...entries: NewLogEntry[]) => {
+    setLogs(prev => appendLogEntries(prev, entries));
+  }, []);
+
+  // Очередь пуска читают тики термостата, поэтому ref обновляется сразу, не дожидаясь рендера
+  const updateSoftStart = useCallback((next: SoftStartState | null) => {
+    softStartRef.current = next;
+    setSoftStart(next);
+  }, []);
+
+  // Команды оператора проходят через автомат состояний сегмента; недопустимые отклоняются с записью в журнал
+  const logCommandRejected = useCallback((tapeId: number, seg: Segment, command: SegmentCommandKind, state: SegmentState, actor: LogActor) => {
+    logEvent({ type: "warning", actor, tapeId, segmentId: seg.id, message: `${seg.name}: команда «${SEGMENT_COMMAND_LABELS[command]}» недоступна в состоянии «${SEGMENT_STATE_META[state].label}»` });
+  }, [logEvent]);
+
+  const segmentCommandAllowed = useCallback((tapeId: number, segId: number, command: SegmentCommandKind, actor: LogActor) => {
+    const tape = tapesRef.current.find(t => t.id === tapeId);
+    const seg = tape?.segments.find(s => s.id === segId);
+    if (!tape || !seg) return false;
+    const state = deriveSegmentState(tape, seg, safetyRef.current, systemOnRef.current);
+    if (commandTarget(state, command)) return true;
+    logCommandRejected(tapeId, seg, command, state, actor);
+    return false;
+  }, [logCommandRejected]);
+
+  useEffect(() => {
+    let store: HistoryStore | null = null;
+    let cancelled = false;
+    openHistoryStore()
+      .then(s => {
+        if (cancelled) return s.close();
+        store = s;
+        setHistoryStore(s);
+      })
+      .catch(e => logEvent({ type: "warning", actor: "system", message: e instanceof Error ? e.message : String(e) }));
+    return () => {
+      cancelled = true;
+      store?.close();
+    };
+  }, [logEvent]);
+
+  useEffect(() => {
+    if (!historyStore) return;
+    const record = setInterval(() => {
+      historyStore.record(collectSamples(tapesRef.current, ambientRef.current, Date.now())).catch(() => undefined);
+    }, (parseFloat(pollInterval) || 2) * 1000);
+    const compact = setInterval(() => historyStore.compact().catch(() => undefined), 5 * 60000);
+    historyStore.compact().catch(() => undefined);
+    return () => {
+      clearInterval(record);
+      clearInterval(compact);
+    };
+  }, [historyStore, pollInterval]);
 
   useEffect(() => {
     saveSettings({ tapes });
   }, [tapes]);
 
   useEffect(() => {
-    saveSettings({ systemOn, autoMode, thresholdTemp, alertSound: String(alertSound), pollInterval });
-  }, [systemOn, autoMode, thresholdTemp, alertSound, pollInterval]);
+    saveSettings({ systemOn, autoMode, thresholdTemp, alertSound: String(alertSound), pollInterval, thermostat, dataSource, simulation, controller, mqtt: mqttSettings, alertRules, safety, autoCalibration, softStart: softStartSettings });
+  }, [systemOn, autoMode, thresholdTemp, alertSound, pollInterval, thermostat, dataSource, simulation, controller, mqttSettings, alertRules, safety, autoCalibration, softStartSettings]);
 
   useEffect(() => {
     saveSettings({ alerts });
   }, [alerts]);
 
+  useEffect(() => {
+    saveSettings({ muteUntil });
+  }, [muteUntil]);
+
+  useEffect(() => {
+    saveSettings({ retiredSensors });
+  }, [retiredSensors]);
+
+  useEffect(() => {
+    saveSettings({ auxSensors });
+  }, [auxSensors]);
+
+  useEffect(() => {
+    saveSettings({ lines });
+  }, [lines]);
+
   useEffect(() => {
     const timer = setInterval(() => setCurrentTime(new Date()), 1000);
     return () => clearInterval(timer);
   }, []);
 
   useEffect(() => {
+    simulatorRef.current = createThermalSimulator(simulation);
+  }, [simulation, simRun]);
+
+  useEffect(() => {
+    if (dataSource !== "simulation") return;
+    const periodSec = parseFloat(pollInterval) || 2;
     const timer = setInterval(() => {
-      setTapes(prev => prev.map(t => ({
-        ...t,
-        segments: t.segments.map(s => {
-          if (!s.enabled || !t.enabled) return s;
-          const drift = (Math.random() - 0.5) * 1.5;
-          const newTemp = Math.round((s.temperature + drift) * 10) / 10;
-          return { ...s, temperature: newTemp };
-        }),
+      const simulator = simulatorRef.current;
+      if (!simulator) return;
+      setTapes(prev => simulator.step(prev, periodSec * simulation.timeScale, systemOnRef.current));
+      setAuxSensors(prev => simulator.readAux(prev, tapesRef.current));
+    }, periodSec * 1000);
+    return () => clearInterval(timer);
+  }, [dataSource, pollInterval, simulation.timeScale, simRun]);
+
+  useEffect(() => {
+    if (dataSource !== "device") {
+      adapterRef.current = null;
+      setControllerStatus(null);
+      setControllerError(null);
+      return;
+    }
+    let connection: ControllerConnection;
+    try {
+      connection = createControllerConnection(controller, tapesRef.current, simulation);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      setControllerError(message);
+      logEvent({ type: "error", actor: "system", message });
+      return;
+    }
+    const adapter = connection.adapter;
+    adapterRef.current = adapter;
+    connectionRef.current = connection;
+    setControllerSimulated(connection.simulated);
+    let cancelled = false;
+    let lastError: string | null = null;
+
+    const reportError = (e: unknown) => {
+      if (cancelled) return;
+      const message = e instanceof Error ? e.message : String(e);
+      setControllerError(message);
+      if (lastError === null) {
+        logEvent({ type: "error", actor: "system", message });
+      }
+      lastError = message;
+    };
+    const reportOnline = () => {
+      if (lastError !== null) {
+        logEvent({ type: "success", actor: "system", message: "Связь с контроллером восстановлена" });
+      }
+      lastError = null;
+      setControllerError(null);
+    };
+
+    adapter.readTapes()
+      .then(remote => {
+        if (cancelled) return;
+        setTapes(prev => mergeControllerTapes(prev, remote));
+        reportOnline();
+      })
+      .catch(reportError);
+
+    const poll = async () => {
+      try {
+        const [readings, status] = await Promise.all([adapter.readSensors(), adapter.getStatus()]);
+        if (cancelled) return;
+        setTapes(prev => applySensorReadings(prev, readings));
+        setControllerStatus(status);
+        reportOnline();
+      } catch (e) {
+        reportError(e);
+      }
+    };
+    const timer = setInterval(poll, (parseFloat(pollInterval) || 2) * 1000);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      connectionRef.current = null;
+      connection.close();
+    };
+  }, [dataSource, controller, pollInterval, simulation, logEvent]);
+
+  // Новые сегменты и датчики сразу получают постоянный адрес Modbus, который сохраняется вместе с ними
+  const topology = topologyKey(tapes);
+  useEffect(() => {
+    setTapes(prev => assignModbusAddresses(prev));
+  }, [topology]);
+
+  // Добавленные, удалённые и перенесённые сегменты и датчики попадают в карту регистров без переподключения
+  useEffect(() => {
+    try {
+      connectionRef.current?.updateTopology(tapesRef.current);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      setControllerError(message);
+      logEvent({ type: "error", actor: "system", message });
+    }
+  }, [topology, logEvent]);
+
+  const sendToController = useCallback((command: (adapter: ControllerAdapter) => Promise<void>) => {
+    const adapter = adapterRef.current;
+    if (!adapter) return;
+    command(adapter).catch(e => {
+      logEvent({ type: "error", actor: "system", message: e instanceof Error ? e.message : String(e) });
+    });
+  }, [logEvent]);
+
+  // В симуляции шину изображают привязанные датчики плюс несколько запасных
+  const scanBus = useCallback(() => {
+    const adapter = dataSource === "device" ? adapterRef.current : null;
+    setScanning(true);
+    setScanError(null);
+    (adapter ? adapter.scanBus() : Promise.resolve(simulateBusScan(tapesRef.current, sparesRef.current)))
+      .then(roms => {
+        setBusScan({ roms, at: new Date().toISOString() });
+        const { discovered, unassigned, missing, invalid } = analyzeScan(roms, tapesRef.current);
+        logEvent({
+          type: missing.length > 0 || invalid.length > 0 ? "warning" : "info",
+          actor: "operator",
+          message: `Сканирование 1-Wire: найдено ${discovered.length}, не привязано ${unassigned.length}, не ответило ${missing.length}, с ошибкой ${invalid.length}`,
+        });
+      })
+      .catch(e => setScanError(e instanceof Error ? e.message : String(e)))
+      .finally(() => setScanning(false));
+  }, [dataSource, logEvent]);
+
+  const bindBusSensor = useCallback((serial: string, tapeId: number, segId: number) => {
+    const seg = findSegment(tapesRef.current, tapeId, segId);
+    if (!seg || seg.sensors.some(s => s.serial === serial)) return;
+    if (retiredSensors.some(r => r.serial === serial)) {
+      logEvent({ type: "warning", actor: "operator", tapeId, segmentId: segId, message: `Датчик ${serial} списан — привязка отклонена` });
+      return;
+    }
+    const from = tapesRef.current.flatMap(t => t.segments).find(s => s.sensors.some(x => x.serial === serial));
+    logEvent({
+      type: "info",
+      actor: "operator",
+      tapeId,
+      segmentId: segId,
+      message: from ? `Датчик ${serial} перенесён: ${from.name} → ${seg.name}` : `Датчик ${serial} привязан к ${seg.name}`,
+    });
+    // Перенесённый датчик получает новый логический ID — контроллер должен читать его уже на новом месте
+    const bound = findSegment(bindSensor(tapesRef.current, serial, tapeId, segId), tapeId, segId)?.sensors.find(s => s.serial === serial);
+    if (bound) sendToController(a => a.bindSensor(segId, bound.id, serial));
+    setTapes(prev => bindSensor(prev, serial, tapeId, segId));
+  }, [sendToController, logEvent, retiredSensors]);
+
+  const setSensorPosition = useCallback((tapeId: number, segId: number, sensorId: string, position: number) => {
+    const tape = tapesRef.current.find(t => t.id === tapeId);
+    if (!tape || validatePosition(position, tape)) return;
+    logEvent({ type: "info", actor: "operator", tapeId, segmentId: segId, message: `${sensorId}: позиция ${position} м от начала ленты` });
+    setTapes(prev => prev.map(t =>
+      t.id === tapeId
+        ? { ...t, segments: t.segments.map(s => s.id === segId ? { ...s, sensors: s.sensors.map(x => x.id === sensorId ? { ...x, position } : x) } : s) }
+        : t
+    ));
+  }, [logEvent]);
+
+  const replaceBusSensor = useCallback((tapeId: number, segId: number, sensorId: string, serial: string, note: string) => {
+    const result = replaceSensor(tapesRef.current, segId, sensorId, serial, note);
+    if (!result.retired) return;
+    const { retired } = result;
+    sendToController(a => a.bindSensor(segId, sensorId, serial));
+    setTapes(prev => replaceSensor(prev, segId, sensorId, serial, note).tapes);
+    setRetiredSensors(prev => [...prev, retired]);
+    logEvent({
+      type: "warning",
+      actor: "operator",
+      tapeId,
+      segmentId: segId,
+      message: `${sensorId}: замена датчика ${retired.serial} → ${serial}${note ? ` (${note})` : ""}`,
+    });
+  }, [sendToController, logEvent]);
+
+  const addAuxSensor = useCallback((kind: AuxSensorKind, name: string, attachment: SensorAttachment) => {
+    const sensor = createAuxSensor(auxSensors, kind, name, attachment);
+    logEvent({ type: "info", actor: "operator", message: `Добавлен датчик ${sensor.id} (${sensor.name}): ${attachmentLabel(attachment, tapesRef.current)}` });
+    setAuxSensors(prev => [...prev, sensor]);
+  }, [auxSensors, logEvent]);
+
+  const removeAuxSensor = useCallback((id: string) => {
+    const sensor = auxSensors.find(s => s.id === id);
+    if (!sensor) return;
+    logEvent({ type: "info", actor: "operator", message: `Удалён датчик ${sensor.id} (${sensor.name})` });
+    setAuxSensors(prev => prev.filter(s => s.id !== id));
+  }, [auxSensors, logEvent]);
+
+  // Пока система выключена, выходы держатся обесточенными; уставка сохраняется в состоянии сегмента
+  // Команды, пришедшие с брокера, обратно в /set не публикуются
+  const sendSegmentCommand = useCallback((command: SegmentCommand, actor: LogActor = "system") => {
+    if (command.power !== undefined && !systemOnRef.current) command = { ...command, power: 0 };
+    const { segmentId, enabled, power } = command;
+    if (enabled !== undefined) sendToController(a => a.setSegmentEnabled(segmentId, enabled));
+    if (power !== undefined) sendToController(a => a.setSegmentPower(segmentId, power));
+    if (actor !== "mqtt") mqttRef.current?.publishSegmentCommand(command);
+  }, [sendToController]);
+
+  useEffect(() => {
+    if (!mqttSettings.enabled || !mqttSettings.url.trim()) {
+      setMqttState({ connected: false });
+      return;
+    }
+    const bridge = createMqttBridge(mqttSettings, {
+      onSensorTemperature: ({ segmentId, serial }, temperature) => {
+        const sensor = tapesRef.current.flatMap(t => t.segments).find(s => s.id === segmentId)?.sensors.find(s => s.serial === serial);
+        if (!sensor) return;
+        setTapes(prev => applySensorReadings(prev, [{ segmentId, sensorId: sensor.id, serial, temperature, status: "online" }]));
+      },
+      onAuxValue: (id, value) => {
+        setAuxSensors(prev => prev.map(s => s.id === id ? ingestAuxValue(s, value, new Date()) : s));
+      },
+      onSegmentCommand: command => {
+        const { tapeId, segmentId } = command;
+        const seg = findSegment(tapesRef.current, tapeId, segmentId);
+        const plan = planMqttCommand(tapesRef.current, command, {
+          systemOn: systemOnRef.current,
+          safety: safetyRef.current,
+          softStart: softStartRef.current,
+        });
+        if (!seg || !plan) return;
+        plan.rejected.forEach(kind => logCommandRejected(tapeId, seg, kind, plan.state, "mqtt"));
+        if (plan.powerIgnored) {
+          logEvent({ type: "warning", actor: "mqtt", tapeId, segmentId, message: `${seg.name}: команда MQTT «мощность ${command.power}%» отклонена — система выключена` });
+        }
+        if (plan.heldPower !== null) {
+          updateSoftStart(deferHeldPowers(softStartRef.current, new Map([[segmentId, plan.heldPower]])).state);
+        }
+        const { enabled, power, targetTemp } = plan.command;
+        if (enabled === false) updateSoftStart(cancelSoftStart(softStartRef.current, [segmentId]));
+        // Свои же команды возвращаются эхом — в журнал пишем только реальные изменения
+        const changes = [
+          enabled !== undefined && enabled !== seg.enabled ? (enabled ? "включить" : "выключить") : null,
+          power !== undefined && power !== seg.power ? `мощность ${power}%` : null,
+          plan.heldPower !== null ? `мощность ${plan.heldPower}% после плавного пуска` : null,
+          targetTemp !== undefined && targetTemp !== seg.targetTemp ? `цель ${targetTemp}°C` : null,
+        ].filter(Boolean);
+        if (changes.length > 0) {
+          logEvent({ type: "info", actor: "mqtt", tapeId, segmentId, coalesce: `mqtt:${segmentId}`, message: `${seg.name}: команда MQTT — ${changes.join(", ")}` });
+        }
+        sendSegmentCommand(plan.command, "mqtt");
+        setTapes(prev => prev.map(t => t.id === tapeId
+          ? {
+              ...t,
+              segments: t.segments.map(s => s.id === segmentId
+                ? {
+                    ...s,
+                    ...(enabled !== undefined ? { enabled } : {}),
+                    ...(power !== undefined ? { power } : {}),
+                    ...(targetTemp !== undefined ? { targetTemp: Math.min(30, Math.max(-10, targetTemp)) } : {}),
+                  }
+                : s),
+            }
+          : t));
+      },
+      onConnectionChange: (connected, error) => setMqttState({ connected, error }),
+    });
+    mqttRef.current = bridge;
+    bridge.publishState(tapesRef.current);
+    return () => {
+      mqttRef.current = null;
+      bridge.close();
+    };
+  }, [mqttSettings, sendSegmentCommand, updateSoftStart, logCommandRejected, logEvent]);
+
+  useEffect(() => {
+    if (mqttState.connected) mqttRef.current?.publishState(tapes);
+  }, [tapes, mqttState.connected]);
+
+  useEffect(() => {
+    thermostatStatesRef.current = {};
+    thermostatTargetsRef.current = new Map();
+    if (!systemOn || !autoMode) {
+      setSnowStatus({});
+      return;
+    }
+    const threshold = parseFloat(thresholdTemp);
+    const periodSec = parseFloat(pollInterval) || 2;
+    const tick = () => {
+      const result = runThermostat(
+        tapesRef.current,
+        thermostatStatesRef.current,
+        thermostat,
+        isNaN(threshold) ? 5 : threshold,
+        Date.now(),
+        periodSec,
+        auxSensorsRef.current,
+        snowStatesRef.current,
+      );
+      thermostatStatesRef.current = result.states;
+      thermostatTargetsRef.current = result.targets;
+      snowStatesRef.current = result.snow;
+      setSnowStatus(result.snow);
+      const held = deferHeldPowers(softStartRef.current, result.powers);
+      if (held.state !== softStartRef.current) updateSoftStart(held.state);
+      const powers = held.powers;
+      if (powers.size > 0) {
+        tapesRef.current.forEach(t => t.segments.forEach(s => {
+          const power = powers.get(s.id);
+          if (power !== undefined) sendSegmentCommand({ tapeId: t.id, segmentId: s.id, power });
+        }));
+        setTapes(prev => prev.map(t => ({
+          ...t,
+          segments: t.segments.map(s => powers.has(s.id) ? { ...s, power: powers.get(s.id)! } : s),
+        })));
+      }
+      logEvent(...result.decisions.map(d => ({
+        type: d.type,
+        actor: "auto" as const,
+        message: d.message,
+        tapeId: d.tapeId,
+        segmentId: d.segmentId,
       })));
-    }, 3000);
+    };
+    tick();
+    const timer = setInterval(tick, periodSec * 1000);
+    return () => clearInterval(timer);
+  }, [systemOn, autoMode, thresholdTemp, pollInterval, thermostat, sendSegmentCommand, updateSoftStart, logEvent]);
+
+  useEffect(() => {
+    const pollMs = (parseFloat(pollInterval) || 2) * 1000;
+    const timer = setInterval(() => {
+      setTapes(prev => markStaleSensors(prev, Date.now(), pollMs));
+      setAuxSensors(prev => markStaleAux(prev, Date.now(), pollMs));
+    }, pollMs);
+    return () => clearInterval(timer);
+  }, [pollInterval]);
+
+  // Супервизор защиты работает всегда — независимо от системы, авторежима и вкладки
+  useEffect(() => {
+    const tick = () => {
+      // Один проход на тик: по его результату и отключаем сегменты, и пишем журнал
+      const source = tapesRef.current;
+      const { tapes: supervised, trips } = superviseSegments(source, safety, new Date());
+      // На свежее состояние накладываются только поля, которые меняет супервизор, и только у его сегментов
+      const before = new Set(source.flatMap(t => t.segments));
+      const changed = new Map(supervised.flatMap(t => t.segments).filter(s => !before.has(s)).map(s => [s.id, s]));
+      if (changed.size > 0) {
+        setTapes(prev => prev.map(t => t.segments.some(s => changed.has(s.id))
+          ? {
+              ...t,
+              segments: t.segments.map(s => {
+                const next = changed.get(s.id);
+                return next ? { ...s, enabled: next.enabled, power: next.power, fault: next.fault, trips: next.trips } : s;
+              }),
+            }
+          : t));
+      }
+      trips.forEach(({ tapeId, segmentId, fault }) => {
+        sendSegmentCommand({ tapeId, segmentId, enabled: false, power: 0 });
+        const seg = findSegment(supervised, tapeId, segmentId);
+        logEvent({
+          type: "error",
+          actor: "system",
+          tapeId,
+          segmentId,
+          message: `${seg?.name ?? `Сегмент ${segmentId}`}: защита — ${FAULT_LABELS[fault.reason].toLowerCase()} (${fault.message}), сегмент отключён до сброса`,
+        });
+      });
+    };
+    tick();
+    const timer = setInterval(tick, SAFETY_PERIOD_MS);
+    return () => clearInterval(timer);
+  }, [safety, sendSegmentCommand, logEvent]);
+
+  // Секвенсор плавного пуска тикает, только пока есть очередь или не закончился пусковой ток
+  const softStartActive = softStart !== null;
+  useEffect(() => {
+    if (!softStartActive) return;
+    const tick = () => {
+      const current = softStartRef.current;
+      if (!current) return;
+      const step = stepSoftStart(current, tapesRef.current, linesRef.current, softStartSettings, Date.now(), i => thermostatTargetsRef.current.get(i.segmentId));
+      const forced = new Set(step.forced.map(i => i.segmentId));
+      const timedOut = new Set(step.timedOut.map(i => i.segmentId));
+      const segName = (i: SoftStartItem) => findSegment(tapesRef.current, i.tapeId, i.segmentId)?.name ?? `Сегмент ${i.segmentId}`;
+      const powers = new Map(step.released.map(i => [i.segmentId, i.power]));
+      step.released.forEach(i => sendSegmentCommand({ tapeId: i.tapeId, segmentId: i.segmentId, power: i.power }));
+      logEvent(
+        ...step.stalled.map(i => ({
+          type: "warning" as const,
+          actor: "system" as const,
+          tapeId: i.tapeId,
+          segmentId: i.segmentId,
+          message: `${segName(i)}: плавный пуск стоит — рабочая нагрузка линии не оставляет места под пусковой ток ~${((i.inrushA * i.power) / 100).toFixed(1)} A, принудительное включение через ${softStartSettings.maxWaitSec} с`,
+        })),
+        ...step.released.filter(i => i.power > 0).map(i => ({
+          type: forced.has(i.segmentId) || timedOut.has(i.segmentId) ? "warning" as const : "info" as const,
+          actor: "system" as const,
+          tapeId: i.tapeId,
+          segmentId: i.segmentId,
+          message: `${segName(i)}: плавный пуск — ${i.power}%, пусковой ток ~${((i.inrushA * i.power) / 100).toFixed(1)} A${forced.has(i.segmentId) ? " больше автомата линии, включён в одиночку" : ""}${timedOut.has(i.segmentId) ? ` — включён принудительно после ${softStartSettings.maxWaitSec} с ожидания` : ""}`,
+        })),
+        ...(step.state ? [] : [{ type: "success" as const, actor: "system" as const, message: `Плавный пуск завершён: ${current.reason}` }]),
+      );
+      if (powers.size > 0) {
+        setTapes(prev => prev.map(t => ({
+          ...t,
+          segments: t.segments.map(s => powers.has(s.id) ? { ...s, power: powers.get(s.id)! } : s),
+        })));
+      }
+      updateSoftStart(step.state);
+    };
+    tick();
+    const timer = setInterval(tick, SOFT_START_PERIOD_MS);
+    return () => clearInterval(timer);
+  }, [softStartActive, softStartSettings, sendSegmentCommand, updateSoftStart, logEvent]);
+
+  // Сегменты очереди сначала сбрасываются в ноль, затем секвенсор включает их по одному на линию
+  const startSoftStart = useCallback((segments: { tapeId: number; segmentId: number }[], reason: string) => {
+    const plan = createSoftStart(tapesRef.current, segments, reason, Date.now());
+    if (!plan) return;
+    const ids = new Set(plan.queue.map(i => i.segmentId));
+    plan.queue.forEach(i => sendSegmentCommand({ tapeId: i.tapeId, segmentId: i.segmentId, power: 0 }));
+    logEvent({ type: "info", actor: "system", message: `Плавный пуск: ${reason} — в очереди ${plan.queue.length} сегм.` });
+    setTapes(prev => prev.map(t => ({
+      ...t,
+      segments: t.segments.map(s => ids.has(s.id) ? { ...s, power: 0 } : s),
+    })));
+    updateSoftStart(mergeSoftStart(softStartRef.current, plan));
+  }, [sendSegmentCommand, updateSoftStart, logEvent]);
+
+  useEffect(() => {
+    alertStateRef.current = EMPTY_ALERT_STATE;
+    const periodSec = parseFloat(pollInterval) || 2;
+    const tick = () => {
+      const now = Date.now();
+      const loads = computeLineLoads(tapesRef.current, linesRef.current, systemOnRef.current);
+      const result = evaluateAlertRules(tapesRef.current, loads, alertStateRef.current, alertRules, now);
+      alertStateRef.current = result.state;
+      const next = reconcileAlerts(alertsRef.current, result.conditions, new Date(now).toLocaleString("ru-RU"));
+      if (next.alerts === alertsRef.current) return;
+      alertsRef.current = next.alerts;
+      setAlerts(next.alerts);
+      logEvent(
+        ...next.raised.map(a => ({ type: a.severity === "critical" || a.severity === "high" ? "error" as const : "warning" as const, actor: "system" as const, message: `Алерт: ${a.message}` })),
+        ...next.resolved.map(a => ({ type: "success" as const, actor: "system" as const, message: `Устранено: ${a.message}` })),
+      );
+    };
+    tick();
+    const timer = setInterval(tick, periodSec * 1000);
     return () => clearInterval(timer);
+  }, [pollInterval, alertRules, logEvent]);
+
+  const updateAlertRules = useCallback((field: keyof AlertRuleSettings, value: number) => {
+    setAlertRules(prev => ({ ...prev, [field]: value }));
+  }, []);
+
+  const updateThermostat = useCallback(<K extends keyof ThermostatSettings>(field: K, value: ThermostatSettings[K]) => {
+    setThermostat(prev => ({ ...prev, [field]: value }));
+  }, []);
+
+  const updateController = useCallback(<K extends keyof ControllerConfig>(field: K, value: ControllerConfig[K]) => {
+    setController(prev => ({ ...prev, [field]: value }));
+  }, []);
+
+  const updateMqtt = useCallback(<K extends keyof MqttSettings>(field: K, value: MqttSettings[K]) => {
+    setMqttSettings(prev => ({ ...prev, [field]: value }));
   }, []);
 
+  const updateSimulation = useCallback((field: keyof SimulationSettings, value: number) => {
+    setSimulation(prev => ({ ...prev, [field]: value }));
+  }, []);
+
+  // Выключение обесточивает все выходы; включение поднимает их из холодного состояния —
+  // через плавный пуск или сразу на сохранённые уставки
+  const toggleSystem = useCallback((on: boolean) => {
+    if (on === systemOnRef.current) return;
+    systemOnRef.current = on;
+    setSystemOn(on);
+    logEvent({ type: on ? "success" : "warning", actor: "operator", message: on ? "Система включена" : "Система выключена" });
+    const segments = tapesRef.current.flatMap(t => t.segments.map(s => ({ tapeId: t.id, seg: s })));
+    if (!on) {
+      updateSoftStart(null);
+      segments.forEach(({ tapeId, seg }) => sendSegmentCommand({ tapeId, segmentId: seg.id, power: 0 }));
+      return;
+    }
+    const energizable = tapesRef.current.flatMap(t => t.enabled
+      ? t.segments.filter(s => s.enabled && !s.fault && !s.maintenance).map(s => ({ tapeId: t.id, segmentId: s.id }))
+      : []);
+    if (softStartSettings.enabled) {
+      startSoftStart(energizable, "включение системы");
+      return;
+    }
+    segments.forEach(({ tapeId, seg }) => sendSegmentCommand({ tapeId, segmentId: seg.id, power: seg.power }));
+  }, [softStartSettings, startSoftStart, sendSegmentCommand, updateSoftStart, logEvent]);
+
+  const toggleAutoMode = useCallback((on: boolean) => {
+    setAutoMode(on);
+    logEvent({ type: "info", actor: "operator", message: on ? "Автоматический режим включён" : "Автоматический режим выключен — ручное управление" });
+  }, [logEvent]);
+
   const toggleTape = useCallback((tapeId: number) => {
+    const tape = tapesRef.current.find(t => t.id === tapeId);
+    if (tape) logEvent({ type: "info", actor: "operator", tapeId, message: `${tape.name} ${tape.enabled ? "выключена" : "включена"}` });
     setTapes(prev => prev.map(t => t.id === tapeId ? { ...t, enabled: !t.enabled } : t));
-  }, []);
+  }, [logEvent]);
 
+  // Новая длина ленты раскладывается по сегментам пропорционально, датчики едут вместе со своими сегментами
   const updateTapeField = useCallback((tapeId: number, field: string, value: string) => {
-    setTapes(prev => prev.map(t => t.id === tapeId ? { ...t, [field]: value } : t));
+    setTapes(prev => prev.map(t => {
+      if (t.id !== tapeId) return t;
+      const next = { ...t, [field]: value };
+      return field === "length" ? relayoutSensorPositions(t, fitSegmentLengths(next)) : next;
+    }));
   }, []);
 
-  const addTape = useCallback(() => {
-    setTapes(prev => {
-      const maxTapeId = prev.reduce((m, t) => Math.max(m, t.id), 0);
-      const maxSeg = getMaxSegId(prev);
-      return [...prev, createTape(maxTapeId + 1, maxSeg + 1, 4)];
-    });
+  // Длина ленты следует за суммой длин сегментов
+  const setSegmentLength = useCallback((tapeId: number, segId: number, length: number) => {
+    setTapes(prev => prev.map(t => {
+      if (t.id !== tapeId) return t;
+      const segments = t.segments.map(s => s.id === segId ? { ...s, length } : s);
+      const total = segments.reduce((a, s) => a + segmentLength(t, s), 0);
+      return relayoutSensorPositions(t, { ...t, segments, length: String(Math.round(total * 100) / 100) });
+    }));
+  }, []);
+
+  const setTapeProduct = useCallback((tapeId: number, productId: string) => {
+    const tape = tapesRef.current.find(t => t.id === tapeId);
+    const product = CABLE_PRODUCTS.find(p => p.id === productId);
+    if (!tape || !product) return;
+    logEvent({ type: "info", actor: "operator", tapeId, message: `${tape.name}: кабель ${productLabel(tapeProduct(tape))} → ${productLabel(product)}` });
+    setTapes(prev => prev.map(t => t.id === tapeId ? { ...t, productId } : t));
+  }, [logEvent]);
+
+  const addLine = useCallback(() => {
+    const line = createLine(linesRef.current);
+    logEvent({ type: "info", actor: "operator", message: `Добавлена ${line.name} (${line.phase})` });
+    setLines(prev => [...prev, line]);
+  }, [logEvent]);
+
+  const updateLine = useCallback((id: number, patch: Partial<Line>) => {
+    setLines(prev => prev.map(l => l.id === id ? { ...l, ...patch } : l));
+  }, []);
+
+  // Ленты и сегменты удалённой линии остаются без питания в модели — оператор переназначит их
+  const removeLine = useCallback((id: number) => {
+    const line = linesRef.current.find(l => l.id === id);
+    if (!line) return;
+    logEvent({ type: "warning", actor: "operator", message: `Удалена ${line.name} (${line.phase})` });
+    setLines(prev => prev.filter(l => l.id !== id));
+    setTapes(prev => prev.map(t => ({
+      ...t,
+      lineId: t.lineId === id ? undefined : t.lineId,
+      segments: t.segments.map(s => s.lineId === id ? { ...s, lineId: undefined } : s),
+    })));
+  }, [logEvent]);
+
+  const assignTapeLine = useCallback((tapeId: number, lineId: number | null) => {
+    const tape = tapesRef.current.find(t => t.id === tapeId);
+    const line = linesRef.current.find(l => l.id === lineId);
+    if (!tape) return;
+    logEvent({ type: "info", actor: "operator", tapeId, message: `${tape.name}: ${line ? `подключена к ${line.name} (${line.phase})` : "отключена от линии питания"}` });
+    setTapes(prev => prev.map(t => t.id === tapeId ? { ...t, lineId: lineId ?? undefined } : t));
+  }, [logEvent]);
+
+  const assignSegmentLine = useCallback((tapeId: number, segId: number, lineId: number | null) => {
+    const seg = findSegment(tapesRef.current, tapeId, segId);
+    const line = linesRef.current.find(l => l.id === lineId);
+    if (!seg) return;
+    logEvent({ type: "info", actor: "operator", tapeId, segmentId: segId, message: `${seg.name}: ${line ? `питание от ${line.name} (${line.phase})` : "питание от линии ленты"}` });
+    setTapes(prev => prev.map(t => t.id === tapeId
+      ? { ...t, segments: t.segments.map(s => s.id === segId ? { ...s, lineId: lineId ?? undefined } : s) }
+      : t));
+  }, [logEvent]);
+
+  const setTapeControlMode = useCallback((tapeId: number, mode: ControlMode) => {
+    const tape = tapesRef.current.find(t => t.id === tapeId);
+    if (!tape || (tape.controlMode ?? "thermostat") === mode) return;
+    logEvent({ type: "info", actor: "operator", tapeId, message: `${tape.name}: режим автоматики — ${CONTROL_MODE_LABELS[mode]}` });
+    setTapes(prev => prev.map(t => t.id === tapeId ? { ...t, controlMode: mode } : t));
+  }, [logEvent]);
+
+  const setTapeSnowIce = useCallback((tapeId: number, settings: SnowIceSettings) => {
+    setTapes(prev => prev.map(t => t.id === tapeId ? { ...t, snowIce: settings } : t));
   }, []);
 
+  const addTape = useCallback(() => {
+    const prev = tapesRef.current;
+    const maxTapeId = prev.reduce((m, t) => Math.max(m, t.id), 0);
+    const tape = createTape(maxTapeId + 1, getMaxSegId(prev) + 1, 4);
+    logEvent({ type: "info", actor: "operator", tapeId: tape.id, message: `Добавлена ${tape.name} (${tape.segments.length} сегм.)` });
+    setTapes([...prev, tape]);
+  }, [logEvent]);
+
   const removeTape = useCallback((tapeId: number) => {
+    const tape = tapesRef.current.find(t => t.id === tapeId);
+    if (!tape || tapesRef.current.length <= 1) return;
+    logEvent({ type: "warning", actor: "operator", tapeId, message: `Удалена ${tape.name}` });
     setTapes(prev => prev.length > 1 ? prev.filter(t => t.id !== tapeId) : prev);
-  }, []);
+  }, [logEvent]);
 
   const addSegmentToTape = useCallback((tapeId: number) => {
     setTapes(prev => {
       const maxSeg = getMaxSegId(prev);
-      return prev.map(t =>
-        t.id === tapeId ? { ...t, segments: [...t.segments, createSegment(maxSeg + 1, false)] } : t
-      );
+      return prev.map(t => {
+        if (t.id !== tapeId) return t;
+        const average = t.segments.length > 0 ? t.segments.reduce((a, s) => a + segmentLength(t, s), 0) / t.segments.length : 0;
+        return relayoutSensorPositions(t, fitSegmentLengths({ ...t, segments: [...t.segments, { ...createSegment(maxSeg + 1, false), length: average }] }));
+      });
     });
   }, []);
 
   const removeSegmentFromTape = useCallback((tapeId: number, segId: number) => {
     setTapes(prev => prev.map(t =>
       t.id === tapeId
-        ? { ...t, segments: t.segments.length > 1 ? t.segments.filter(s => s.id !== segId) : t.segments }
+        ? relayoutSensorPositions(t, fitSegmentLengths({ ...t, segments: t.segments.length > 1 ? t.segments.filter(s => s.id !== segId) : t.segments }))
         : t
     ));
   }, []);
 
   const toggleSegment = useCallback((tapeId: number, segId: number) => {
+    const current = findSegment(tapesRef.current, tapeId, segId);
+    if (!current || !segmentCommandAllowed(tapeId, segId, current.enabled ? "disable" : "enable", "operator")) return;
+    updateSoftStart(cancelSoftStart(softStartRef.current, [segId]));
+    sendSegmentCommand({ tapeId, segmentId: segId, enabled: !current.enabled });
+    logEvent({ type: "info", actor: "operator", tapeId, segmentId: segId, message: `${current.name} ${current.enabled ? "выключен" : "включён"}` });
     setTapes(prev => prev.map(t =>
       t.id === tapeId
-        ? { ...t, segments: t.segments.map(s => s.id === segId ? { ...s, enabled: !s.enabled, status: !s.enabled ? "normal" as const : "off" as const } : s) }
+        ? { ...t, segments: t.segments.map(s => s.id === segId ? { ...s, enabled: !current.enabled } : s) }
         : t
     ));
-  }, []);
+  }, [sendSegmentCommand, segmentCommandAllowed, updateSoftStart, logEvent]);
+
+  const setTapeSegmentsEnabled = useCallback((tapeId: number, enabled: boolean) => {
+    const tape = tapesRef.current.find(t => t.id === tapeId);
+    if (!tape) return;
+    // Групповая команда молча пропускает сегменты в аварии, блокировке и на обслуживании
+    const changed = tape.segments.filter(s =>
+      s.enabled !== enabled && commandTarget(deriveSegmentState(tape, s, safetyRef.current, systemOnRef.current), enabled ? "enable" : "disable"));
+    if (changed.length === 0) return;
+    // Плавный пуск сбрасывает мощность до включения, чтобы сегменты не стартовали разом
+    if (enabled && softStartSettings.enabled) {
+      startSoftStart(changed.map(s => ({ tapeId, segmentId: s.id })), `${tape.name}: включение всех сегментов`);
+    } else if (!enabled) {
+      updateSoftStart(cancelSoftStart(softStartRef.current, changed.map(s => s.id)));
+    }
+    changed.forEach(s => sendSegmentCommand({ tapeId, segmentId: s.id, enabled }));
+    logEvent({ type: "info", actor: "operator", tapeId, message: `${tape.name}: ${enabled ? "включены" : "выключены"} сегменты (${changed.length})` });
+    const ids = new Set(changed.map(s => s.id));
+    setTapes(prev => prev.map(t =>
+      t.id === tapeId
+        ? { ...t, segments: t.segments.map(s => ids.has(s.id) ? { ...s, enabled } : s) }
+        : t
+    ));
+  }, [softStartSettings, startSoftStart, sendSegmentCommand, updateSoftStart, logEvent]);
+
+  const setMaintenance = useCallback((tapeId: number, segId: number, on: boolean) => {
+    const seg = findSegment(tapesRef.current, tapeId, segId);
+    if (!seg || !segmentCommandAllowed(tapeId, segId, on ? "maintenance-on" : "maintenance-off", "operator")) return;
+    logEvent({ type: "info", actor: "operator", tapeId, segmentId: segId, message: `${seg.name}: ${on ? "выведен на обслуживание" : "возвращён из обслуживания"}` });
+    setTapes(prev => prev.map(t =>
+      t.id === tapeId
+        ? { ...t, segments: t.segments.map(s => s.id === segId ? { ...s, maintenance: on || undefined } : s) }
+        : t
+    ));
+  }, [segmentCommandAllowed, logEvent]);
 
   const setSegPower = useCallback((tapeId: number, segId: number, power: number) => {
+    const seg = findSegment(tapesRef.current, tapeId, segId);
+    // Ручная уставка снимает сегмент с очереди плавного пуска
+    updateSoftStart(cancelSoftStart(softStartRef.current, [segId]));
+    sendSegmentCommand({ tapeId, segmentId: segId, power });
+    if (seg && seg.power !== power) {
+      logEvent({ type: "info", actor: "operator", tapeId, segmentId: segId, coalesce: `power:${segId}`, message: `${seg.name}: мощность ${power}%` });
+    }
     setTapes(prev => prev.map(t =>
       t.id === tapeId
         ? { ...t, segments: t.segments.map(s => s.id === segId ? { ...s, power } : s) }
         : t
     ));
-  }, []);
+  }, [sendSegmentCommand, updateSoftStart, logEvent]);
+
+  // Адрес Modbus — разводка шкафа: меняется только на свободный, два сегмента на одном реле недопустимы
+  const setSegmentModbusAddress = useCallback((tapeId: number, segId: number, address: number) => {
+    const seg = findSegment(tapesRef.current, tapeId, segId);
+    if (!seg || seg.modbusAddress === address) return true;
+    const owner = tapesRef.current.flatMap(t => t.segments).find(s => s.id !== segId && s.modbusAddress === address);
+    const problem = !Number.isInteger(address) || address < 0 || address > MAX_SEGMENT_ADDRESS
+      ? `допустимы адреса 0…${MAX_SEGMENT_ADDRESS}`
+      : owner ? `адрес ${address} занят сегментом «${owner.name}»` : null;
+    if (problem) {
+      logEvent({ type: "warning", actor: "operator", tapeId, segmentId: segId, message: `${seg.name}: адрес Modbus не изменён — ${problem}` });
+      return false;
+    }
+    logEvent({ type: "info", actor: "operator", tapeId, segmentId: segId, message: `${seg.name}: адрес Modbus ${seg.modbusAddress ?? "—"} → ${address}` });
+    setTapes(prev => prev.map(t =>
+      t.id === tapeId
+        ? { ...t, segments: t.segments.map(s => s.id === segId ? { ...s, modbusAddress: address } : s) }
+        : t
+    ));
+    return true;
+  }, [logEvent]);
 
   const setSegTargetTemp = useCallback((tapeId: number, segId: number, targetTemp: number) => {
+    const seg = findSegment(tapesRef.current, tapeId, segId);
+    if (seg && seg.targetTemp !== targetTemp) {
+      logEvent({ type: "info", actor: "operator", tapeId, segmentId: segId, coalesce: `target:${segId}`, message: `${seg.name}: целевая температура ${targetTemp}°C` });
+    }
     setTapes(prev => prev.map(t =>
       t.id === tapeId
         ? { ...t, segments: t.segments.map(s => s.id === segId ? { ...s, targetTemp } : s) }
         : t
     ));
-  }, []);
+  }, [logEvent]);
+
+  const setSegAggregation = useCallback((tapeId: number, segId: number, patch: Partial<SegmentAggregation>) => {
+    const seg = findSegment(tapesRef.current, tapeId, segId);
+    if (!seg) return;
+    const aggregation = { ...(seg.aggregation ?? DEFAULT_AGGREGATION), ...patch };
+    if (patch.method && patch.method !== seg.aggregation?.method) {
+      logEvent({ type: "info", actor: "operator", tapeId, segmentId: segId, message: `${seg.name}: температура сегмента — ${AGGREGATION_LABELS[patch.method].toLowerCase()}` });
+    }
+    if (patch.outlierDelta !== undefined) {
+      logEvent({ type: "info", actor: "operator", tapeId, segmentId: segId, coalesce: `outlier:${segId}`, message: `${seg.name}: порог выброса ${patch.outlierDelta}°C` });
+    }
+    setTapes(prev => prev.map(t =>
+      t.id === tapeId
+        ? { ...t, segments: t.segments.map(s => s.id === segId ? aggregateSegment({ ...s, aggregation }) : s) }
+        : t
+    ));
+  }, [logEvent]);
+
+  const setSensorCalibration = useCallback((tapeId: number, segId: number, sensorId: string, calibration: SensorCalibration) => {
+    const sensor = findSegment(tapesRef.current, tapeId, segId)?.sensors.find(s => s.id === sensorId);
+    if (!sensor || sameCalibration(sensor.calibration, calibration)) return;
+    const record = {
+      timestamp: new Date().toISOString(),
+      tapeId,
+      segmentId: segId,
+      sensorId,
+      serial: sensor.serial,
+      source: "manual" as const,
+      before: sensor.calibration ?? IDENTITY_CALIBRATION,
+      after: calibration,
+    };
+    setTapes(prev => applyCalibrations(prev, [record]));
+    setCalibrationHistory(prev => appendCalibrations(prev, [record]));
+    logEvent({ type: "info", actor: "operator", tapeId, segmentId: segId, message: `${sensorId}: калибровка ${formatCalibration(calibration)}` });
+  }, [logEvent]);
+
+  const runAutoCalibration = useCallback((tapeId: number, actor: LogActor) => {
+    const tape = tapesRef.current.find(t => t.id === tapeId);
+    if (!tape) return;
+    const settings = autoCalibrationRef.current;
+    autoRunRef.current[tapeId] = Date.now();
+    const { records, skipped } = autoCalibrateTape(tape, settings, new Date());
+    if (records.length > 0) {
+      setTapes(prev => applyCalibrations(prev, records));
+      setCalibrationHistory(prev => appendCalibrations(prev, records));
+    }
+    const entries: NewLogEntry[] = [];
+    if (records.length > 0) {
+      entries.push({ type: "success", actor, tapeId, message: `${tape.name}: автоматическая калибровка завершена, датчиков: ${records.length}` });
+    }
+    if (skipped.length > 0) {
+      entries.push({ type: "warning", actor, tapeId, message: `${tape.name}: ${skipped.map(s => s.id).join(", ")} — расхождение с медианой ленты больше ${settings.maxOffset}°C, требуется проверка` });
+    }
+    if (entries.length === 0) {
+      entries.push({ type: "warning", actor, tapeId, message: `${tape.name}: автоматическая калибровка не выполнена — на связи меньше трёх датчиков` });
+    }
+    logEvent(...entries);
+  }, [logEvent]);
+
+  // Автокалибровка: выключенная лента остывает до окружающей среды, дальше раз в intervalHours
+  // датчики подтягиваются к медиане ленты
+  useEffect(() => {
+    const pollMs = (parseFloat(pollInterval) || 2) * 1000;
+    const timer = setInterval(() => {
+      const now = Date.now();
+      const settings = autoCalibrationRef.current;
+      settleRef.current = trackSettling(settleRef.current, tapesRef.current, now, settings.settleMinutes * 60000);
+      const settled = tapesRef.current.filter(t => isTapeSettled(t, settleRef.current, now, settings)).map(t => t.id);
+      setSettledTapes(prev => prev.join() === settled.join() ? prev : settled);
+      if (!settings.enabled) return;
+      settled.forEach(tapeId => {
+        const last = autoRunRef.current[tapeId] ?? lastAutoCalibration(calibrationHistoryRef.current, tapeId);
+        if (last !== null && now - last < settings.intervalHours * 3600000) return;
+        runAutoCalibration(tapeId, "auto");
+      });
+    }, pollMs);
+    return () => clearInterval(timer);
+  }, [pollInterval, runAutoCalibration]);
+
+  // Блокировку снимает только подтверждённый сброс: оператор подтверждает осмотр, алерт считается принятым
+  const resetFault = useCallback((tapeId: number, segId: number, confirmed = false) => {
+    const tape = tapesRef.current.find(t => t.id === tapeId);
+    const seg = findSegment(tapesRef.current, tapeId, segId);
+    if (!tape || !seg?.fault || !segmentCommandAllowed(tapeId, segId, "reset", "operator")) return;
+    const lockout = Boolean(seg.fault.lockout);
+    if (lockout && !confirmed) {
+      setLockoutReset({ tapeId, segId });
+      return;
+    }
+    const condition = faultCondition(tape, seg, safetyRef.current);
+    if (condition) {
+      logEvent({ type: "warning", actor: "operator", tapeId, segmentId: segId, message: `${seg.name}: сброс аварии невозможен — ${condition.message}` });
+      return;
+    }
+    logEvent({
+      type: "success",
+      actor: "operator",
+      tapeId,
+      segmentId: segId,
+      message: lockout
+        ? `${seg.name}: блокировка снята оператором с подтверждением (срабатываний: ${seg.trips?.length ?? 0})`
+        : `${seg.name}: авария «${FAULT_LABELS[seg.fault.reason]}» сброшена оператором`,
+    });
+    if (lockout) {
+      setAlerts(prev => prev.map(a => (a.key === `safety-trip:${segId}` ? { ...a, acknowledged: true } : a)));
+    }
+    setTapes(prev => prev.map(t =>
+      t.id === tapeId
+        ? { ...t, segments: t.segments.map(s => s.id === segId ? { ...s, fault: undefined, trips: lockout ? [] : s.trips } : s) }
+        : t
+    ));
+  }, [segmentCommandAllowed, logEvent]);
 
   const acknowledgeAlert = useCallback((id: number) => {
+    const alert = alertsRef.current.find(a => a.id === id);
+    if (alert && !alert.acknowledged) logEvent({ type: "info", actor: "operator", message: `Алерт принят: ${alert.message}` });
     setAlerts(prev => prev.map(a => (a.id === id ? { ...a, acknowledged: true } : a)));
+  }, [logEvent]);
+
+  const muted = muteUntil !== null && currentTime.getTime() < muteUntil;
+  const soundActive = alertSound && audioUnlocked && !muted;
+  const pendingCritical = alerts.some(a => a.severity === "critical" && !a.acknowledged);
+
+  useEffect(() => {
+    const player = createAlarmPlayer();
+    alarmRef.current = player;
+    return () => {
+      alarmRef.current = null;
+      player.close();
+    };
+  }, []);
+
+  const enableAudio = useCallback(async () => {
+    setAudioUnlocked((await alarmRef.current?.unlock()) ?? false);
   }, []);
 
+  // Новое оповещение озвучивается один раз — самым тревожным рисунком из пришедших
+  useEffect(() => {
+    const fresh = alerts.filter(a => !announcedAlertsRef.current.has(a.id));
+    fresh.forEach(a => announcedAlertsRef.current.add(a.id));
+    if (!soundActive) return;
+    const loudest = fresh
+      .filter(a => !a.acknowledged && !a.resolvedAt)
+      .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity])[0];
+    if (loudest) alarmRef.current?.play(loudest.severity);
+  }, [alerts, soundActive]);
+
+  // Критичные звучат повторно, пока оператор не примет их
+  useEffect(() => {
+    if (!pendingCritical || !soundActive) return;
+    const timer = setInterval(() => alarmRef.current?.play("critical"), CRITICAL_REPEAT_MS);
+    return () => clearInterval(timer);
+  }, [pendingCritical, soundActive]);
+
   const allSegments = tapes.flatMap(t => t.segments);
+  const segmentTempKeys = allSegments.map(s => seriesKey.segmentTemp(s.id));
+  const historyRows = useHistoryRows(historyStore, [...segmentTempKeys, seriesKey.ambient], MONITOR_RANGE);
+  const chartData = toChartPoints(historyRows, { avg: segmentTempKeys });
   const enabledSegments = allSegments.filter(s => s.enabled);
   const activeCount = enabledSegments.length;
   const avgTemp = activeCount > 0
     ? (enabledSegments.reduce((acc, s) => acc + s.temperature, 0) / activeCount).toFixed(1)
     : "—";
-  const totalPower = enabledSegments.reduce((acc, s) => acc + (s.power / 100) * 0.5, 0).toFixed(1);
+  const site = siteElectrics(tapes, systemOn);
+  const totalPower = (site.watts / 1000).toFixed(2);
   const totalLength = tapes.reduce((acc, t) => acc + (parseFloat(t.length) || 0), 0);
   const activeTapes = tapes.filter(t => t.enabled).length;
   const unacknowledgedAlerts = alerts.filter(a => !a.acknowledged).length;
   const totalSensors = allSegments.reduce((a, s) => a + s.sensors.length, 0);
+  const thresholdValue = Number.isFinite(parseFloat(thresholdTemp)) ? parseFloat(thresholdTemp) : null;
+  const lineLoads = computeLineLoads(tapes, lines, systemOn);
+  const electrical = analyzeCircuits(tapes, lines, auxSensors);
+  const scanAnalysis = busScan ? analyzeScan(busScan.roms, tapes, retiredSensors) : null;
+  const missingSerials = new Set(scanAnalysis?.missing.map(m => m.serial));
+  const duplicateSerials = findDuplicateSerials(tapes);
+  const replacingSensor = replacing
+    ? findSegment(tapes, replacing.tapeId, replacing.segId)?.sensors.find(s => s.id === replacing.sensorId) ?? null
+    : null;
+  const calibratingSensor = calibrating
+    ? findSegment(tapes, calibrating.tapeId, calibrating.segId)?.sensors.find(s => s.id === calibrating.sensorId) ?? null
+    : null;
+  const states = deriveSegmentStates(tapes, safety, systemOn);
+  const faultedSegments = tapes.flatMap(tape => tape.segments.filter(s => s.fault).map(seg => ({ tape, seg })));
 
   return (
     <div className="min-h-screen bg-background industrial-grid">
@@ -711,15 +1764,45 @@ const Index = () => {
                 {unacknowledgedAlerts}
               </Badge>
             )}
+            {alertSound && muted && (
+              <Badge variant="secondary" className="font-mono text-[10px] text-amber-400 cursor-pointer" onClick={() => setMuteUntil(null)}>
+                <Icon name="BellOff" size={12} className="mr-1" />
+                ЗВУК ДО {new Date(muteUntil!).toLocaleTimeString("ru-RU", { hour: "2-digit", minute: "2-digit" })}
+              </Badge>
+            )}
+            <Badge variant="secondary" className="font-mono text-[10px]">
+              <Icon name={dataSource === "simulation" ? "FlaskConical" : "Cpu"} size={12} className="mr-1" />
+              {dataSource === "simulation" ? "СИМУЛЯЦИЯ" : "КОНТРОЛЛЕР"}
+            </Badge>
+            {softStart && (
+              <Badge variant="secondary" className="font-mono text-[10px] text-primary">
+                <Icon name="TrendingUp" size={12} className="mr-1" />
+                ПУСК {softStartProgress(softStart).done}/{softStart.total}
+              </Badge>
+            )}
             <div className="flex items-center gap-2">
               <span className="text-xs font-mono text-muted-foreground">СИС</span>
-              <Switch checked={systemOn} onCheckedChange={setSystemOn} />
+              <Switch checked={systemOn} onCheckedChange={toggleSystem} />
               <Badge variant={systemOn ? "default" : "secondary"} className={`font-mono text-xs ${systemOn ? "bg-emerald-600 text-white" : ""}`}>
                 {systemOn ? "ВКЛ" : "ВЫКЛ"}
               </Badge>
             </div>
           </div>
         </div>
+        {alertSound && !audioUnlocked && (
+          <div className="border-t border-amber-500/30 bg-amber-500/10">
+            <div className="max-w-[1920px] mx-auto px-4 py-2 flex items-center justify-between gap-3">
+              <p className="text-xs font-mono text-amber-400 flex items-center gap-2">
+                <Icon name="VolumeX" size={14} />
+                Браузер блокирует звук до первого действия оператора — звуковые алерты не будут слышны
+              </p>
+              <Button size="sm" variant="outline" className="font-mono text-xs h-7" onClick={enableAudio}>
+                <Icon name="Volume2" size={14} className="mr-1" />
+                Включить звук
+              </Button>
+            </div>
+          </div>
+        )}
       </header>
 
       <main className="max-w-[1920px] mx-auto p-4">
@@ -800,7 +1883,7 @@ const Index = () => {
                     <span className="text-xs text-muted-foreground font-mono">МОЩНОСТЬ</span>
                   </div>
                   <p className="text-3xl font-bold font-mono text-amber-400">{totalPower}</p>
-                  <p className="text-xs text-muted-foreground font-mono">кВт • {totalLength}м ленты</p>
+                  <p className="text-xs text-muted-foreground font-mono">кВт • {site.currentA.toFixed(1)} A • {totalLength}м ленты</p>
                 </CardContent>
               </Card>
             </div>
@@ -827,7 +1910,7 @@ const Index = () => {
                     {tape.segments.map(seg => (
                       <div
                         key={seg.id}
-                        className={`relative rounded-lg border p-3 transition-all cursor-pointer ${getStatusBg(seg.status)} ${seg.enabled && tape.enabled ? "opacity-100" : "opacity-40"}`}
+                        className={`relative rounded-lg border p-3 transition-all cursor-pointer ${SEGMENT_STATE_META[states[seg.id] ?? "off"].bg} ${seg.enabled && tape.enabled ? "opacity-100" : "opacity-40"}`}
                         onClick={() => toggleSegment(tape.id, seg.id)}
                       >
                         <div className="text-center">
@@ -845,7 +1928,7 @@ const Index = () => {
                             {seg.enabled && tape.enabled ? `${seg.power}%` : "выкл"}
                           </p>
                         </div>
-                        <div className={`absolute top-1 right-1 w-1.5 h-1.5 rounded-full ${seg.status === "normal" ? "bg-emerald-400" : seg.status === "warning" ? "bg-amber-400 animate-pulse" : seg.status === "critical" ? "bg-red-400 animate-pulse" : "bg-zinc-600"}`} />
+                        <div className={`absolute top-1 right-1 w-1.5 h-1.5 rounded-full ${SEGMENT_STATE_META[states[seg.id] ?? "off"].dot}`} />
                       </div>
                     ))}
                   </div>
@@ -873,8 +1956,8 @@ const Index = () => {
                     <XAxis dataKey="time" tick={{ fontSize: 10, fill: "hsl(215 15% 55%)" }} stroke="hsl(220 16% 18%)" />
                     <YAxis tick={{ fontSize: 10, fill: "hsl(215 15% 55%)" }} stroke="hsl(220 16% 18%)" />
                     <Tooltip contentStyle={{ background: "hsl(220 18% 11%)", border: "1px solid hsl(220 16% 18%)", borderRadius: 8, fontSize: 12 }} labelStyle={{ color: "hsl(210 20% 85%)" }} />
-                    <Area type="monotone" dataKey="temp1" stroke="hsl(25 95% 53%)" fill="url(#tempGrad)" name="Лента 1" />
-                    <Area type="monotone" dataKey="ambient" stroke="hsl(200 80% 50%)" fill="none" strokeDasharray="4 4" name="Окр. среда" />
+                    <Area type="monotone" dataKey="avg" stroke="hsl(25 95% 53%)" fill="url(#tempGrad)" name="Ср. по лентам" />
+                    <Area type="monotone" dataKey={seriesKey.ambient} stroke="hsl(200 80% 50%)" fill="none" strokeDasharray="4 4" name="Окр. среда" />
                   </AreaChart>
                 </ResponsiveContainer>
               </CardContent>
@@ -883,7 +1966,7 @@ const Index = () => {
 
           {/* ВИЗУАЛИЗАЦИЯ ЛЕНТЫ — СКАТ КРЫШИ */}
           <TabsContent value="visual" className="space-y-4">
-            <VisualizationTab tapes={tapes} />
+            <VisualizationTab tapes={tapes} states={states} thresholdTemp={thresholdValue} />
           </TabsContent>
 
           {/* УПРАВЛЕНИЕ */}
@@ -898,6 +1981,8 @@ const Index = () => {
               </Button>
             </div>
 
+            {softStart && <SoftStartPanel state={softStart} tapes={tapes} lines={lines} settings={softStartSettings} now={currentTime.getTime()} />}
+
             {tapes.map(tape => (
               <Card key={tape.id} className={`bg-card border-border transition-all ${!tape.enabled ? "opacity-60" : ""}`}>
                 <CardHeader className="pb-3">
@@ -940,7 +2025,33 @@ const Index = () => {
                       <Label className="text-[10px] font-mono text-muted-foreground">ШИРИНА (мм)</Label>
                       <Input value={tape.width} onChange={e => updateTapeField(tape.id, "width", e.target.value)} className="font-mono text-xs mt-1 bg-secondary border-border h-8" />
                     </div>
+                    <div>
+                      <Label className="text-[10px] font-mono text-muted-foreground">КАБЕЛЬ</Label>
+                      <Select value={tapeProduct(tape).id} onValueChange={v => setTapeProduct(tape.id, v)}>
+                        <SelectTrigger className="font-mono text-xs mt-1 bg-secondary border-border h-8"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {CABLE_PRODUCTS.map(p => <SelectItem key={p.id} value={p.id}>{productLabel(p)} • {p.wattsAt10} Вт/м</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-end">
+                      <p className="text-[10px] font-mono text-muted-foreground pb-2">
+                        {formatWatts(tapeElectrics(tape).ratedW)} • {tapeElectrics(tape).ratedCurrentA.toFixed(2)} A при 100%
+                      </p>
+                    </div>
                   </div>
+                  {segmentLengthError(tape) && <p className="text-[10px] font-mono text-red-400">{segmentLengthError(tape)}</p>}
+
+                  <SnowIceControl
+                    tape={tape}
+                    status={snowStatus[tape.id]}
+                    autoActive={systemOn && autoMode}
+                    now={currentTime.getTime()}
+                    onModeChange={mode => setTapeControlMode(tape.id, mode)}
+                    onSettingsChange={settings => setTapeSnowIce(tape.id, settings)}
+                  />
+
+                  <ElectricalFindings findings={findingsForTape(electrical.findings, tape.id)} />
 
                   <Separator />
 
@@ -953,12 +2064,10 @@ const Index = () => {
                       <Button size="sm" variant="outline" className="font-mono text-[10px] h-7" onClick={() => addSegmentToTape(tape.id)}>
                         <Icon name="Plus" size={12} className="mr-1" /> Сегмент
                       </Button>
-                      <Button size="sm" variant="outline" className="font-mono text-[10px] h-7"
-                        onClick={() => setTapes(prev => prev.map(t => t.id === tape.id ? { ...t, segments: t.segments.map(s => ({ ...s, enabled: true, status: "normal" as const })) } : t))}>
+                      <Button size="sm" variant="outline" className="font-mono text-[10px] h-7" onClick={() => setTapeSegmentsEnabled(tape.id, true)}>
                         Вкл. все
                       </Button>
-                      <Button size="sm" variant="outline" className="font-mono text-[10px] h-7"
-                        onClick={() => setTapes(prev => prev.map(t => t.id === tape.id ? { ...t, segments: t.segments.map(s => ({ ...s, enabled: false, status: "off" as const })) } : t))}>
+                      <Button size="sm" variant="outline" className="font-mono text-[10px] h-7" onClick={() => setTapeSegmentsEnabled(tape.id, false)}>
                         Выкл. все
                       </Button>
                     </div>
@@ -969,19 +2078,66 @@ const Index = () => {
                       <div key={seg.id} className={`rounded-lg border p-3 transition-all ${seg.enabled && tape.enabled ? "bg-secondary/30 border-border" : "bg-secondary/10 border-border/30 opacity-60"}`}>
                         <div className="flex items-center justify-between mb-2">
                           <div className="flex items-center gap-2">
-                            <div className={`w-2 h-2 rounded-full ${seg.status === "normal" ? "bg-emerald-400" : seg.status === "warning" ? "bg-amber-400 animate-pulse" : seg.status === "critical" ? "bg-red-400 animate-pulse" : "bg-zinc-600"}`} />
+                            <div className={`w-2 h-2 rounded-full ${SEGMENT_STATE_META[states[seg.id] ?? "off"].dot}`} />
                             <span className="font-mono font-bold text-xs">{seg.name}</span>
                             <Badge variant="secondary" className="font-mono text-[10px] px-1.5 py-0">
                               <Icon name="Thermometer" size={10} className="mr-0.5" />{seg.sensors.length} датч.
                             </Badge>
+                            <Badge variant="secondary" className={`font-mono text-[10px] px-1.5 py-0 ${SEGMENT_STATE_META[states[seg.id] ?? "off"].text}`}>
+                              {SEGMENT_STATE_META[states[seg.id] ?? "off"].label}
+                            </Badge>
                           </div>
                           <div className="flex items-center gap-1.5">
-                            <Switch checked={seg.enabled} onCheckedChange={() => toggleSegment(tape.id, seg.id)} />
+                            {(states[seg.id] === "off" || states[seg.id] === "maintenance") && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className={`h-6 w-6 p-0 ${seg.maintenance ? "text-violet-400" : "text-muted-foreground"}`}
+                                title={seg.maintenance ? "Вернуть из обслуживания" : "Вывести на обслуживание"}
+                                onClick={() => setMaintenance(tape.id, seg.id, !seg.maintenance)}
+                              >
+                                <Icon name="Wrench" size={12} />
+                              </Button>
+                            )}
+                            <Switch
+                              checked={seg.enabled}
+                              disabled={!commandTarget(states[seg.id] ?? "off", seg.enabled ? "disable" : "enable")}
+                              onCheckedChange={() => toggleSegment(tape.id, seg.id)}
+                            />
                             <Button size="sm" variant="ghost" className="h-6 w-6 p-0 text-muted-foreground hover:text-red-400" onClick={() => removeSegmentFromTape(tape.id, seg.id)}>
                               <Icon name="Trash2" size={12} />
                             </Button>
                           </div>
                         </div>
+                        {isHeld(softStart, seg.id) && (
+                          <p className="mb-2 text-[10px] font-mono text-primary flex items-center gap-1">
+                            <Icon name="Hourglass" size={12} /> В ОЧЕРЕДИ ПЛАВНОГО ПУСКА
+                          </p>
+                        )}
+                        {seg.fault && (
+                          <div className="mb-2 p-2 rounded border border-red-500/40 bg-red-500/10 flex items-center justify-between gap-2">
+                            <div className="min-w-0">
+                              <p className="text-[10px] font-mono font-bold text-red-400 flex items-center gap-1">
+                                <Icon name={seg.fault.lockout ? "Lock" : "ShieldAlert"} size={12} />
+                                {seg.fault.lockout ? "БЛОКИРОВКА" : "АВАРИЯ"}: {FAULT_LABELS[seg.fault.reason].toUpperCase()}
+                              </p>
+                              <p className="text-[10px] font-mono text-muted-foreground truncate">
+                                {seg.fault.message}{seg.fault.lockout ? ` • ${seg.trips?.length ?? 0} срабатываний за ${safety.lockoutWindowMin} мин` : ""}
+                              </p>
+                            </div>
+                            <Button size="sm" variant="outline" className="font-mono text-[10px] h-6 shrink-0" onClick={() => resetFault(tape.id, seg.id)}>
+                              Сброс
+                            </Button>
+                          </div>
+                        )}
+                        <div className="flex items-center justify-between mb-2 text-[10px] font-mono text-muted-foreground">
+                          <span>ДЛИНА (м) • {formatWatts(segmentElectrics(tape, seg).ratedW)}</span>
+                          <SensorPositionInput
+                            position={segmentLength(tape, seg)}
+                            validate={v => !Number.isFinite(v) || v <= 0 ? "Длина должна быть больше нуля" : null}
+                            onCommit={v => setSegmentLength(tape.id, seg.id, v)}
+                          />
+                        </div>
                         {seg.enabled && tape.enabled && (
                           <>
                             <div className="grid grid-cols-3 gap-2 mb-2">
@@ -1002,9 +2158,9 @@ const Index = () => {
                               <div>
                                 <div className="flex justify-between mb-0.5">
                                   <span className="text-[9px] font-mono text-muted-foreground">МОЩНОСТЬ</span>
-                                  <span className="text-[9px] font-mono text-primary">{seg.power}%</span>
+                                  <span className="text-[9px] font-mono text-primary">{autoMode && systemOn ? `АВТО • ${seg.power}%` : `${seg.power}%`}</span>
                                 </div>
-                                <Slider value={[seg.power]} onValueChange={([v]) => setSegPower(tape.id, seg.id, v)} max={100} step={5} className="cursor-pointer" />
+                                <Slider value={[seg.power]} onValueChange={([v]) => setSegPower(tape.id, seg.id, v)} max={100} step={5} disabled={autoMode && systemOn} className="cursor-pointer" />
                               </div>
                               <div>
                                 <div className="flex justify-between mb-0.5">
@@ -1065,71 +2221,55 @@ const Index = () => {
                       <p className="font-bold">{tape.segments.length}</p>
                     </div>
                   </div>
+                  <ElectricalFindings findings={findingsForTape(electrical.findings, tape.id)} okMessage="Электрическая схема ленты проверена — замечаний нет" />
                   <Separator />
                   <div className="space-y-2 text-sm font-mono">
-                    <div className="flex justify-between"><span className="text-muted-foreground">Тип нагревателя</span><span>Саморегулирующийся</span></div>
-                    <div className="flex justify-between"><span className="text-muted-foreground">Макс. мощность</span><span>40 Вт/м</span></div>
-                    <div className="flex justify-between"><span className="text-muted-foreground">Напряжение</span><span>220В ~50Гц</span></div>
-                    <div className="flex justify-between"><span className="text-muted-foreground">Класс защиты</span><span>IP68</span></div>
-                    <div className="flex justify-between"><span className="text-muted-foreground">Рабочий диапазон</span><span>-40°C ... +65°C</span></div>
+                    <div className="flex justify-between"><span className="text-muted-foreground">Кабель</span><span>{productLabel(tapeProduct(tape))}</span></div>
+                    <div className="flex justify-between"><span className="text-muted-foreground">Тип нагревателя</span><span>{CABLE_KIND_LABELS[tapeProduct(tape).kind]}</span></div>
+                    <div className="flex justify-between"><span className="text-muted-foreground">Мощность</span><span>{tapeProduct(tape).wattsAt10} Вт/м при +10°C • {tapeProduct(tape).wattsAt0} Вт/м при 0°C</span></div>
+                    <div className="flex justify-between"><span className="text-muted-foreground">Напряжение</span><span>{tapeProduct(tape).voltage}В ~50Гц</span></div>
+                    <div className="flex justify-between"><span className="text-muted-foreground">Номинал ленты</span><span>{formatWatts(tapeElectrics(tape).ratedW)} • {tapeElectrics(tape).ratedCurrentA.toFixed(2)} A • {tapeElectrics(tape).resistance?.toFixed(1) ?? "—"} Ом</span></div>
+                    <div className="flex justify-between"><span className="text-muted-foreground">Сейчас</span><span className="text-amber-400">{formatWatts(tapeElectrics(tape, systemOn).watts)} • {tapeElectrics(tape, systemOn).currentA.toFixed(2)} A</span></div>
+                    <div className="flex justify-between"><span className="text-muted-foreground">Класс защиты</span><span>{tapeProduct(tape).ip}</span></div>
+                    <div className="flex justify-between"><span className="text-muted-foreground">Макс. температура воздействия</span><span>+{tapeProduct(tape).maxExposureTemp}°C</span></div>
+                    <div className="flex justify-between"><span className="text-muted-foreground">Макс. длина цепи</span><span>{tapeProduct(tape).maxCircuitLength} м</span></div>
                   </div>
                   <Separator />
                   <p className="text-xs font-mono text-muted-foreground">НАГРЕВАТЕЛЬНЫЕ ЭЛЕМЕНТЫ</p>
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-                    {tape.segments.map(seg => (
-                      <div key={seg.id} className="p-2.5 rounded-lg bg-secondary/50 border border-border">
-                        <div className="flex items-center justify-between mb-1.5">
-                          <span className="font-mono text-[11px] font-bold">#{seg.id}</span>
-                          <div className={`w-2 h-2 rounded-full ${seg.enabled ? "bg-emerald-400" : "bg-zinc-600"}`} />
-                        </div>
-                        <div className="space-y-0.5 text-[10px] font-mono text-muted-foreground">
-                          <div className="flex justify-between"><span>Мощн.</span><span className="text-foreground">{seg.enabled ? `${(seg.power / 100 * 40).toFixed(0)} Вт/м` : "—"}</span></div>
-                          <div className="flex justify-between"><span>Сопр.</span><span className="text-foreground">{seg.enabled ? `${(220 * 220 / (seg.power / 100 * 40 * 2)).toFixed(0)} Ом` : "—"}</span></div>
-                          <div className="flex justify-between"><span>Ток</span><span className="text-foreground">{seg.enabled ? `${(seg.power / 100 * 40 * 2 / 220).toFixed(1)} A` : "—"}</span></div>
+                    {tape.segments.map(seg => {
+                      const e = segmentElectrics(tape, seg, systemOn);
+                      return (
+                        <div key={seg.id} className="p-2.5 rounded-lg bg-secondary/50 border border-border">
+                          <div className="flex items-center justify-between mb-1.5">
+                            <span className="font-mono text-[11px] font-bold">#{seg.id}</span>
+                            <div className={`w-2 h-2 rounded-full ${seg.enabled ? "bg-emerald-400" : "bg-zinc-600"}`} />
+                          </div>
+                          <div className="space-y-0.5 text-[10px] font-mono text-muted-foreground">
+                            <div className="flex justify-between"><span>Длина</span><span className="text-foreground">{segmentLength(tape, seg).toFixed(2)} м</span></div>
+                            <div className="flex justify-between"><span>Мощн.</span><span className="text-foreground">{e.watts > 0 ? `${formatWatts(e.watts)} из ${formatWatts(e.ratedW)}` : "—"}</span></div>
+                            <div className="flex justify-between"><span>Сопр.</span><span className="text-foreground">{e.resistance !== null ? `${e.resistance.toFixed(0)} Ом` : "—"}</span></div>
+                            <div className="flex justify-between"><span>Ток</span><span className="text-foreground">{e.currentA > 0 ? `${e.currentA.toFixed(2)} A` : "—"}</span></div>
+                          </div>
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </CardContent>
               </Card>
             ))}
 
-            <Card className="bg-card border-border">
-              <CardHeader>
-                <CardTitle className="text-sm font-mono flex items-center gap-2">
-                  <Icon name="Cable" size={16} className="text-primary" />
-                  ЭЛЕКТРОПРОВОДКА
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="space-y-2 text-sm font-mono">
-                  <div className="flex justify-between"><span className="text-muted-foreground">Сечение провода</span><span>2.5 мм²</span></div>
-                  <div className="flex justify-between"><span className="text-muted-foreground">Линия L1</span><span className="text-emerald-400">Норма — 3.2 кВт</span></div>
-                  <div className="flex justify-between"><span className="text-muted-foreground">Линия L2</span><span className="text-amber-400">Нагрузка — 4.1 кВт</span></div>
-                  <div className="flex justify-between"><span className="text-muted-foreground">Автомат</span><span>25A, тип C</span></div>
-                  <div className="flex justify-between"><span className="text-muted-foreground">УЗО</span><span>30мА, 40A</span></div>
-                  <div className="flex justify-between"><span className="text-muted-foreground">Заземление</span><span className="text-emerald-400">Подключено</span></div>
-                </div>
-                <Separator />
-                <div>
-                  <p className="text-xs font-mono text-muted-foreground mb-2">НАГРУЗКА ЛИНИЙ</p>
-                  <div className="space-y-2">
-                    <div>
-                      <div className="flex justify-between text-xs font-mono mb-1">
-                        <span>L1</span><span className="text-emerald-400">64%</span>
-                      </div>
-                      <Progress value={64} className="h-2" />
-                    </div>
-                    <div>
-                      <div className="flex justify-between text-xs font-mono mb-1">
-                        <span>L2</span><span className="text-amber-400">82%</span>
-                      </div>
-                      <Progress value={82} className="h-2" />
-                    </div>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+            <CircuitPanel
+              lines={lines}
+              tapes={tapes}
+              loads={lineLoads}
+              analysis={electrical}
+              onAddLine={addLine}
+              onUpdateLine={updateLine}
+              onRemoveLine={removeLine}
+              onAssignTape={assignTapeLine}
+              onAssignSegment={assignSegmentLine}
+            />
           </TabsContent>
 
           {/* ДАТЧИКИ */}
@@ -1140,6 +2280,49 @@ const Index = () => {
                 ДАТЧИКИ ТЕМПЕРАТУРЫ DS18B20 — всего {totalSensors} шт.
               </h2>
             </div>
+            <BusDiscovery
+              tapes={tapes}
+              analysis={scanAnalysis}
+              duplicates={duplicateSerials}
+              scannedAt={busScan?.at ?? null}
+              scanning={scanning}
+              error={scanError}
+              onScan={scanBus}
+              onBind={bindBusSensor}
+            />
+            <AuxSensorPanel sensors={auxSensors} tapes={tapes} onAdd={addAuxSensor} onRemove={removeAuxSensor} />
+            <Card className="bg-card border-border">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-mono flex items-center gap-2">
+                  <Icon name="Crosshair" size={16} className="text-primary" />
+                  АВТОКАЛИБРОВКА
+                  <Switch checked={autoCalibration.enabled} onCheckedChange={v => setAutoCalibration(prev => ({ ...prev, enabled: v }))} className="ml-auto" />
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-[11px] font-mono text-muted-foreground">
+                  Когда все сегменты ленты выключены и показания перестали дрейфовать, сдвиг каждого датчика подгоняется под медиану ленты
+                </p>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <div>
+                    <Label className="text-[10px] font-mono text-muted-foreground">СТАБИЛИЗАЦИЯ (мин)</Label>
+                    <Input type="number" min="5" value={autoCalibration.settleMinutes} onChange={e => setAutoCalibration(prev => ({ ...prev, settleMinutes: Math.max(5, Number(e.target.value) || 5) }))} className="h-8 font-mono text-xs mt-1 bg-secondary border-border" />
+                  </div>
+                  <div>
+                    <Label className="text-[10px] font-mono text-muted-foreground">ДОПУСК ДРЕЙФА (°C)</Label>
+                    <Input type="number" min="0.05" step="0.05" value={autoCalibration.tolerance} onChange={e => setAutoCalibration(prev => ({ ...prev, tolerance: Math.max(0.05, Number(e.target.value) || 0.05) }))} className="h-8 font-mono text-xs mt-1 bg-secondary border-border" />
+                  </div>
+                  <div>
+                    <Label className="text-[10px] font-mono text-muted-foreground">МАКС. СДВИГ (°C)</Label>
+                    <Input type="number" min="0.5" step="0.5" value={autoCalibration.maxOffset} onChange={e => setAutoCalibration(prev => ({ ...prev, maxOffset: Math.max(0.5, Number(e.target.value) || 0.5) }))} className="h-8 font-mono text-xs mt-1 bg-secondary border-border" />
+                  </div>
+                  <div>
+                    <Label className="text-[10px] font-mono text-muted-foreground">НЕ ЧАЩЕ (ч)</Label>
+                    <Input type="number" min="1" value={autoCalibration.intervalHours} onChange={e => setAutoCalibration(prev => ({ ...prev, intervalHours: Math.max(1, Number(e.target.value) || 1) }))} className="h-8 font-mono text-xs mt-1 bg-secondary border-border" />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
             {tapes.map(tape => (
               <div key={tape.id} className="space-y-3">
                 <h3 className="text-xs font-mono text-muted-foreground flex items-center gap-2 px-1">
@@ -1147,47 +2330,170 @@ const Index = () => {
                   {tape.name}
                   {tape.contractNumber && <Badge variant="secondary" className="font-mono text-[10px]">{tape.contractNumber}</Badge>}
                   <Badge variant="secondary" className="font-mono text-[10px]">{tape.segments.reduce((a, s) => a + s.sensors.length, 0)} датчиков</Badge>
+                  {settledTapes.includes(tape.id) ? (
+                    <Badge variant="secondary" className="font-mono text-[10px] text-emerald-400">стабилизирована</Badge>
+                  ) : (
+                    <Badge variant="secondary" className="font-mono text-[10px] text-muted-foreground">
+                      {tape.enabled && tape.segments.some(s => s.enabled) ? "нагрев включён" : "стабилизация…"}
+                    </Badge>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="font-mono text-[10px] h-6 ml-auto"
+                    disabled={!settledTapes.includes(tape.id)}
+                    title="Калибровка доступна, когда сегменты ленты выключены и температура установилась"
+                    onClick={() => runAutoCalibration(tape.id, "operator")}
+                  >
+                    <Icon name="Crosshair" size={12} className="mr-1" />
+                    Откалибровать по медиане
+                  </Button>
                 </h3>
-                {tape.segments.map(seg => (
+                {tape.segments.map((seg, segIndex) => (
                   <Card key={seg.id} className="bg-card border-border">
                     <CardHeader className="pb-2">
                       <CardTitle className="text-sm font-mono flex items-center gap-2">
                         <div className={`w-2 h-2 rounded-full ${seg.enabled ? "bg-emerald-400" : "bg-zinc-600"}`} />
                         {seg.name}
                         <Badge variant="secondary" className="font-mono text-[10px]">{seg.sensors.length} датчиков</Badge>
-                        <Badge variant="secondary" className={`font-mono text-[10px] ${getStatusColor(seg.status)}`}>
-                          {seg.status === "normal" ? "НОРМА" : seg.status === "warning" ? "ВНИМАНИЕ" : seg.status === "critical" ? "КРИТИЧ" : "ОТКЛ"}
+                        <Badge variant="secondary" className={`font-mono text-[10px] ${SEGMENT_STATE_META[states[seg.id] ?? "off"].text}`}>
+                          {SEGMENT_STATE_META[states[seg.id] ?? "off"].label}
                         </Badge>
+                        <span className={`ml-auto font-bold ${getTempColor(seg.temperature)}`}>{seg.temperature.toFixed(1)}°C</span>
                       </CardTitle>
                     </CardHeader>
                     <CardContent>
+                      <div className="flex flex-wrap items-end gap-3 mb-3">
+                        <div className="w-48">
+                          <Label className="text-[10px] font-mono text-muted-foreground">ТЕМПЕРАТУРА СЕГМЕНТА</Label>
+                          <Select value={(seg.aggregation ?? DEFAULT_AGGREGATION).method} onValueChange={v => setSegAggregation(tape.id, seg.id, { method: v as AggregationMethod })}>
+                            <SelectTrigger className="h-8 font-mono text-xs mt-1 bg-secondary border-border">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(AGGREGATION_LABELS) as AggregationMethod[]).map(m => (
+                                <SelectItem key={m} value={m}>{AGGREGATION_LABELS[m]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="w-32">
+                          <Label className="text-[10px] font-mono text-muted-foreground">ПОРОГ ВЫБРОСА, °C</Label>
+                          <Input
+                            type="number"
+                            min={0.5}
+                            step={0.5}
+                            value={(seg.aggregation ?? DEFAULT_AGGREGATION).outlierDelta}
+                            onChange={e => {
+                              const v = parseFloat(e.target.value);
+                              if (Number.isFinite(v) && v > 0) setSegAggregation(tape.id, seg.id, { outlierDelta: v });
+                            }}
+                            className="h-8 font-mono text-xs mt-1 bg-secondary border-border"
+                          />
+                        </div>
+                        {seg.sensors.some(s => s.outlier) && (
+                          <Badge variant="secondary" className="font-mono text-[10px] text-amber-400">
+                            <Icon name="AlertTriangle" size={12} className="mr-1" />
+                            исключено из расчёта: {seg.sensors.filter(s => s.outlier).length}
+                          </Badge>
+                        )}
+                      </div>
                       <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
                         {seg.sensors.map(sensor => (
-                          <div key={sensor.id} className={`p-3 rounded-lg border transition-all ${sensor.status === "online" ? "bg-emerald-400/5 border-emerald-400/20" : sensor.status === "error" ? "bg-red-400/5 border-red-400/20" : "bg-zinc-800/50 border-zinc-700/30"}`}>
+                          <div key={sensor.id} className={`p-3 rounded-lg border transition-all ${sensor.outlier ? "bg-amber-400/5 border-amber-400/40" : SENSOR_STATUS_META[sensor.status].bg}`}>
                             <div className="flex items-center justify-between mb-2">
                               <div className="flex items-center gap-2">
-                                <Icon name="Thermometer" size={14} className={sensor.status === "online" ? "text-emerald-400" : sensor.status === "error" ? "text-red-400" : "text-zinc-500"} />
+                                <Icon name="Thermometer" size={14} className={SENSOR_STATUS_META[sensor.status].text} />
                                 <span className="font-mono text-xs font-bold">{sensor.id}</span>
                               </div>
-                              <Badge variant="secondary" className={`font-mono text-[10px] ${sensor.status === "online" ? "text-emerald-400" : sensor.status === "error" ? "text-red-400" : "text-zinc-500"}`}>
-                                {sensor.status === "online" ? "ОНЛАЙН" : sensor.status === "error" ? "ОШИБКА" : "ОФЛАЙН"}
-                              </Badge>
+                              <div className="flex items-center gap-1">
+                                {duplicateSerials.some(d => d.serial === sensor.serial) && (
+                                  <Badge variant="secondary" className="font-mono text-[10px] text-red-400" title="Этот серийный номер привязан в нескольких местах">
+                                    ДУБЛЬ
+                                  </Badge>
+                                )}
+                                {missingSerials.has(sensor.serial) && (
+                                  <Badge variant="secondary" className="font-mono text-[10px] text-red-400" title="Не ответил при последнем сканировании шины">
+                                    НЕТ НА ШИНЕ
+                                  </Badge>
+                                )}
+                                {sensor.outlier && (
+                                  <Badge variant="secondary" className="font-mono text-[10px] text-amber-400" title="Расходится с соседними датчиками больше порога и не входит в температуру сегмента">
+                                    ВЫБРОС
+                                  </Badge>
+                                )}
+                                <Badge variant="secondary" className={`font-mono text-[10px] ${SENSOR_STATUS_META[sensor.status].text}`}>
+                                  {SENSOR_STATUS_META[sensor.status].label}
+                                </Badge>
+                              </div>
                             </div>
-                            <div className="p-2 rounded bg-background/50 text-center mb-2">
-                              <p className="text-[10px] text-muted-foreground font-mono">ТЕМПЕРАТУРА</p>
-                              <p className={`text-xl font-bold font-mono ${sensor.status === "online" ? getTempColor(sensor.temperature) : "text-zinc-600"}`}>
-                                {sensor.status === "online" ? `${sensor.temperature.toFixed(1)}°C` : "—"}
-                              </p>
+                            <div className="grid grid-cols-2 gap-2 mb-2">
+                              <div className="p-2 rounded bg-background/50 text-center">
+                                <p className="text-[10px] text-muted-foreground font-mono">ТЕМПЕРАТУРА</p>
+                                <p className={`text-xl font-bold font-mono ${sensor.status === "online" ? getTempColor(sensor.temperature) : "text-zinc-600"}`}>
+                                  {sensor.status === "online" ? `${sensor.temperature.toFixed(1)}°C` : "—"}
+                                </p>
+                              </div>
+                              <div className="p-2 rounded bg-background/50 text-center">
+                                <p className="text-[10px] text-muted-foreground font-mono">ЗДОРОВЬЕ</p>
+                                <p className={`text-xl font-bold font-mono ${healthColor(sensorHealth(sensor))}`}>{sensorHealth(sensor)}%</p>
+                                <Progress value={sensorHealth(sensor)} className="h-1 mt-1" />
+                              </div>
                             </div>
                             <div className="space-y-1 text-[11px] font-mono text-muted-foreground">
                               <div className="flex justify-between"><span>Серийный №</span><span className="text-foreground font-medium">{sensor.serial}</span></div>
                               <div className="flex justify-between"><span>Лента</span><span className="text-foreground">{tape.name}</span></div>
                               <div className="flex justify-between"><span>Привязка</span><span className="text-foreground">{seg.name}</span></div>
+                              <div className="flex justify-between items-start">
+                                <span className="pt-1">Позиция, м</span>
+                                <SensorPositionInput
+                                  position={sensorPosition(tape, segIndex, sensor)}
+                                  validate={p => validatePosition(p, tape)}
+                                  onCommit={p => setSensorPosition(tape.id, seg.id, sensor.id, p)}
+                                />
+                              </div>
+                              <div className="flex justify-between items-center">
+                                <span>Калибровка</span>
+                                <button
+                                  type="button"
+                                  className={`flex items-center gap-1 hover:text-primary ${sensor.calibration && !sameCalibration(sensor.calibration) ? "text-sky-400" : "text-foreground"}`}
+                                  onClick={() => setCalibrating({ tapeId: tape.id, segId: seg.id, sensorId: sensor.id })}
+                                >
+                                  {formatCalibration(sensor.calibration)}
+                                  <Icon name="Pencil" size={10} />
+                                </button>
+                              </div>
+                              <div className="flex justify-between"><span>Сырое показание</span><span className="text-foreground">{sensor.status === "online" ? `${rawValue(sensor).toFixed(2)}°C` : "—"}</span></div>
                               <div className="flex justify-between"><span>Точность</span><span className="text-foreground">±0.5°C</span></div>
                               <div className="flex justify-between"><span>Разрешение</span><span className="text-foreground">12 бит</span></div>
                               <div className="flex justify-between"><span>Шина</span><span className="text-foreground">1-Wire</span></div>
-                              <div className="flex justify-between"><span>Обновление</span><span className="text-foreground">{sensor.lastUpdate}</span></div>
+                              <div className="flex justify-between"><span>Обновление</span><span className="text-foreground">{isNaN(Date.parse(sensor.lastUpdate)) ? "—" : new Date(sensor.lastUpdate).toLocaleTimeString("ru-RU")}</span></div>
+                              <div className="flex justify-between"><span>Ошибки CRC</span><span className={sensor.crcErrors ? "text-amber-400" : "text-foreground"}>{sensor.crcErrors ?? 0}</span></div>
+                              <div className="flex justify-between"><span>Отбраковано</span><span className={sensor.rejected ? "text-amber-400" : "text-foreground"}>{sensor.rejected ?? 0}</span></div>
+                              {sensor.lastVerdict && sensor.lastVerdict !== "ok" && (
+                                <div className="flex justify-between"><span>Последний сбой</span><span className="text-amber-400">{VERDICT_LABELS[sensor.lastVerdict]}</span></div>
+                              )}
                             </div>
+                            {sensor.history && sensor.history.length > 0 && (
+                              <div className="mt-2 pt-2 border-t border-border space-y-0.5 text-[10px] font-mono text-muted-foreground">
+                                {sensor.history.slice(-3).reverse().map(entry => (
+                                  <p key={`${entry.timestamp}:${entry.serial}`} className="truncate">
+                                    {new Date(entry.timestamp).toLocaleDateString("ru-RU")} · {SENSOR_HISTORY_LABELS[entry.event]}
+                                    {entry.previousSerial ? ` ${entry.previousSerial} →` : ""} {entry.serial}
+                                    {entry.note ? ` · ${entry.note}` : ""}
+                                  </p>
+                                ))}
+                              </div>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="w-full mt-2 font-mono text-[10px] h-6"
+                              onClick={() => setReplacing({ tapeId: tape.id, segId: seg.id, sensorId: sensor.id })}
+                            >
+                              <Icon name="Replace" size={12} className="mr-1" />
+                              Заменить датчик
+                            </Button>
                           </div>
                         ))}
                       </div>
@@ -1196,60 +2502,12 @@ const Index = () => {
                 ))}
               </div>
             ))}
+            <CalibrationHistory history={calibrationHistory} tapes={tapes} />
           </TabsContent>
 
           {/* ГРАФИКИ */}
           <TabsContent value="charts" className="space-y-4">
-            <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
-              <Card className="bg-card border-border">
-                <CardHeader>
-                  <CardTitle className="text-sm font-mono flex items-center gap-2">
-                    <Icon name="TrendingUp" size={16} className="text-primary" />
-                    ТЕМПЕРАТУРА СЕГМЕНТОВ
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <ResponsiveContainer width="100%" height={300}>
-                    <LineChart data={chartData}>
-                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(220 16% 18%)" />
-                      <XAxis dataKey="time" tick={{ fontSize: 10, fill: "hsl(215 15% 55%)" }} stroke="hsl(220 16% 18%)" />
-                      <YAxis tick={{ fontSize: 10, fill: "hsl(215 15% 55%)" }} stroke="hsl(220 16% 18%)" unit="°C" />
-                      <Tooltip contentStyle={{ background: "hsl(220 18% 11%)", border: "1px solid hsl(220 16% 18%)", borderRadius: 8, fontSize: 12 }} />
-                      <Line type="monotone" dataKey="temp1" stroke="hsl(25 95% 53%)" strokeWidth={2} dot={false} name="Лента 1" />
-                      <Line type="monotone" dataKey="temp2" stroke="hsl(142 72% 45%)" strokeWidth={2} dot={false} name="Лента 2" />
-                      <Line type="monotone" dataKey="temp3" stroke="hsl(200 80% 50%)" strokeWidth={2} dot={false} name="Лента 3" />
-                      <Line type="monotone" dataKey="ambient" stroke="hsl(215 15% 55%)" strokeWidth={1} strokeDasharray="4 4" dot={false} name="Окр. среда" />
-                    </LineChart>
-                  </ResponsiveContainer>
-                </CardContent>
-              </Card>
-
-              <Card className="bg-card border-border">
-                <CardHeader>
-                  <CardTitle className="text-sm font-mono flex items-center gap-2">
-                    <Icon name="Gauge" size={16} className="text-primary" />
-                    ПОТРЕБЛЕНИЕ МОЩНОСТИ
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <ResponsiveContainer width="100%" height={300}>
-                    <AreaChart data={chartData}>
-                      <defs>
-                        <linearGradient id="powerGrad" x1="0" y1="0" x2="0" y2="1">
-                          <stop offset="0%" stopColor="hsl(38 92% 50%)" stopOpacity={0.4} />
-                          <stop offset="100%" stopColor="hsl(38 92% 50%)" stopOpacity={0} />
-                        </linearGradient>
-                      </defs>
-                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(220 16% 18%)" />
-                      <XAxis dataKey="time" tick={{ fontSize: 10, fill: "hsl(215 15% 55%)" }} stroke="hsl(220 16% 18%)" />
-                      <YAxis tick={{ fontSize: 10, fill: "hsl(215 15% 55%)" }} stroke="hsl(220 16% 18%)" unit="%" />
-                      <Tooltip contentStyle={{ background: "hsl(220 18% 11%)", border: "1px solid hsl(220 16% 18%)", borderRadius: 8, fontSize: 12 }} />
-                      <Area type="monotone" dataKey="power" stroke="hsl(38 92% 50%)" fill="url(#powerGrad)" strokeWidth={2} name="Мощность" />
-                    </AreaChart>
-                  </ResponsiveContainer>
-                </CardContent>
-              </Card>
-            </div>
+            <HistoryCharts store={historyStore} tapes={tapes} thresholdTemp={thresholdValue} />
 
             {tapes.map(tape => (
               <Card key={tape.id} className="bg-card border-border">
@@ -1285,34 +2543,7 @@ const Index = () => {
 
           {/* ЛОГИ */}
           <TabsContent value="logs">
-            <Card className="bg-card border-border">
-              <CardHeader>
-                <CardTitle className="text-sm font-mono flex items-center gap-2">
-                  <Icon name="FileText" size={16} className="text-primary" />
-                  ЖУРНАЛ СОБЫТИЙ
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <ScrollArea className="h-[500px]">
-                  <div className="space-y-1">
-                    {logs.map(log => (
-                      <div key={log.id} className="flex items-start gap-3 p-2.5 rounded hover:bg-secondary/50 transition-colors">
-                        <Icon name={getLogIcon(log.type)} size={16} className={`mt-0.5 shrink-0 ${getLogColor(log.type)}`} />
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center gap-2 flex-wrap">
-                            <span className="text-[11px] font-mono text-muted-foreground">{log.timestamp}</span>
-                            {log.segment && (
-                              <Badge variant="secondary" className="font-mono text-[10px] px-1.5 py-0">{log.segment}</Badge>
-                            )}
-                          </div>
-                          <p className="text-sm font-mono mt-0.5">{log.message}</p>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                </ScrollArea>
-              </CardContent>
-            </Card>
+            <EventJournal logs={logs} tapes={tapes} />
           </TabsContent>
 
           {/* НАСТРОЙКИ */}
@@ -1331,7 +2562,7 @@ const Index = () => {
                       <p className="text-sm font-mono">Автоматический режим</p>
                       <p className="text-[11px] text-muted-foreground font-mono">Регулировка по датчикам</p>
                     </div>
-                    <Switch checked={autoMode} onCheckedChange={setAutoMode} />
+                    <Switch checked={autoMode} onCheckedChange={toggleAutoMode} />
                   </div>
                   <Separator />
                   <div className="flex items-center justify-between">
@@ -1363,6 +2594,286 @@ const Index = () => {
                 </CardContent>
               </Card>
 
+              <Card className="bg-card border-border">
+                <CardHeader>
+                  <CardTitle className="text-sm font-mono flex items-center gap-2">
+                    <Icon name="ThermometerSun" size={16} className="text-primary" />
+                    ТЕРМОСТАТ
+                    <Badge variant="secondary" className={`font-mono text-[10px] ${autoMode && systemOn ? "text-emerald-400" : "text-zinc-500"}`}>
+                      {autoMode && systemOn ? "АКТИВЕН" : "НЕ АКТИВЕН"}
+                    </Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div>
+                    <Label className="text-xs font-mono text-muted-foreground">РЕЖИМ РЕГУЛИРОВАНИЯ</Label>
+                    <Select value={thermostat.mode} onValueChange={v => updateThermostat("mode", v as ThermostatSettings["mode"])}>
+                      <SelectTrigger className="font-mono mt-1 bg-secondary border-border">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="hysteresis">Гистерезис (вкл/выкл)</SelectItem>
+                        <SelectItem value="pi">ПИ-регулятор</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid grid-cols-3 gap-3">
+                    <div>
+                      <Label className="text-xs font-mono text-muted-foreground">ГИСТЕРЕЗИС (°C)</Label>
+                      <Input type="number" step="0.5" min="0" value={thermostat.hysteresis} onChange={e => updateThermostat("hysteresis", Math.max(0, Number(e.target.value) || 0))} className="font-mono mt-1 bg-secondary border-border" />
+                    </div>
+                    <div>
+                      <Label className="text-xs font-mono text-muted-foreground">МИН. ВКЛ (с)</Label>
+                      <Input type="number" min="0" value={thermostat.minOnTime} onChange={e => updateThermostat("minOnTime", Math.max(0, Number(e.target.value) || 0))} className="font-mono mt-1 bg-secondary border-border" />
+                    </div>
+                    <div>
+                      <Label className="text-xs font-mono text-muted-foreground">МИН. ВЫКЛ (с)</Label>
+                      <Input type="number" min="0" value={thermostat.minOffTime} onChange={e => updateThermostat("minOffTime", Math.max(0, Number(e.target.value) || 0))} className="font-mono mt-1 bg-secondary border-border" />
+                    </div>
+                  </div>
+                  {thermostat.mode === "pi" && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <Label className="text-xs font-mono text-muted-foreground">Kp (%/°C)</Label>
+                        <Input type="number" step="1" min="0" value={thermostat.kp} onChange={e => updateThermostat("kp", Math.max(0, Number(e.target.value) || 0))} className="font-mono mt-1 bg-secondary border-border" />
+                      </div>
+                      <div>
+                        <Label className="text-xs font-mono text-muted-foreground">Ki (%/°C·с)</Label>
+                        <Input type="number" step="0.05" min="0" value={thermostat.ki} onChange={e => updateThermostat("ki", Math.max(0, Number(e.target.value) || 0))} className="font-mono mt-1 bg-secondary border-border" />
+                      </div>
+                    </div>
+                  )}
+                  <p className="text-[11px] text-muted-foreground font-mono">
+                    Нагрев включается при T ≤ min(порог, цель) − гистерезис/2 и выключается при T ≥ цель + гистерезис/2.
+                  </p>
+                </CardContent>
+              </Card>
+
+              <Card className="bg-card border-border">
+                <CardHeader>
+                  <CardTitle className="text-sm font-mono flex items-center gap-2">
+                    <Icon name="BellRing" size={16} className="text-primary" />
+                    ПРАВИЛА АЛЕРТОВ
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label className="text-xs font-mono text-muted-foreground">ПЕРЕГРЕВ ВЫШЕ (°C)</Label>
+                      <Input type="number" step="1" value={alertRules.maxTemp} onChange={e => updateAlertRules("maxTemp", Number(e.target.value) || 0)} className="font-mono mt-1 bg-secondary border-border" />
+                    </div>
+                    <div>
+                      <Label className="text-xs font-mono text-muted-foreground">ДАТЧИК НЕ ОТВЕЧАЕТ (мин)</Label>
+                      <Input type="number" min="0" value={alertRules.sensorOfflineMinutes} onChange={e => updateAlertRules("sensorOfflineMinutes", Math.max(0, Number(e.target.value) || 0))} className="font-mono mt-1 bg-secondary border-border" />
+                    </div>
+                    <div>
+                      <Label className="text-xs font-mono text-muted-foreground">ЦЕЛЬ НЕ ДОСТИГНУТА ЗА (мин)</Label>
+                      <Input type="number" min="1" value={alertRules.targetTimeoutMinutes} onChange={e => updateAlertRules("targetTimeoutMinutes", Math.max(1, Number(e.target.value) || 0))} className="font-mono mt-1 bg-secondary border-border" />
+                    </div>
+                    <div>
+                      <Label className="text-xs font-mono text-muted-foreground">ДОПУСК ЦЕЛИ (°C)</Label>
+                      <Input type="number" step="0.5" min="0" value={alertRules.targetTolerance} onChange={e => updateAlertRules("targetTolerance", Math.max(0, Number(e.target.value) || 0))} className="font-mono mt-1 bg-secondary border-border" />
+                    </div>
+                  </div>
+                  <p className="text-[11px] text-muted-foreground font-mono">
+                    Одно оповещение на условие; после исчезновения условия оно помечается устранённым. Перегрузка линии считается по номиналу её автомата.
+                  </p>
+                </CardContent>
+              </Card>
+
+              <Card className="bg-card border-border">
+                <CardHeader>
+                  <CardTitle className="text-sm font-mono flex items-center gap-2">
+                    <Icon name="Database" size={16} className="text-primary" />
+                    ИСТОЧНИК ДАННЫХ
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div>
+                    <Label className="text-xs font-mono text-muted-foreground">ДАННЫЕ</Label>
+                    <Select value={dataSource} onValueChange={v => setDataSource(v as DataSource)}>
+                      <SelectTrigger className="font-mono mt-1 bg-secondary border-border">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="simulation">Симуляция</SelectItem>
+                        <SelectItem value="device">Контроллер (живые данные)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {dataSource === "simulation" && (
+                    <>
+                      <div className="grid grid-cols-3 gap-3">
+                        <div>
+                          <Label className="text-xs font-mono text-muted-foreground">ЗЕРНО ГПСЧ</Label>
+                          <Input type="number" value={simulation.seed} onChange={e => updateSimulation("seed", Math.trunc(Number(e.target.value) || 0))} className="font-mono mt-1 bg-secondary border-border" />
+                        </div>
+                        <div>
+                          <Label className="text-xs font-mono text-muted-foreground">ОКР. СРЕДА (°C)</Label>
+                          <Input type="number" step="0.5" value={simulation.ambientTemp} onChange={e => updateSimulation("ambientTemp", Number(e.target.value) || 0)} className="font-mono mt-1 bg-secondary border-border" />
+                        </div>
+                        <div>
+                          <Label className="text-xs font-mono text-muted-foreground">УСКОРЕНИЕ (×)</Label>
+                          <Input type="number" min="1" value={simulation.timeScale} onChange={e => updateSimulation("timeScale", Math.max(1, Number(e.target.value) || 1))} className="font-mono mt-1 bg-secondary border-border" />
+                        </div>
+                        <div>
+                          <Label className="text-xs font-mono text-muted-foreground">ТЕПЛОПОТЕРИ (Вт/м·К)</Label>
+                          <Input type="number" step="0.1" min="0.1" value={simulation.heatLossCoeff} onChange={e => updateSimulation("heatLossCoeff", Math.max(0.1, Number(e.target.value) || 0.1))} className="font-mono mt-1 bg-secondary border-border" />
+                        </div>
+                        <div>
+                          <Label className="text-xs font-mono text-muted-foreground">ТЕПЛОЁМК. (Дж/м·К)</Label>
+                          <Input type="number" min="1" value={simulation.heatCapacity} onChange={e => updateSimulation("heatCapacity", Math.max(1, Number(e.target.value) || 1))} className="font-mono mt-1 bg-secondary border-border" />
+                        </div>
+                      </div>
+                      <div className="flex items-center justify-between text-sm font-mono">
+                        <span className="text-muted-foreground">
+                          Окр. среда сейчас: <span className="text-sky-400">{ambientTemp !== null ? `${ambientTemp.toFixed(1)}°C` : "—"}</span>
+                        </span>
+                        <Button size="sm" variant="outline" className="font-mono text-xs" onClick={() => setSimRun(r => r + 1)}>
+                          <Icon name="RotateCcw" size={14} className="mr-1" /> Перезапустить
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                  {dataSource === "device" && (
+                    <>
+                      <div>
+                        <Label className="text-xs font-mono text-muted-foreground">ПРОТОКОЛ</Label>
+                        <Select value={controller.protocol} onValueChange={v => updateController("protocol", v as ControllerConfig["protocol"])}>
+                          <SelectTrigger className="font-mono mt-1 bg-secondary border-border">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="http">HTTP/JSON (WiFi)</SelectItem>
+                            <SelectItem value="modbus">Modbus (RS-485 / TCP)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <Label className="text-xs font-mono text-muted-foreground">
+                          {controller.protocol === "http" ? "АДРЕС КОНТРОЛЛЕРА (HTTP)" : "ШЛЮЗ MODBUS (WebSocket)"}
+                        </Label>
+                        <Input
+                          value={controller.url}
+                          onChange={e => updateController("url", e.target.value)}
+                          placeholder={controller.protocol === "http" ? "http://192.168.1.50 — пусто: мок-сервер" : "ws://192.168.1.60:8502 — пусто: симулятор"}
+                          className="font-mono mt-1 bg-secondary border-border"
+                        />
+                      </div>
+                      {controller.protocol === "modbus" && (
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                          <div>
+                            <Label className="text-xs font-mono text-muted-foreground">КАДР</Label>
+                            <Select value={controller.modbusMode} onValueChange={v => updateController("modbusMode", v as ControllerConfig["modbusMode"])}>
+                              <SelectTrigger className="font-mono mt-1 bg-secondary border-border">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="rtu">RTU</SelectItem>
+                                <SelectItem value="tcp">TCP</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div>
+                            <Label className="text-xs font-mono text-muted-foreground">SLAVE ID</Label>
+                            <Input type="number" min="1" max="247" value={controller.slaveId} onChange={e => updateController("slaveId", Math.min(247, Math.max(1, Math.trunc(Number(e.target.value) || 1))))} className="font-mono mt-1 bg-secondary border-border" />
+                          </div>
+                          <div>
+                            <Label className="text-xs font-mono text-muted-foreground">ТАЙМАУТ (мс)</Label>
+                            <Input type="number" min="50" value={controller.timeoutMs} onChange={e => updateController("timeoutMs", Math.max(50, Number(e.target.value) || 50))} className="font-mono mt-1 bg-secondary border-border" />
+                          </div>
+                          <div>
+                            <Label className="text-xs font-mono text-muted-foreground">ПОВТОРЫ</Label>
+                            <Input type="number" min="0" max="5" value={controller.retries} onChange={e => updateController("retries", Math.min(5, Math.max(0, Math.trunc(Number(e.target.value) || 0))))} className="font-mono mt-1 bg-secondary border-border" />
+                          </div>
+                        </div>
+                      )}
+                      {controller.protocol === "modbus" && (
+                        <div className="space-y-1.5">
+                          <Label className="text-xs font-mono text-muted-foreground">АДРЕСА СЕГМЕНТОВ (реле и регистр мощности)</Label>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                            {tapes.flatMap(t => t.segments.map(seg => (
+                              <div key={seg.id} className="flex items-center gap-2 text-xs font-mono">
+                                <span className="flex-1 truncate text-muted-foreground">{t.name} / {seg.name}</span>
+                                <Input
+                                  key={seg.modbusAddress}
+                                  type="number"
+                                  min="0"
+                                  max={MAX_SEGMENT_ADDRESS}
+                                  defaultValue={seg.modbusAddress}
+                                  onBlur={e => {
+                                    const value = e.target.value.trim();
+                                    if (value === "" || !setSegmentModbusAddress(t.id, seg.id, Number(value))) e.target.value = String(seg.modbusAddress ?? "");
+                                  }}
+                                  className="w-20 h-7 font-mono bg-secondary border-border"
+                                />
+                              </div>
+                            )))}
+                          </div>
+                        </div>
+                      )}
+                      <div className="flex justify-between text-sm font-mono">
+                        <span className="text-muted-foreground">Соединение</span>
+                        {controllerError
+                          ? <span className="text-red-400 text-xs text-right">{controllerError}</span>
+                          : controllerStatus
+                            ? <span className="text-emerald-400">{controllerSimulated ? (controller.protocol === "http" ? "Мок-сервер" : "Симулятор Modbus") : "Подключено"}</span>
+                            : <span className="text-amber-400">Подключение…</span>}
+                      </div>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="bg-card border-border">
+                <CardHeader>
+                  <CardTitle className="text-sm font-mono flex items-center gap-2">
+                    <Icon name="Radio" size={16} className="text-primary" />
+                    MQTT / HOME ASSISTANT
+                    {mqttSettings.enabled && (
+                      <Badge variant="secondary" className={`font-mono text-[10px] ${mqttState.connected ? "text-emerald-400" : "text-red-400"}`}>
+                        {mqttState.connected ? "ПОДКЛЮЧЕНО" : "НЕТ СВЯЗИ"}
+                      </Badge>
+                    )}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-mono">Телеметрия и команды по MQTT</p>
+                      <p className="text-[11px] text-muted-foreground font-mono">MQTT через WebSocket, discovery для Home Assistant</p>
+                    </div>
+                    <Switch checked={mqttSettings.enabled} onCheckedChange={v => updateMqtt("enabled", v)} />
+                  </div>
+                  <div>
+                    <Label className="text-xs font-mono text-muted-foreground">БРОКЕР (ws:// или wss://)</Label>
+                    <Input value={mqttSettings.url} onChange={e => updateMqtt("url", e.target.value)} placeholder="ws://localhost:9001" className="font-mono mt-1 bg-secondary border-border" />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label className="text-xs font-mono text-muted-foreground">ЛОГИН</Label>
+                      <Input value={mqttSettings.username} onChange={e => updateMqtt("username", e.target.value)} className="font-mono mt-1 bg-secondary border-border" />
+                    </div>
+                    <div>
+                      <Label className="text-xs font-mono text-muted-foreground">ПАРОЛЬ</Label>
+                      <Input type="password" value={mqttSettings.password} onChange={e => updateMqtt("password", e.target.value)} className="font-mono mt-1 bg-secondary border-border" />
+                    </div>
+                    <div>
+                      <Label className="text-xs font-mono text-muted-foreground">БАЗОВЫЙ ТОПИК</Label>
+                      <Input value={mqttSettings.baseTopic} onChange={e => updateMqtt("baseTopic", e.target.value)} className="font-mono mt-1 bg-secondary border-border" />
+                    </div>
+                    <div>
+                      <Label className="text-xs font-mono text-muted-foreground">ПРЕФИКС DISCOVERY</Label>
+                      <Input value={mqttSettings.discoveryPrefix} onChange={e => updateMqtt("discoveryPrefix", e.target.value)} className="font-mono mt-1 bg-secondary border-border" />
+                    </div>
+                  </div>
+                  {mqttState.error && <p className="text-[11px] text-red-400 font-mono">{mqttState.error}</p>}
+                  <p className="text-[11px] text-muted-foreground font-mono break-all">
+                    {mqttSettings.baseTopic}/tape/&lt;id&gt;/segment/&lt;id&gt;/sensor/&lt;serial&gt;/temperature
+                  </p>
+                </CardContent>
+              </Card>
+
               <Card className="bg-card border-border">
                 <CardHeader>
                   <CardTitle className="text-sm font-mono flex items-center gap-2">
@@ -1372,18 +2883,75 @@ const Index = () => {
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div className="space-y-2 text-sm font-mono">
-                    <div className="flex justify-between"><span className="text-muted-foreground">Макс. температура</span><span className="text-red-400">65°C</span></div>
                     <div className="flex justify-between"><span className="text-muted-foreground">Защита от перегрева</span><span className="text-emerald-400">Активна</span></div>
                     <div className="flex justify-between"><span className="text-muted-foreground">Защита от КЗ</span><span className="text-emerald-400">Активна</span></div>
                     <div className="flex justify-between"><span className="text-muted-foreground">Контроль утечки</span><span className="text-emerald-400">УЗО 30мА</span></div>
-                    <div className="flex justify-between"><span className="text-muted-foreground">Автоотключение</span><span className="text-emerald-400">При обрыве датчика</span></div>
                   </div>
+                  <div>
+                    <Label className="text-xs font-mono text-muted-foreground">МАКС. ТЕМПЕРАТУРА — ОТКЛЮЧЕНИЕ (°C)</Label>
+                    <Input type="number" step="1" value={safety.maxTemp} onChange={e => setSafety(prev => ({ ...prev, maxTemp: Number(e.target.value) || 0 }))} className="font-mono mt-1 bg-secondary border-border" />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label className="text-xs font-mono text-muted-foreground">БЛОКИРОВКА ПОСЛЕ (срабат.)</Label>
+                      <Input type="number" min="1" value={safety.lockoutTrips} onChange={e => setSafety(prev => ({ ...prev, lockoutTrips: Math.max(1, Number(e.target.value) || 1) }))} className="font-mono mt-1 bg-secondary border-border" />
+                    </div>
+                    <div>
+                      <Label className="text-xs font-mono text-muted-foreground">ЗА ПЕРИОД (мин)</Label>
+                      <Input type="number" min="1" value={safety.lockoutWindowMin} onChange={e => setSafety(prev => ({ ...prev, lockoutWindowMin: Math.max(1, Number(e.target.value) || 1) }))} className="font-mono mt-1 bg-secondary border-border" />
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-mono">Автоотключение при обрыве датчика</p>
+                      <p className="text-[11px] text-muted-foreground font-mono">Все датчики сегмента офлайн или в ошибке</p>
+                    </div>
+                    <Switch checked={safety.cutOnSensorLoss} onCheckedChange={v => setSafety(prev => ({ ...prev, cutOnSensorLoss: v }))} />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-mono">Плавный пуск</p>
+                      <p className="text-[11px] text-muted-foreground font-mono">Сегменты линии включаются по очереди, пусковой ток — не больше автомата</p>
+                    </div>
+                    <Switch checked={softStartSettings.enabled} onCheckedChange={v => setSoftStartSettings(prev => ({ ...prev, enabled: v }))} />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label className="text-xs font-mono text-muted-foreground">ШАГ ПУСКА (с)</Label>
+                      <Input type="number" min="0" value={softStartSettings.stepDelaySec} onChange={e => setSoftStartSettings(prev => ({ ...prev, stepDelaySec: Math.max(0, Number(e.target.value) || 0) }))} className="font-mono mt-1 bg-secondary border-border" />
+                    </div>
+                    <div>
+                      <Label className="text-xs font-mono text-muted-foreground">ПУСКОВОЙ ТОК ДЕРЖИТСЯ (с)</Label>
+                      <Input type="number" min="0" value={softStartSettings.warmupSec} onChange={e => setSoftStartSettings(prev => ({ ...prev, warmupSec: Math.max(0, Number(e.target.value) || 0) }))} className="font-mono mt-1 bg-secondary border-border" />
+                    </div>
+                    <div>
+                      <Label className="text-xs font-mono text-muted-foreground">МАКС. ОЖИДАНИЕ (с)</Label>
+                      <Input type="number" min="0" value={softStartSettings.maxWaitSec} onChange={e => setSoftStartSettings(prev => ({ ...prev, maxWaitSec: Math.max(0, Number(e.target.value) || 0) }))} className="font-mono mt-1 bg-secondary border-border" />
+                    </div>
+                  </div>
+                  {faultedSegments.length > 0 && (
+                    <div className="space-y-1.5">
+                      <p className="text-xs font-mono text-red-400">СРАБОТАВШИЕ ЗАЩИТЫ — {faultedSegments.length}</p>
+                      {faultedSegments.map(({ tape, seg }) => (
+                        <div key={seg.id} className="flex items-center justify-between gap-2 p-2 rounded border border-red-500/40 bg-red-500/10 text-xs font-mono">
+                          <span className="truncate">{tape.name} • {seg.name}: {FAULT_LABELS[seg.fault!.reason].toLowerCase()}{seg.fault!.lockout ? " (блокировка)" : ""}</span>
+                          <Button size="sm" variant="outline" className="font-mono text-[10px] h-6 shrink-0" onClick={() => resetFault(tape.id, seg.id)}>
+                            Сброс
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                   <Separator />
                   <div className="space-y-2 text-sm font-mono">
-                    <div className="flex justify-between"><span className="text-muted-foreground">Контроллер</span><span>ESP32-S3</span></div>
-                    <div className="flex justify-between"><span className="text-muted-foreground">Прошивка</span><span>v2.1.4</span></div>
-                    <div className="flex justify-between"><span className="text-muted-foreground">Связь</span><span className="text-emerald-400">WiFi / RS-485</span></div>
-                    <div className="flex justify-between"><span className="text-muted-foreground">Аптайм</span><span>14д 7ч 23м</span></div>
+                    <div className="flex justify-between"><span className="text-muted-foreground">Контроллер</span><span>{controllerStatus?.model ?? "ESP32-S3"}</span></div>
+                    <div className="flex justify-between"><span className="text-muted-foreground">Прошивка</span><span>{controllerStatus?.firmware ?? "v2.1.4"}</span></div>
+                    <div className="flex justify-between"><span className="text-muted-foreground">Связь</span>
+                      {dataSource === "device"
+                        ? <span className={controllerError ? "text-red-400" : "text-emerald-400"}>{controllerError ? "Нет связи" : controllerStatus?.link ?? "—"}</span>
+                        : <span className="text-zinc-500">Симуляция</span>}
+                    </div>
+                    <div className="flex justify-between"><span className="text-muted-foreground">Аптайм</span><span>{controllerStatus ? formatUptime(controllerStatus.uptime) : "—"}</span></div>
                   </div>
                 </CardContent>
               </Card>
@@ -1421,10 +2989,30 @@ const Index = () => {
                       {unacknowledgedAlerts} новых
                     </Badge>
                   )}
+                  <div className="ml-auto flex items-center gap-1.5">
+                    {muted ? (
+                      <Button size="sm" variant="outline" className="font-mono text-[10px] h-7" onClick={() => setMuteUntil(null)}>
+                        <Icon name="Volume2" size={12} className="mr-1" />
+                        Вернуть звук
+                      </Button>
+                    ) : (
+                      <>
+                        <Icon name="BellOff" size={14} className="text-muted-foreground" />
+                        {MUTE_OPTIONS.map(min => (
+                          <Button key={min} size="sm" variant="outline" className="font-mono text-[10px] h-7" disabled={!alertSound} onClick={() => setMuteUntil(Date.now() + min * 60000)}>
+                            {min} мин
+                          </Button>
+                        ))}
+                      </>
+                    )}
+                  </div>
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
+                  {alerts.length === 0 && (
+                    <p className="text-sm font-mono text-muted-foreground text-center py-6">Алертов нет — все правила в норме</p>
+                  )}
                   {alerts.map(alert => {
                     const style = getSeverityStyle(alert.severity);
                     return (
@@ -1442,6 +3030,11 @@ const Index = () => {
                                   {alert.severity.toUpperCase()}
                                 </Badge>
                                 <span className="text-[11px] font-mono text-muted-foreground">{alert.timestamp}</span>
+                                {alert.resolvedAt && (
+                                  <Badge variant="secondary" className="font-mono text-[10px] text-emerald-400">
+                                    Устранено {alert.resolvedAt}
+                                  </Badge>
+                                )}
                               </div>
                               <p className="text-sm font-mono">{alert.message}</p>
                             </div>
@@ -1468,6 +3061,55 @@ const Index = () => {
           </TabsContent>
         </Tabs>
       </main>
+
+      <ReplaceSensorDialog
+        sensor={replacingSensor}
+        tapes={tapes}
+        retired={retiredSensors}
+        candidates={scanAnalysis?.unassigned ?? []}
+        onClose={() => setReplacing(null)}
+        onReplace={(serial, note) => {
+          if (replacing) replaceBusSensor(replacing.tapeId, replacing.segId, replacing.sensorId, serial, note);
+          setReplacing(null);
+        }}
+      />
+
+      <CalibrationDialog
+        key={calibrating ? `${calibrating.segId}:${calibrating.sensorId}` : "closed"}
+        sensor={calibratingSensor}
+        onClose={() => setCalibrating(null)}
+        onApply={calibration => {
+          if (calibrating) setSensorCalibration(calibrating.tapeId, calibrating.segId, calibrating.sensorId, calibration);
+          setCalibrating(null);
+        }}
+      />
+
+      <AlertDialog open={lockoutReset !== null} onOpenChange={open => !open && setLockoutReset(null)}>
+        <AlertDialogContent className="font-mono">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <Icon name="Lock" size={18} className="text-red-500" />
+              Снятие блокировки сегмента
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Защита срабатывала {safety.lockoutTrips} и более раз за {safety.lockoutWindowMin} мин. Подтвердите, что сегмент
+              и его датчики осмотрены и причина устранена. Алерт будет принят, счётчик срабатываний обнулён, сегмент останется выключенным.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Отмена</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => {
+                if (lockoutReset) resetFault(lockoutReset.tapeId, lockoutReset.segId, true);
+                setLockoutReset(null);
+              }}
+            >
+              Подтверждаю осмотр — снять блокировку
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };